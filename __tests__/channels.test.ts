@@ -0,0 +1,157 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  parseKey,
+  redisChannel,
+  redisJson,
+} from "../src/index";
+
+type Listener = (message: string, channel: string) => void;
+
+// Mock @redis/client
+const mockSubscriber = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  subscribe: mock(async (_channel: string, _listener: Listener) => {}),
+  unsubscribe: mock(async (_channel: string, _listener: Listener) => {}),
+  pSubscribe: mock(async (_pattern: string, _listener: Listener) => {}),
+  pUnsubscribe: mock(async (_pattern: string, _listener: Listener) => {}),
+};
+
+const mockRedisClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  publish: mock(async () => 2),
+  duplicate: mock(() => mockSubscriber),
+} as any;
+
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockRedisClient),
+}));
+
+interface OrderEvent {
+  orderId: string;
+  status: "created" | "paid";
+}
+
+function isOrderEvent(value: unknown): value is OrderEvent {
+  return typeof value === "object" && value !== null && "orderId" in value;
+}
+
+describe("redisChannel", () => {
+  beforeEach(() => {
+    for (const fn of Object.values(mockSubscriber)) fn.mockClear();
+    for (const fn of Object.values(mockRedisClient)) (fn as any).mockClear();
+  });
+
+  it("should publish serialized payloads", async () => {
+    const client = createRedisClient("redis://localhost", {
+      orderEvents: redisChannel<OrderEvent>("order-events"),
+    });
+
+    const receivers = await client.schema.orderEvents.publish({
+      orderId: "o1",
+      status: "paid",
+    });
+
+    expect(receivers).toBe(2);
+    expect(mockRedisClient.publish).toHaveBeenCalledWith(
+      "order-events",
+      '{"orderId":"o1","status":"paid"}'
+    );
+  });
+
+  it("should deliver decoded messages on a dedicated connection", async () => {
+    const client = createRedisClient("redis://localhost", {
+      orderEvents: redisChannel<OrderEvent>("order-events"),
+    });
+    const handler = mock((_event: OrderEvent) => {});
+
+    const unsubscribe = await client.schema.orderEvents.subscribe(handler);
+    await client.schema.orderEvents.subscribe(() => {});
+
+    expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(1);
+    expect(mockSubscriber.connect).toHaveBeenCalledTimes(1);
+    const listener = mockSubscriber.subscribe.mock.calls[0]![1];
+    await listener('{"orderId":"o1","status":"created"}', "order-events");
+    expect(handler).toHaveBeenCalledWith({ orderId: "o1", status: "created" });
+
+    await unsubscribe();
+    await unsubscribe();
+    expect(mockSubscriber.unsubscribe).toHaveBeenCalledTimes(1);
+    expect(mockSubscriber.unsubscribe).toHaveBeenCalledWith(
+      "order-events",
+      listener
+    );
+
+    await client.quit();
+    expect(mockSubscriber.quit).toHaveBeenCalledTimes(1);
+  });
+
+  it("should extract pattern parameters from psubscribe channels", async () => {
+    const client = createRedisClient("redis://localhost", {
+      orders: redisChannel(
+        keyPattern("orders:{tenant}:{region}"),
+        redisJson<OrderEvent>().schema(isOrderEvent)
+      ),
+    });
+    const handler = mock(
+      (_event: OrderEvent, _params: { tenant: string | number }) => {}
+    );
+
+    await client.schema.orders.publish(
+      { tenant: "acme", region: "eu" },
+      { orderId: "o2", status: "created" }
+    );
+    expect(mockRedisClient.publish).toHaveBeenCalledWith(
+      "orders:acme:eu",
+      '{"orderId":"o2","status":"created"}'
+    );
+
+    await client.schema.orders.psubscribe(handler);
+    const [pattern, listener] = mockSubscriber.pSubscribe.mock.calls[0]!;
+    expect(pattern).toBe("orders:*:*");
+
+    await listener('{"orderId":"o2","status":"paid"}', "orders:acme:eu");
+    expect(handler).toHaveBeenCalledWith(
+      { orderId: "o2", status: "paid" },
+      { tenant: "acme", region: "eu" },
+      "orders:acme:eu"
+    );
+  });
+
+  it("should report invalid messages to the logger", async () => {
+    const logger = { warn: mock(() => {}), error: mock(() => {}) };
+    const client = createRedisClient(
+      "redis://localhost",
+      {
+        orders: redisChannel(
+          "orders",
+          redisJson<OrderEvent>().schema(isOrderEvent)
+        ),
+      },
+      { logger }
+    );
+    const handler = mock(() => {});
+
+    await client.schema.orders.subscribe(handler);
+    const listener = mockSubscriber.subscribe.mock.calls[0]![1];
+    await listener('{"nope":true}', "orders");
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    await expect(
+      client.schema.orders.publish({ nope: true } as any)
+    ).rejects.toThrow('Constraint "validator" failed');
+  });
+});
+
+describe("parseKey", () => {
+  it("should extract parameters or return null", () => {
+    const pattern = keyPattern("user:{userId}:settings");
+    expect(parseKey(pattern, "user:42:settings")).toEqual({ userId: "42" });
+    expect(parseKey(pattern, "user:42:profile")).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashNumber,
+  redisSet,
+  redisString,
+} from "../src/index";
+
+// Runs against a real cluster, e.g. one started on loopback as described
+// in the README. Run this file on its own, since the other suites mock
+// @redis/client:
+//   REDIS_CLUSTER_NODES=redis://127.0.0.1:7000 bun test cluster.integration
+const nodes = process.env.REDIS_CLUSTER_NODES?.split(",") ?? [];
+
+const schema = {
+  settings: redisHash(keyPattern("{test:{userId}}:settings"), {
+    visits: redisHashNumber(),
+  }),
+  tags: redisSet(keyPattern("{test:{userId}}:tags"), redisString()),
+};
+
+describe.skipIf(nodes.length === 0)("Redis Cluster", () => {
+  const redis = createRedisClient({ nodes }, schema);
+
+  afterAll(async () => {
+    for (const userId of [1, 2, 3]) {
+      await redis.schema.settings.hdel({ userId }, "visits");
+      await redis.schema.tags.srem({ userId }, "admin", "member");
+    }
+    await redis.close();
+  });
+
+  it("should run transactions on keys sharing a hash tag", async () => {
+    const [, added] = await redis.transaction((tx) => [
+      tx.settings.hset({ userId: 1 }, { visits: 1 }),
+      tx.tags.sadd({ userId: 1 }, "admin"),
+    ]);
+
+    expect(added).toBe(1);
+    expect(await redis.schema.settings.hget({ userId: 1 }, "visits")).toBe(1);
+  });
+
+  it("should pipeline commands to keys on different nodes", async () => {
+    const pipeline = redis.pipeline();
+    for (const userId of [1, 2, 3]) {
+      pipeline.schema.tags.sadd({ userId }, "member");
+    }
+
+    expect(await pipeline.exec()).toEqual([1, 1, 1]);
+  });
+});
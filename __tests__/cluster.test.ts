@@ -0,0 +1,192 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  assertSameSlot,
+  buildKey,
+  createRedisClient,
+  defineScript,
+  hashSlot,
+  keyPattern,
+  parseKey,
+  redisHash,
+  redisHashNumber,
+  redisList,
+  redisSet,
+  redisString,
+  RedisCrossSlotError,
+} from "../src/index";
+
+// Mock @redis/client
+const queued: string[] = [];
+const mockMulti = {
+  hSet: mock((key: string) => queued.push(key)),
+  sAdd: mock((key: string) => queued.push(key)),
+  exec: mock(async () => queued.splice(0).map(() => 1)),
+};
+const mockCluster = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  multi: mock(() => mockMulti),
+  hSet: mock(async () => 1),
+  sAdd: mock(async () => 1),
+} as any;
+
+const mockCreateCluster = mock((_options: any) => mockCluster);
+mock.module("@redis/client", () => ({
+  createClient: mock(() => ({})),
+  createCluster: mockCreateCluster,
+}));
+
+const settingsKey = keyPattern("{user:{userId}}:settings");
+const schema = {
+  settings: redisHash(settingsKey, { visits: redisHashNumber() }),
+  tags: redisSet(keyPattern("{user:{userId}}:tags"), redisString()),
+  recent: redisList("recent", redisString()),
+};
+
+describe("hashSlot", () => {
+  it("should hash keys like Redis Cluster", () => {
+    expect(hashSlot("123456789")).toBe(12739);
+    expect(hashSlot("foo")).toBe(12182);
+    expect(hashSlot("{user1000}.following")).toBe(
+      hashSlot("{user1000}.followers")
+    );
+    // An empty hash tag is not a tag
+    expect(hashSlot("{}x")).toBe(10595);
+  });
+
+  it("should build and parse keys with a hash tag around a placeholder", () => {
+    const key = buildKey(settingsKey, { userId: 42 });
+
+    expect(key).toBe("{user:42}:settings");
+    expect(parseKey(settingsKey, key)).toEqual({ userId: "42" });
+    expect(hashSlot(key)).toBe(hashSlot("{user:42}:tags"));
+  });
+});
+
+describe("assertSameSlot", () => {
+  it("should accept entries sharing a hash tag", () => {
+    expect(() => assertSameSlot(schema.settings, schema.tags)).not.toThrow();
+    // Fixed keys are compared by slot, with or without hash tags
+    expect(() =>
+      assertSameSlot(
+        schema.recent,
+        redisList("{recent}:archive", redisString())
+      )
+    ).not.toThrow();
+  });
+
+  it("should reject entries that cannot share a slot", () => {
+    expect(() => assertSameSlot(schema.settings, schema.recent)).toThrow(
+      RedisCrossSlotError
+    );
+    expect(() =>
+      assertSameSlot(
+        schema.settings,
+        redisString().key(keyPattern("{account:{userId}}:name"))
+      )
+    ).toThrow('"{user:{userId}}:settings", "{account:{userId}}:name"');
+  });
+
+  it("should reject fixed keys in different slots", () => {
+    expect(() =>
+      assertSameSlot(
+        redisList("a", redisString()),
+        redisList("b", redisString())
+      )
+    ).toThrow('"a", "b"');
+  });
+
+  it("should reject key patterns without a hash tag used with other keys", () => {
+    const visits = redisString().key(keyPattern("visits:{userId}"));
+
+    expect(() => assertSameSlot(visits, schema.recent)).toThrow(
+      RedisCrossSlotError
+    );
+    expect(() => assertSameSlot(visits)).not.toThrow();
+  });
+
+  it("should check the keys of scripts when they are defined", () => {
+    expect(() =>
+      defineScript({
+        keys: [schema.tags, schema.recent],
+        source: "return 1",
+      })
+    ).toThrow(RedisCrossSlotError);
+  });
+});
+
+describe("cluster client", () => {
+  beforeEach(() => {
+    queued.length = 0;
+    mockCreateCluster.mockClear();
+    for (const fn of Object.values(mockCluster)) (fn as any).mockClear();
+    mockMulti.exec.mockClear();
+  });
+
+  it("should connect to the cluster nodes", () => {
+    createRedisClient(
+      {
+        nodes: ["redis://127.0.0.1:7000", { host: "127.0.0.1", port: 7001 }],
+        password: "secret",
+      },
+      schema
+    );
+
+    expect(mockCreateCluster.mock.calls[0]![0]).toMatchObject({
+      rootNodes: [
+        { url: "redis://127.0.0.1:7000" },
+        { socket: { host: "127.0.0.1", port: 7001 } },
+      ],
+      defaults: { password: "secret" },
+    });
+  });
+
+  it("should run transactions whose keys share a slot", async () => {
+    const redis = createRedisClient(
+      { nodes: ["redis://127.0.0.1:7000"] },
+      schema
+    );
+
+    await redis.transaction((tx) => [
+      tx.settings.hset({ userId: 1 }, { visits: 1 }),
+      tx.tags.sadd({ userId: 1 }, "admin"),
+    ]);
+
+    expect(mockMulti.exec).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject transactions across slots before sending", async () => {
+    const redis = createRedisClient(
+      { nodes: ["redis://127.0.0.1:7000"] },
+      schema
+    );
+
+    const result = redis.transaction((tx) => [
+      tx.settings.hset({ userId: 1 }, { visits: 1 }),
+      tx.tags.sadd({ userId: 2 }, "admin"),
+    ]);
+
+    await expect(result).rejects.toBeInstanceOf(RedisCrossSlotError);
+    await expect(result).rejects.toThrow(
+      '"{user:1}:settings", "{user:2}:tags"'
+    );
+    expect(mockCluster.multi).not.toHaveBeenCalled();
+  });
+
+  it("should route pipelined commands one by one", async () => {
+    const redis = createRedisClient(
+      { nodes: ["redis://127.0.0.1:7000"] },
+      schema
+    );
+
+    const pipeline = redis.pipeline();
+    pipeline.schema.settings.hset({ userId: 1 }, { visits: 1 });
+    const added = pipeline.schema.tags.sadd({ userId: 2 }, "admin");
+
+    expect(await pipeline.exec([added])).toEqual([1]);
+    expect(mockCluster.multi).not.toHaveBeenCalled();
+    expect(mockCluster.hSet).toHaveBeenCalledTimes(1);
+    expect(mockCluster.sAdd).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createRedisClient,
+  redisString,
+  RedisConnectionError,
+  type RedisConnectionStateEvent,
+} from "../src/index";
+
+// Mock @redis/client
+const calls: string[] = [];
+const handlers: Record<string, (...args: any[]) => void> = {};
+const mockRedisClient = {
+  connect: mock(async () => {
+    calls.push("connect");
+    await Bun.sleep(1);
+  }),
+  quit: mock(async () => {
+    await Bun.sleep(1);
+    calls.push("quit");
+  }),
+  on: mock((event: string, handler: (...args: any[]) => void) => {
+    handlers[event] = handler;
+  }),
+  get: mock(async () => "value"),
+} as any;
+
+const mockCreateClient = mock((_options: any) => mockRedisClient);
+mock.module("@redis/client", () => ({
+  createClient: mockCreateClient,
+}));
+
+const schema = { name: redisString() };
+
+describe("connection", () => {
+  beforeEach(() => {
+    calls.length = 0;
+    mockCreateClient.mockClear();
+    for (const fn of Object.values(mockRedisClient)) (fn as any).mockClear();
+  });
+
+  it("should map connection options to the client", () => {
+    createRedisClient(
+      {
+        host: "cache.internal",
+        port: 6380,
+        username: "app",
+        password: "secret",
+        database: 2,
+        tls: { rejectUnauthorized: false },
+        connectTimeout: 1000,
+        maxRetries: 3,
+        backoff: (attempt) => attempt * 100,
+        offlineQueue: false,
+      },
+      schema
+    );
+
+    const options = mockCreateClient.mock.calls[0]![0];
+    expect(options).toMatchObject({
+      username: "app",
+      password: "secret",
+      database: 2,
+      disableOfflineQueue: true,
+      socket: {
+        host: "cache.internal",
+        port: 6380,
+        connectTimeout: 1000,
+        tls: true,
+        rejectUnauthorized: false,
+      },
+    });
+    const cause = new Error("ECONNREFUSED");
+    expect(options.socket.reconnectStrategy(2, cause)).toBe(200);
+    expect(options.socket.reconnectStrategy(3, cause)).toBe(cause);
+  });
+
+  it("should share one connection attempt between concurrent calls", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+
+    await Promise.all([
+      client.schema.name.get("a"),
+      client.schema.name.get("b"),
+      client.connect(),
+    ]);
+
+    expect(mockRedisClient.connect).toHaveBeenCalledTimes(1);
+    expect(mockRedisClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should retry after a failed connection attempt", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+    mockRedisClient.connect.mockImplementationOnce(async () => {
+      throw new Error("ECONNREFUSED");
+    });
+
+    await expect(client.connect()).rejects.toBeInstanceOf(RedisConnectionError);
+    expect(client.connectionState()).toBe("disconnected");
+    await client.connect();
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it("should report state changes, including reconnects", async () => {
+    const states: RedisConnectionStateEvent[] = [];
+    const client = createRedisClient("redis://localhost", schema, {
+      onStateChange: (event) => states.push(event),
+    });
+
+    await client.connect();
+    handlers.reconnecting!();
+    expect(client.connectionState()).toBe("reconnecting");
+    handlers.ready!();
+    await client.close();
+    // Events after closing are ignored
+    handlers.reconnecting!();
+
+    expect(states.map(({ previous, state }) => `${previous}>${state}`)).toEqual(
+      [
+        "disconnected>connecting",
+        "connecting>ready",
+        "ready>reconnecting",
+        "reconnecting>ready",
+        "ready>disconnected",
+      ]
+    );
+  });
+
+  it("should wait for the connection to close before reconnecting", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+
+    await client.connect();
+    await client.reconnect();
+
+    expect(calls).toEqual(["connect", "quit", "connect"]);
+    expect(client.isConnected()).toBe(true);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, mock } from "bun:test";
+import {
+  bunRedisDriver,
+  createRedisClient,
+  ioredisDriver,
+  keyPattern,
+  nodeRedisClusterDriver,
+  nodeRedisDriver,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisList,
+  redisStream,
+  redisString,
+} from "../src/index";
+
+const schema = {
+  userName: redisString(),
+  userSettings: redisHash(keyPattern("user:{userId}:settings"), {
+    theme: redisHashString(),
+    visits: redisHashNumber(),
+  }),
+  recent: redisList("recent", redisString()).maxLength(10),
+  events: redisStream("events", { type: redisHashString() }),
+};
+
+// Replies as a RESP2 server sends them
+const rawReplies: Record<string, unknown> = {
+  HGETALL: ["theme", "dark", "visits", "3"],
+  RPUSH: 2,
+  LTRIM: "OK",
+  XRANGE: [["1-0", ["type", "login"]]],
+  XREAD: [["events", [["2-0", ["type", "logout"]]]]],
+};
+
+function createIORedis() {
+  const handlers: Record<string, (...args: any[]) => void> = {};
+  const queued: string[][] = [];
+  const client = {
+    status: "wait",
+    connect: mock(async () => {
+      client.status = "ready";
+    }),
+    quit: mock(async () => "OK"),
+    call: mock(async (name: string, ..._args: string[]) => rawReplies[name]),
+    multi: mock(() => batch),
+    pipeline: mock(() => batch),
+    duplicate: mock(() => client),
+    subscribe: mock(async (..._channels: string[]) => 1),
+    unsubscribe: mock(async (..._channels: string[]) => 0),
+    psubscribe: mock(async (..._patterns: string[]) => 1),
+    punsubscribe: mock(async (..._patterns: string[]) => 0),
+    on: mock((event: string, listener: (...args: any[]) => void) => {
+      handlers[event] = listener;
+    }),
+    off: mock(() => {}),
+  };
+  const batch = {
+    call: (...args: string[]) => queued.push(args),
+    exec: mock(
+      async (): Promise<[Error | null, unknown][]> =>
+        queued
+          .splice(0)
+          .map(([name]) =>
+            name === "HGET" ? [new Error("WRONGTYPE"), null] : [null, "alice"]
+          )
+    ),
+  };
+  return { client, batch, queued, handlers };
+}
+
+describe("ioredisDriver", () => {
+  it("should send raw commands and reshape their replies", async () => {
+    const { client } = createIORedis();
+    const redis = createRedisClient(ioredisDriver(client), schema);
+
+    const settings = await redis.schema.userSettings.hgetall({ userId: 1 });
+    const length = await redis.schema.recent.rpush("recent", "a", "b");
+    const entries = await redis.schema.events.xrange("events", "-", "+", {
+      count: 5,
+    });
+    const read = await redis.schema.events.xread("events", "1-0");
+
+    expect(settings).toEqual({ theme: "dark", visits: 3 });
+    expect(length).toBe(2);
+    expect(entries).toEqual([{ id: "1-0", message: { type: "login" } }]);
+    expect(read).toEqual([{ id: "2-0", message: { type: "logout" } }]);
+    expect(client.connect).toHaveBeenCalledTimes(1);
+    expect(client.call.mock.calls).toEqual([
+      ["HGETALL", "user:1:settings"],
+      ["RPUSH", "recent", "a", "b"],
+      ["LTRIM", "recent", "-10", "-1"],
+      ["XRANGE", "events", "-", "+", "COUNT", "5"],
+      ["XREAD", "STREAMS", "events", "1-0"],
+    ]);
+  });
+
+  it("should report failed pipeline commands as error replies", async () => {
+    const { client, queued } = createIORedis();
+    const redis = createRedisClient(ioredisDriver(client), schema);
+
+    const pipeline = redis.pipeline();
+    const name = pipeline.schema.userName.get("user:1:name");
+    pipeline.schema.userSettings.hget({ userId: 1 }, "theme");
+
+    await expect(pipeline.exec()).rejects.toThrow("WRONGTYPE");
+    expect(client.pipeline).toHaveBeenCalledTimes(1);
+    expect(queued).toEqual([]);
+    expect(name).toEqual({ schemaKey: "userName", operation: "get" });
+  });
+
+  it("should dispatch messages to subscribed listeners", async () => {
+    const { client, handlers } = createIORedis();
+    const driver = ioredisDriver(client);
+    const listener = mock((_message: string, _channel: string) => {});
+
+    await driver.subscribe("news", listener);
+    await driver.subscribe("news", listener);
+    handlers.message!("news", "hello");
+    handlers.message!("other", "ignored");
+    await driver.unsubscribe("news", listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("hello", "news");
+    expect(client.subscribe).toHaveBeenCalledTimes(1);
+    expect(client.unsubscribe).toHaveBeenCalledWith("news");
+  });
+});
+
+describe("bunRedisDriver", () => {
+  it("should read RESP3 replies and wrap transactions in MULTI/EXEC", async () => {
+    const send = mock(async (name: string, _args: string[]): Promise<any> => {
+      if (name === "HGETALL") return { theme: "light", visits: "5" };
+      if (name === "EXEC") return ["OK", "bob"];
+      return "QUEUED";
+    });
+    const client = {
+      connect: mock(async () => {}),
+      close: mock(() => {}),
+      send,
+    } as any;
+    const redis = createRedisClient(bunRedisDriver(client), schema);
+
+    expect(await redis.schema.userSettings.hgetall({ userId: 2 })).toEqual({
+      theme: "light",
+      visits: 5,
+    });
+    const [, name] = await redis.transaction((tx) => [
+      tx.userName.set("user:2:name", "bob"),
+      tx.userName.get("user:2:name"),
+    ]);
+    await redis.quit();
+
+    expect(name).toBe("bob");
+    expect(send.mock.calls.map(([command]) => command)).toEqual([
+      "HGETALL",
+      "MULTI",
+      "SET",
+      "GET",
+      "EXEC",
+    ]);
+    expect(client.close).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("nodeRedisDriver", () => {
+  it("should run on an existing client instance", async () => {
+    const client = {
+      connect: mock(async () => {}),
+      quit: mock(async () => {}),
+      on: mock(() => {}),
+      get: mock(async () => "carol"),
+    } as any;
+    const redis = createRedisClient(nodeRedisDriver(client), schema);
+
+    expect(await redis.schema.userName.get("user:3:name")).toBe("carol");
+    expect(client.get).toHaveBeenCalledWith("user:3:name");
+  });
+
+  it("should not connect a client that is already open", async () => {
+    const connected = () => ({
+      isOpen: true,
+      connect: mock(async () => {
+        throw new Error("Socket already opened");
+      }),
+      quit: mock(async () => {}),
+      on: mock(() => {}),
+      get: mock(async () => "carol"),
+    });
+    const client = connected();
+    const cluster = connected();
+
+    const redis = createRedisClient(nodeRedisDriver(client as any), schema);
+    const clustered = createRedisClient(
+      nodeRedisClusterDriver(cluster as any),
+      schema
+    );
+
+    expect(await redis.schema.userName.get("user:3:name")).toBe("carol");
+    expect(await clustered.schema.userName.get("user:3:name")).toBe("carol");
+    expect(client.connect).not.toHaveBeenCalled();
+    expect(cluster.connect).not.toHaveBeenCalled();
+  });
+});
@@ -9,6 +9,12 @@ import {
   redisSortedSet,
   redisJson,
   redisList,
+  keyPattern,
+  buildKey,
+  RedisConstraintError,
+  RedisCommandError,
+  RedisDeserializationError,
+  RedisValidationError,
 } from "../src/index";
 
 // Mock @redis/client
@@ -42,6 +48,7 @@ const mockZrange = mock(async () => []);
 const mockRedisClient = {
   connect: mockConnect,
   quit: mockQuit,
+  on: mock(() => {}),
   ping: mockPing,
   set: mockSet,
   get: mockGet,
@@ -170,7 +177,7 @@ describe("createRedisClient", () => {
     mockRedisClient.lRange = mockLrange;
 
     await client.schema.mylist.lpush("mylist", "a", "b");
-    expect(mockLpush).toHaveBeenCalledWith("mylist", "a", "b");
+    expect(mockLpush).toHaveBeenCalledWith("mylist", ["a", "b"]);
 
     const values = await client.schema.mylist.lrange("mylist", 0, -1);
     expect(values).toEqual(["a", "b"]);
@@ -187,7 +194,7 @@ describe("createRedisClient", () => {
     mockRedisClient.sMembers = mockSmembers;
 
     await client.schema.myset.sadd("myset", "x", "y");
-    expect(mockSadd).toHaveBeenCalledWith("myset", "x", "y");
+    expect(mockSadd).toHaveBeenCalledWith("myset", ["x", "y"]);
 
     const members = await client.schema.myset.smembers("myset");
     expect(members).toEqual(["x", "y"]);
@@ -254,14 +261,255 @@ describe("createRedisClient", () => {
     expect(client.isConnected()).toBe(true);
   });
 
-  it("should handle deserialization error gracefully", async () => {
+  it("should surface deserialization errors with context", async () => {
     const client = createRedisClient("redis://localhost", {
       foo: redisJson<{ foo: string }>(),
     });
     const mockGet = mock(async () => "{invalid json");
     mockRedisClient.get = mockGet;
 
-    const value = await client.schema.foo.get("foo-key");
-    expect(value).toBeNull();
+    const error = await client.schema.foo.get("foo-key").catch((err) => err);
+    expect(error).toBeInstanceOf(RedisDeserializationError);
+    expect(error).toMatchObject({
+      schemaKey: "foo",
+      key: "foo-key",
+      command: "GET",
+      value: "{invalid json",
+    });
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it("should wrap command failures and report them to the logger", async () => {
+    const logger = { warn: mock(() => {}), error: mock(() => {}) };
+    const client = createRedisClient(
+      "redis://localhost",
+      { foo: redisString() },
+      { logger }
+    );
+    const cause = new Error("boom");
+    mockRedisClient.exists = mock(async () => {
+      throw cause;
+    });
+
+    const error = await client.schema.foo.exists("foo-key").catch((e) => e);
+    expect(error).toBeInstanceOf(RedisCommandError);
+    expect(error).toMatchObject({
+      schemaKey: "foo",
+      key: "foo-key",
+      command: "EXISTS",
+      cause,
+    });
+    expect(error.message).toContain("boom");
+    expect(logger.error).toHaveBeenCalledWith("Redis EXISTS error:", error);
+    mockRedisClient.exists = mockExists;
+  });
+
+  it("should build keys from key patterns", async () => {
+    mockHGet.mockImplementationOnce(async () => "dark");
+    const client = createRedisClient("redis://localhost", {
+      userSettings: redisHash(keyPattern("user:{userId}:settings"), {
+        theme: redisHashString(),
+      }),
+      userName: redisString().key(keyPattern("user:{userId}:name")),
+    });
+
+    const theme = await client.schema.userSettings.hget(
+      { userId: "42" },
+      "theme"
+    );
+    expect(theme).toBe("dark");
+    expect(mockHGet).toHaveBeenCalledWith("user:42:settings", "theme");
+
+    await client.schema.userName.del({ userId: 7 });
+    expect(mockDel).toHaveBeenCalledWith("user:7:name");
+
+    // @ts-expect-error raw keys are rejected for pattern entries
+    await client.schema.userName.exists("user:7:name").catch(() => {});
+    // @ts-expect-error missing pattern parameter
+    await client.schema.userName.exists({ id: 7 }).catch(() => {});
+  });
+
+  it("should reject missing key pattern parameters", async () => {
+    const client = createRedisClient("redis://localhost", {
+      profile: redisJson<{ foo: string }>().key(keyPattern("profile:{id}")),
+    });
+
+    await expect(client.schema.profile.get({} as any)).rejects.toThrow(
+      'Missing key parameter "id" for pattern "profile:{id}"'
+    );
+    expect(buildKey(keyPattern("a:{x}:b:{y}"), { x: 1, y: "z" })).toBe(
+      "a:1:b:z"
+    );
+  });
+
+  it("should round-trip JSON and number elements in collections", async () => {
+    const client = createRedisClient("redis://localhost", {
+      events: redisList("events", redisJson<{ id: number }>()),
+      scores: redisSortedSet("scores", redisHashNumber()),
+    });
+    const mockLpush = mock(async () => 1);
+    const mockLpop = mock(async () => JSON.stringify({ id: 1 }));
+    const mockZrange = mock(async () => ["3", "5"]);
+    mockRedisClient.lPush = mockLpush;
+    mockRedisClient.lPop = mockLpop;
+    mockRedisClient.zRange = mockZrange;
+
+    await client.schema.events.lpush("events", { id: 1 });
+    expect(mockLpush).toHaveBeenCalledWith("events", ['{"id":1}']);
+
+    const event: { id: number } | null = await client.schema.events.lpop(
+      "events"
+    );
+    expect(event).toEqual({ id: 1 });
+
+    const scores: number[] = await client.schema.scores.zrange("scores", 0, -1);
+    expect(scores).toEqual([3, 5]);
+
+    // @ts-expect-error elements must match the declared element type
+    await client.schema.events.rpush("events", "not-an-event").catch(() => {});
+  });
+
+  it("should reject writes that violate declared constraints", async () => {
+    const isUser = (v: unknown): v is { name: string } =>
+      typeof v === "object" && v !== null && "name" in v;
+    const client = createRedisClient("redis://localhost", {
+      name: redisString().minLength(2).maxLength(5),
+      user: redisJson<{ name: string }>().schema(isUser),
+      tags: redisSet("tags", redisString().maxLength(3)),
+    });
+    const mockSet = mock(async () => {});
+    const mockSadd = mock(async () => 1);
+    mockRedisClient.set = mockSet;
+    mockRedisClient.sAdd = mockSadd;
+
+    const error = await client.schema.name
+      .set("name-key", "a")
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(RedisConstraintError);
+    expect(error.schemaKey).toBe("name");
+    expect(error.constraint).toBe("minLength");
+
+    await expect(
+      client.schema.name.set("name-key", "too long")
+    ).rejects.toMatchObject({ constraint: "maxLength" });
+    await expect(
+      client.schema.user.set("user-key", { nope: true } as any)
+    ).rejects.toMatchObject({ schemaKey: "user", constraint: "validator" });
+    await expect(
+      client.schema.tags.sadd("tags", "ok", "toolong")
+    ).rejects.toMatchObject({ schemaKey: "tags", value: "toolong" });
+
+    expect(mockSet).not.toHaveBeenCalled();
+    expect(mockSadd).not.toHaveBeenCalled();
+  });
+
+  it("should apply the validation-failure policy to invalid stored values", async () => {
+    const isUser = (v: unknown): v is { name: string } =>
+      typeof v === "object" && v !== null && "name" in v;
+    const onInvalid = mock(() => {});
+    const client = createRedisClient(
+      "redis://localhost",
+      {
+        nulled: redisJson<{ name: string }>().schema(isUser),
+        defaulted: redisJson<{ name: string }>()
+          .default({ name: "guest" })
+          .validationFailure("default"),
+        deleted: redisJson<{ name: string }>()
+          .schema(isUser)
+          .validationFailure("delete"),
+        raw: redisJson<{ name: string }>()
+          .schema(isUser)
+          .validationFailure("passthrough"),
+      },
+      { validationFailure: "null", onInvalid }
+    );
+    mockRedisClient.get = mock(async () => JSON.stringify({ nope: 1 }));
+
+    expect(await client.schema.nulled.get("k")).toBeNull();
+    expect(onInvalid).toHaveBeenCalledWith(
+      expect.objectContaining({
+        schemaKey: "nulled",
+        key: "k",
+        value: '{"nope":1}',
+        policy: "null",
+        error: expect.any(RedisValidationError),
+      })
+    );
+
+    mockRedisClient.get = mock(async () => "{corrupt");
+    expect(await client.schema.defaulted.get("k")).toEqual({ name: "guest" });
+    expect(await client.schema.raw.get("k")).toBe("{corrupt" as any);
+
+    mockRedisClient.get = mock(async () => JSON.stringify({ nope: 1 }));
+    mockDel.mockClear();
+    expect(await client.schema.deleted.get("bad-key")).toBeNull();
+    expect(mockDel).toHaveBeenCalledWith("bad-key");
+    expect(await client.schema.raw.get("k")).toEqual({ nope: 1 } as any);
+  });
+
+  it("should report a throwing onInvalid hook without failing the read", async () => {
+    const logger = { warn: mock(() => {}), error: mock(() => {}) };
+    const error = new Error("hook failed");
+    const client = createRedisClient(
+      "redis://localhost",
+      { nulled: redisJson<{ name: string }>() },
+      {
+        validationFailure: "null",
+        logger,
+        onInvalid: () => {
+          throw error;
+        },
+      }
+    );
+    mockRedisClient.get = mock(async () => "{corrupt");
+
+    expect(await client.schema.nulled.get("k")).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith("Redis hook error:", error);
+  });
+
+  it("should report operations to the instrumentation hooks", async () => {
+    const onCommand = mock(() => {});
+    const onResult = mock(() => {});
+    const onError = mock(() => {});
+    const onConnect = mock(() => {});
+    const client = createRedisClient(
+      "redis://localhost",
+      {
+        settings: redisHash(keyPattern("user:{userId}:settings"), {
+          theme: redisHashString(),
+        }).ttl(60),
+      },
+      { onCommand, onResult, onError, onConnect }
+    );
+    mockHSet.mockImplementationOnce(async () => 1 as any);
+
+    await client.schema.settings.hset({ userId: 1 }, "theme", "dark");
+    const event = {
+      schemaKey: "settings",
+      operation: "hset",
+      commands: ["HSET", "EXPIRE"],
+      key: "user:1:settings",
+      // The key twice, plus "theme", "dark" and "60"
+      payloadSize: 15 * 2 + 5 + 4 + 2,
+    };
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(onCommand).toHaveBeenCalledWith(event);
+    expect(onResult).toHaveBeenCalledWith({
+      ...event,
+      duration: expect.any(Number),
+      resultSize: expect.any(Number),
+    });
+
+    mockHGet.mockImplementationOnce(async () => {
+      throw new Error("down");
+    });
+    await client.schema.settings.hget({ userId: 1 }, "theme").catch(() => {});
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: "hget",
+        key: "user:1:settings",
+        error: expect.any(RedisCommandError),
+      })
+    );
   });
 });
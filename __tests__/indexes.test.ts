@@ -0,0 +1,137 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryRedisClient,
+  createRedisClient,
+  hashSlot,
+  keyPattern,
+  memoryDriver,
+  RedisCrossSlotError,
+  type RedisCommand,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+} from "../src/index";
+
+const schema = {
+  users: redisHash(keyPattern("user:{id}"), {
+    name: redisHashString(),
+    email: redisHashString(),
+    age: redisHashNumber(),
+    bio: redisHashString().optional(),
+  })
+    .index("email", "age")
+    .ttl(3600),
+};
+
+describe("Hash indexes", () => {
+  it("should find hashes by an indexed value", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.users.hset({ id: 1 }, { name: "Ada", email: "ada@x", age: 36 });
+    await redis.users.hset({ id: 2 }, { name: "Bob", email: "bob@x", age: 25 });
+
+    expect(await redis.users.findBy("email", "ada@x")).toEqual([
+      { key: "user:1", value: { name: "Ada", email: "ada@x", age: 36 } },
+    ]);
+    expect(await redis.users.countBy("email", "bob@x")).toBe(1);
+    expect(await redis.users.countBy("email", "eve@x")).toBe(0);
+
+    // @ts-expect-error only indexed fields can be queried
+    await redis.users.findBy("name", "Ada").catch(() => {});
+  });
+
+  it("should find hashes by a range of a number field", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    for (const [id, age] of [
+      [1, 36],
+      [2, 25],
+      [3, 52],
+    ]) {
+      await redis.users.hset({ id: id! }, { name: "", email: "", age: age! });
+    }
+
+    const found = await redis.users.findRange("age", 30, Infinity);
+    expect(found.map((entry) => entry.key)).toEqual(["user:1", "user:3"]);
+    expect(await redis.users.findBy("age", 25)).toHaveLength(1);
+
+    // @ts-expect-error only number fields have ranges
+    await redis.users.findRange("email", 0, 1).catch(() => {});
+  });
+
+  it("should move hashes between indexes on writes", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.users.hset({ id: 1 }, { name: "Ada", email: "ada@x", age: 36 });
+
+    await redis.users.hset({ id: 1 }, "email", "ada@y");
+    expect(await redis.users.countBy("email", "ada@x")).toBe(0);
+    expect(await redis.users.countBy("email", "ada@y")).toBe(1);
+
+    expect(await redis.users.hdel({ id: 1 }, "email", "bio")).toBe(1);
+    expect(await redis.users.countBy("email", "ada@y")).toBe(0);
+    expect(await redis.users.findRange("age", 0, 100)).toHaveLength(1);
+
+    expect(await redis.users.del({ id: 1 })).toBe(1);
+    expect(await redis.users.findRange("age", 0, 100)).toEqual([]);
+  });
+
+  it("should update indexes atomically in transactions", async () => {
+    const { schema: redis, transaction } = createMemoryRedisClient(schema);
+
+    const [, found] = await transaction((tx) => [
+      tx.users.hset({ id: 1 }, { name: "Ada", email: "ada@x", age: 36 }),
+      tx.users.findBy("email", "ada@x"),
+    ]);
+
+    expect(found).toHaveLength(1);
+  });
+
+  it("should drop expired hashes from the indexes", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    await redis.users.hset({ id: 1 }, { name: "Ada", email: "ada@x", age: 36 });
+
+    clock.advance(3600_000);
+    expect(await redis.users.countBy("email", "ada@x")).toBe(0);
+    expect(await redis.users.findRange("age", 0, 100)).toEqual([]);
+  });
+
+  it("should drop index entries a hash no longer matches", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    await redis.users.hset({ id: 1 }, { name: "Ada", email: "a", age: 36 });
+
+    // The hash expires and is written again with another value
+    clock.advance(3600_000);
+    await redis.users.hset({ id: 1 }, { name: "Ada", email: "b", age: 52 });
+
+    expect(await redis.users.findBy("email", "a")).toEqual([]);
+    expect(await redis.users.countBy("email", "a")).toBe(0);
+    expect(await redis.users.countBy("email", "b")).toBe(1);
+    expect(await redis.users.findRange("age", 30, 40)).toEqual([]);
+  });
+
+  it("should send the index keys in the slot of the hashes on a cluster", async () => {
+    const sent: RedisCommand[] = [];
+    const driver = {
+      ...memoryDriver(),
+      cluster: true,
+      send: async (cmd: RedisCommand) => {
+        sent.push(cmd);
+        return 0;
+      },
+    };
+    const redis = createRedisClient(driver, {
+      ...schema,
+      tagged: redisHash("{users}:directory", {
+        email: redisHashString(),
+      }).index("email"),
+    });
+
+    await redis.schema.tagged.hset("{users}:directory", { email: "ada@x" });
+    const { keys } = sent[0]!.args[1] as { keys: string[] };
+    expect(keys).toEqual(["{users}:directory", "{users}:tagged:index:email"]);
+    expect(new Set(keys.map(hashSlot)).size).toBe(1);
+
+    // Hashes stored across slots cannot be indexed by the scripts
+    await expect(
+      redis.schema.users.hset({ id: 1 }, { email: "ada@x" })
+    ).rejects.toBeInstanceOf(RedisCrossSlotError);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryRedisClient,
+  keyPattern,
+  redisHashNumber,
+  redisJson,
+  redisList,
+  redisString,
+} from "../src/index";
+
+interface Item {
+  id: number;
+}
+
+const schema = {
+  items: redisList(keyPattern("items:{id}"), redisJson<Item>()),
+  recent: redisList("recent", redisString()).maxLength(3).ttl(60),
+  counts: redisList("counts", redisHashNumber()),
+};
+
+describe("List operations", () => {
+  it("should read and change values by index", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.items.rpush({ id: 1 }, { id: 1 }, { id: 2 });
+
+    expect(await redis.items.lindex({ id: 1 }, -1)).toEqual({ id: 2 });
+    expect(await redis.items.lindex({ id: 1 }, 5)).toBeNull();
+
+    await redis.items.lset({ id: 1 }, 0, { id: 3 });
+    expect(
+      await redis.items.linsert({ id: 1 }, "before", { id: 2 }, { id: 4 })
+    ).toBe(3);
+    expect(
+      await redis.items.linsert({ id: 1 }, "after", { id: 9 }, { id: 5 })
+    ).toBe(-1);
+    expect(await redis.items.lrange({ id: 1 }, 0, -1)).toEqual([
+      { id: 3 },
+      { id: 4 },
+      { id: 2 },
+    ]);
+    expect(await redis.items.lpos({ id: 1 }, { id: 2 })).toBe(2);
+
+    await expect(redis.items.lset({ id: 1 }, 7, { id: 1 })).rejects.toThrow(
+      "index out of range"
+    );
+  });
+
+  it("should find, remove and trim values", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.counts.rpush("counts", 1, 2, 1, 3, 1);
+
+    expect(await redis.counts.lpos("counts", 1, { count: 0 })).toEqual([
+      0, 2, 4,
+    ]);
+    expect(await redis.counts.lpos("counts", 1, { rank: -2 })).toBe(2);
+    expect(await redis.counts.lpos("counts", 3, { maxLength: 2 })).toBeNull();
+
+    expect(await redis.counts.lrem("counts", -2, 1)).toBe(2);
+    expect(await redis.counts.lrange("counts", 0, -1)).toEqual([1, 2, 3]);
+    await redis.counts.ltrim("counts", 1, -1);
+    expect(await redis.counts.lpop("counts", 5)).toEqual([2, 3]);
+    expect(await redis.counts.rpop("counts", 2)).toEqual([]);
+  });
+
+  it("should keep writes within the maximum length and refresh the TTL", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+
+    expect(await redis.recent.rpushx("recent", "a")).toBe(0);
+    await redis.recent.rpush("recent", "a", "b", "c");
+    clock.advance(30_000);
+    await redis.recent.linsert("recent", "after", "c", "d");
+    expect(await redis.recent.lrange("recent", 0, -1)).toEqual(["b", "c", "d"]);
+    expect(await redis.recent.ttl("recent")).toBe(60);
+
+    // Trimming keeps the last values, dropping a value pushed to the left
+    await redis.recent.lpushx("recent", "e");
+    expect(await redis.recent.llen("recent")).toBe(3);
+
+    await redis.recent.lmove("recent", "archive", "left", "right");
+    expect(await redis.recent.lrange("archive", 0, -1)).toEqual(["b"]);
+    expect(await redis.recent.ttl("archive")).toBe(60);
+  });
+
+  it("should trim the destination of a move within a transaction", async () => {
+    const { schema: redis, transaction } = createMemoryRedisClient(schema);
+    await redis.recent.rpush("archive", "a", "b", "c");
+    await redis.recent.rpush("recent", "d");
+
+    await transaction((tx) => [
+      tx.recent.lmove("recent", "archive", "left", "right"),
+    ]);
+
+    expect(await redis.recent.lrange("archive", 0, -1)).toEqual([
+      "b",
+      "c",
+      "d",
+    ]);
+    expect(await redis.recent.ttl("archive")).toBe(60);
+  });
+
+  it("should type values and counted pops", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    const popped: Item[] = await redis.items.lpop({ id: 1 }, 2);
+    const one: Item | null = await redis.items.rpop({ id: 1 });
+    expect([popped, one]).toEqual([[], null]);
+
+    const index: number | null = await redis.items.lpos({ id: 1 }, { id: 1 });
+    const indexes: number[] = await redis.items.lpos(
+      { id: 1 },
+      { id: 1 },
+      { count: 0 }
+    );
+    expect([index, indexes]).toEqual([null, []]);
+
+    // @ts-expect-error values are items
+    await redis.items.lset({ id: 1 }, 0, "x").catch(() => {});
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, mock } from "bun:test";
+import {
+  createMemoryRedisClient,
+  defineScript,
+  keyPattern,
+  redisChannel,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisJson,
+  redisList,
+  redisSet,
+  redisSortedSet,
+  redisStream,
+  redisString,
+} from "../src/index";
+
+const schema = {
+  session: redisString().key(keyPattern("session:{id}")).ttl(60),
+  profile: redisJson<{ name: string }>(),
+  settings: redisHash(keyPattern("user:{userId}:settings"), {
+    theme: redisHashString().default("light"),
+    visits: redisHashNumber(),
+  }).ttl(30),
+  recent: redisList("recent", redisString()).maxLength(3),
+  tags: redisSet("tags", redisString()).maxSize(2),
+  scores: redisSortedSet("scores", redisString()).maxSize(2),
+  events: redisStream("events", { type: redisHashString() }),
+  news: redisChannel<{ title: string }>("news"),
+};
+
+describe("createMemoryRedisClient", () => {
+  it("should run string, JSON and hash operations", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    await redis.session.set({ id: "s1" }, "token");
+    await redis.profile.set("profile:1", { name: "Ada" });
+    await redis.settings.hset({ userId: 1 }, { visits: 2 });
+
+    expect(await redis.session.get({ id: "s1" })).toBe("token");
+    expect(await redis.profile.get("profile:1")).toEqual({ name: "Ada" });
+    expect(await redis.settings.hgetall({ userId: 1 })).toEqual({
+      theme: "light",
+      visits: 2,
+    } as any);
+    expect(await redis.settings.hexists({ userId: 1 }, "theme")).toBe(false);
+    await redis.settings.hdel({ userId: 1 }, "visits");
+    expect(await redis.settings.hget({ userId: 1 }, "visits")).toBeNull();
+    expect(await redis.profile.del("profile:1")).toBe(1);
+    expect(await redis.profile.exists("profile:1")).toBe(false);
+  });
+
+  it("should type reads by optional and default fields", async () => {
+    const { schema: redis } = createMemoryRedisClient({
+      nickname: redisString().default("anonymous"),
+      user: redisHash(keyPattern("user:{id}"), {
+        name: redisHashString(),
+        theme: redisHashString().default("light"),
+        bio: redisHashString().optional(),
+      }),
+    });
+
+    const nickname: string = await redis.nickname.get("nickname:1");
+    const theme: string = await redis.user.hget({ id: 1 }, "theme");
+    expect([nickname, theme]).toEqual(["anonymous", "light"]);
+
+    await redis.user.hset({ id: 1 }, { name: "Ada" }, { create: true });
+    const user = await redis.user.hgetall({ id: 1 });
+    expect(user).toEqual({ name: "Ada", theme: "light" });
+    // @ts-expect-error optional fields may be missing
+    const bio: string = user!.bio;
+    expect(bio).toBeUndefined();
+  });
+
+  it("should require fields when creating a hash or stream entry", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    // Updates may set any fields
+    await redis.settings.hset({ userId: 1 }, { theme: "dark" });
+    await expect(
+      // @ts-expect-error a new hash needs its required fields
+      redis.settings.hset({ userId: 2 }, { theme: "dark" }, { create: true })
+    ).rejects.toThrow('Constraint "required" failed');
+    // @ts-expect-error a stream entry needs its required fields
+    await expect(redis.events.xadd("events", {})).rejects.toThrow(
+      'Constraint "required" failed'
+    );
+    expect(await redis.settings.hgetall({ userId: 2 })).toBeNull();
+  });
+
+  it("should expire keys when the clock advances", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+
+    await redis.session.set({ id: "s1" }, "token");
+    await redis.settings.hset({ userId: 1 }, "visits", 1);
+    clock.advance(30_000);
+    expect(await redis.settings.hget({ userId: 1 }, "visits")).toBeNull();
+    expect(await redis.session.get({ id: "s1" })).toBe("token");
+    clock.advance(30_000);
+    expect(await redis.session.get({ id: "s1" })).toBeNull();
+  });
+
+  it("should enforce list, set and sorted set limits", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    await redis.recent.rpush("recent", "a", "b", "c", "d");
+    expect(await redis.recent.lrange("recent", 0, -1)).toEqual(["b", "c", "d"]);
+    expect(await redis.recent.lpop("recent")).toBe("b");
+    expect(await redis.recent.llen("recent")).toBe(2);
+
+    await redis.tags.sadd("tags", "x", "y", "z");
+    expect(await redis.tags.scard("tags")).toBe(2);
+
+    await redis.scores.zadd("scores", 3, "c");
+    await redis.scores.zadd("scores", 1, "a");
+    await redis.scores.zadd("scores", 2, "b");
+    expect(await redis.scores.zrange("scores", 0, -1)).toEqual(["b", "c"]);
+    expect(await redis.scores.zrank("scores", "c")).toBe(1);
+    expect(await redis.scores.zscore("scores", "b")).toBe(2);
+  });
+
+  it("should run transactions atomically, including set trimming", async () => {
+    const { schema: redis, transaction } = createMemoryRedisClient(schema);
+
+    const [added, length] = await transaction((tx) => [
+      tx.tags.sadd("tags", "x", "y", "z"),
+      tx.recent.lpush("recent", "a"),
+    ]);
+
+    expect([added, length]).toEqual([3, 1]);
+    expect(await redis.tags.scard("tags")).toBe(2);
+  });
+
+  it("should read streams through consumer groups", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+
+    await redis.events.xgroupCreate("events", "workers", "$", {
+      mkStream: true,
+    });
+    const id = await redis.events.xadd("events", { type: "login" });
+    const [entry] = await redis.events.xreadgroup("events", "workers", "w1");
+
+    expect(entry).toEqual({ id, message: { type: "login" } });
+    expect((await redis.events.xpending("events", "workers")).pending).toBe(1);
+
+    clock.advance(5000);
+    const claimed = await redis.events.xautoclaim(
+      "events",
+      "workers",
+      "w2",
+      1000
+    );
+    expect(claimed.entries.map((e) => e.id)).toEqual([id]);
+    expect(await redis.events.xack("events", "workers", id)).toBe(1);
+    expect(await redis.events.xrange("events")).toHaveLength(1);
+  });
+
+  it("should wake blocked stream reads on a write", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    const read = redis.events.xread("events", "$", { block: 0 });
+    // Let the read reach its connection before the write
+    await Bun.sleep(1);
+    await redis.events.xadd("events", { type: "logout" });
+
+    expect((await read).map((e) => e.message)).toEqual([{ type: "logout" }]);
+  });
+
+  it("should time out blocked reads when the clock advances", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    let done = false;
+
+    const read = redis.events
+      .xread("events", "$", { block: 1000 })
+      .finally(() => (done = true));
+    await Bun.sleep(1);
+    clock.advance(999);
+    await Bun.sleep(1);
+    expect(done).toBe(false);
+
+    clock.advance(1);
+    expect(await read).toEqual([]);
+  });
+
+  it("should run registered scripts with their JavaScript implementations", async () => {
+    const tagCount = defineScript({
+      keys: [schema.tags],
+      args: { tag: redisString() },
+      source: `redis.call("SADD", KEYS[1], ARGV[1])
+return redis.call("SCARD", KEYS[1])`,
+    });
+    const { scripts } = createMemoryRedisClient(schema, {
+      scripts: { tagCount },
+      memoryScripts: {
+        tagCount: (call, [key], [tag]) => {
+          call("sAdd", key, tag);
+          return call("sCard", key);
+        },
+      },
+    });
+
+    expect(await scripts.tagCount(["tags"], { tag: "a" })).toBe(1);
+    expect(await scripts.tagCount(["tags"], { tag: "b" })).toBe(2);
+  });
+
+  it("should deliver published messages to subscribers", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    const handler = mock((_news: { title: string }) => {});
+
+    await redis.news.subscribe(handler);
+    expect(await redis.news.publish({ title: "Hello" })).toBe(1);
+    await Bun.sleep(0);
+
+    expect(handler).toHaveBeenCalledWith({ title: "Hello" });
+  });
+
+  it("should fail like Redis on a key of another type", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    await redis.profile.set("recent", { name: "Ada" });
+    await expect(redis.recent.lpush("recent", "a")).rejects.toThrow(
+      "WRONGTYPE"
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisList,
+  redisString,
+  RedisCommandError,
+} from "../src/index";
+
+// Mock @redis/client
+let queued: [string, ...unknown[]][] = [];
+let replies: unknown[] = [];
+const mockExecAsPipeline = mock(async (): Promise<unknown[]> => replies);
+const mockMulti = mock(() => {
+  const multi: any = new Proxy(
+    {},
+    {
+      get(_, method: string) {
+        if (method === "execAsPipeline") return mockExecAsPipeline;
+        return (...args: unknown[]) => {
+          queued.push([method, ...args]);
+          return multi;
+        };
+      },
+    }
+  );
+  return multi;
+});
+
+const mockRedisClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  multi: mockMulti,
+  get: mock(async () => null),
+} as any;
+
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockRedisClient),
+}));
+
+const schema = {
+  userName: redisString(),
+  userSettings: redisHash(keyPattern("user:{userId}:settings"), {
+    theme: redisHashString(),
+    visits: redisHashNumber(),
+  }),
+  recent: redisList("recent", redisString()).maxLength(10).ttl(300),
+};
+
+describe("pipeline", () => {
+  beforeEach(() => {
+    queued = [];
+    replies = [];
+    mockExecAsPipeline.mockClear();
+    mockMulti.mockClear();
+    mockRedisClient.get.mockClear();
+  });
+
+  it("should send queued operations in one round trip", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+    replies = [2, "OK", 1, "alice", "7"];
+
+    const pipeline = client.pipeline();
+    const pushed = pipeline.schema.recent.rpush("recent", "a", "b");
+    const name = pipeline.schema.userName.get("user:1:name");
+    const visits = pipeline.schema.userSettings.hget({ userId: 1 }, "visits");
+    const [typedVisits, typedName, length] = await pipeline.exec([
+      visits,
+      name,
+      pushed,
+    ]);
+
+    const check: [number | null, string | null, number] = [
+      typedVisits,
+      typedName,
+      length,
+    ];
+    expect(check).toEqual([7, "alice", 2]);
+    expect(mockExecAsPipeline).toHaveBeenCalledTimes(1);
+    expect(queued).toEqual([
+      ["rPush", "recent", ["a", "b"]],
+      ["lTrim", "recent", -10, -1],
+      ["expire", "recent", 300],
+      ["get", "user:1:name"],
+      ["hGet", "user:1:settings", "visits"],
+    ]);
+    expect(await pipeline.exec()).toEqual([]);
+  });
+
+  it("should fail only the operations whose commands fail", async () => {
+    const onResult = mock(() => {});
+    const onError = mock(() => {});
+    const client = createRedisClient("redis://localhost", schema, {
+      onResult,
+      onError,
+    });
+    mockExecAsPipeline.mockImplementationOnce(async () => {
+      throw Object.assign(new Error("1 commands failed"), {
+        replies: ["alice", new Error("WRONGTYPE")],
+        errorIndexes: [1],
+      });
+    });
+
+    const pipeline = client.pipeline();
+    pipeline.schema.userName.get("user:1:name");
+    pipeline.schema.userSettings.hget({ userId: 1 }, "theme");
+
+    const error = await pipeline.exec().catch((err) => err);
+    expect(error).toBeInstanceOf(RedisCommandError);
+    expect(error.message).toBe(
+      'Redis HGET failed ("userSettings", key "user:1:settings"): WRONGTYPE'
+    );
+    expect(onResult).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "get" })
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "hget" })
+    );
+  });
+});
+
+describe("autoPipeline", () => {
+  beforeEach(() => {
+    queued = [];
+    mockExecAsPipeline.mockClear();
+    mockMulti.mockClear();
+  });
+
+  it("should coalesce operations issued in the same tick", async () => {
+    const client = createRedisClient("redis://localhost", schema, {
+      autoPipeline: true,
+    });
+    replies = ["alice", "7", 1, "OK", 1];
+
+    const [name, visits, length] = await Promise.all([
+      client.schema.userName.get("user:1:name"),
+      client.schema.userSettings.hget({ userId: 1 }, "visits"),
+      client.schema.recent.lpush("recent", "a"),
+    ]);
+
+    expect([name, visits, length]).toEqual(["alice", 7, 1]);
+    expect(mockMulti).toHaveBeenCalledTimes(1);
+    expect(mockExecAsPipeline).toHaveBeenCalledTimes(1);
+    expect(mockRedisClient.get).not.toHaveBeenCalled();
+    expect(queued.map(([method]) => method)).toEqual([
+      "get",
+      "hGet",
+      "lPush",
+      "lTrim",
+      "expire",
+    ]);
+
+    replies = ["bob"];
+    expect(await client.schema.userName.get("user:2:name")).toBe("bob");
+    expect(mockExecAsPipeline).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryClock,
+  createMemoryRedisClient,
+  createRedisClient,
+  hashSlot,
+  keyPattern,
+  memoryDriver,
+  type RedisCommand,
+  type RedisDriver,
+  redisList,
+  redisString,
+} from "../src/index";
+
+const schema = {
+  jobs: redisList(keyPattern("jobs:{queue}"), redisString()).fifo(),
+  undo: redisList("undo", redisString()).lifo().maxLength(2),
+  tasks: redisList("tasks", redisString()).fifo().reliable(30),
+  log: redisList(keyPattern("log:{day}"), redisString()),
+};
+
+describe("List queues", () => {
+  it("should serve values in the declared order", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    await redis.jobs.enqueue({ queue: "mail" }, "a", "b");
+    await redis.jobs.enqueue({ queue: "mail" }, "c");
+    expect(await redis.jobs.dequeue({ queue: "mail" })).toBe("a");
+    expect(await redis.jobs.dequeue({ queue: "mail" })).toBe("b");
+
+    // A bounded stack drops its oldest values
+    await redis.undo.enqueue("undo", "a", "b", "c");
+    expect(await redis.undo.dequeue("undo")).toBe("c");
+    expect(await redis.undo.dequeue("undo")).toBe("b");
+    expect(await redis.undo.dequeue("undo")).toBeNull();
+
+    // @ts-expect-error lists without a mode are not queues
+    expect(redis.log.enqueue).toBeUndefined();
+  });
+
+  it("should wait for values with blocking pops", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+
+    const next = redis.jobs.dequeue({ queue: "mail" }, 1);
+    await redis.jobs.enqueue({ queue: "mail" }, "a");
+    expect(await next).toBe("a");
+    const timedOut = redis.jobs.dequeue({ queue: "mail" }, 1);
+    await Bun.sleep(1);
+    clock.advance(1000);
+    expect(await timedOut).toBeNull();
+
+    const moved = redis.log.blmove(
+      { day: "mon" },
+      { day: "tue" },
+      "right",
+      "left",
+      1
+    );
+    await redis.log.rpush({ day: "mon" }, "x", "y");
+    expect(await moved).toBe("y");
+    expect(await redis.log.brpop({ day: "tue" }, 1)).toBe("y");
+    expect(await redis.log.blpop({ day: "mon" }, 1)).toBe("x");
+  });
+
+  it("should wait on connections of their own", async () => {
+    const clock = createMemoryClock();
+    const driver = memoryDriver({ clock });
+    const primary: string[] = [];
+    const duplicates: string[][] = [];
+    const redis = createRedisClient(
+      {
+        ...driver,
+        send: (cmd) => {
+          primary.push(cmd.method);
+          return driver.send(cmd);
+        },
+        batch: (commands, atomic) => {
+          primary.push(...commands.map((cmd) => cmd.method));
+          return driver.batch(commands, atomic);
+        },
+        duplicate: async () => {
+          const connection = await driver.duplicate();
+          const sent: string[] = [];
+          duplicates.push(sent);
+          return {
+            ...connection,
+            send: (cmd) => {
+              sent.push(cmd.method);
+              return connection.send(cmd);
+            },
+          };
+        },
+      },
+      schema,
+      { autoPipeline: true }
+    );
+
+    const first = redis.schema.jobs.dequeue({ queue: "mail" }, 1);
+    const second = redis.schema.log.blpop({ day: "mon" }, 1);
+    expect(await redis.schema.jobs.llen({ queue: "mail" })).toBe(0);
+    await redis.schema.jobs.enqueue({ queue: "mail" }, "a");
+    await redis.schema.log.rpush({ day: "mon" }, "x");
+    expect(await first).toBe("a");
+    expect(await second).toBe("x");
+    expect(duplicates).toEqual([["blPop"], ["blPop"]]);
+    expect(primary).not.toContain("blPop");
+
+    // Idle connections are kept for the next blocking operation
+    const timedOut = redis.schema.log.blpop({ day: "mon" }, 1);
+    await Bun.sleep(1);
+    clock.advance(1000);
+    expect(await timedOut).toBeNull();
+    expect(duplicates).toHaveLength(2);
+    await redis.close();
+  });
+
+  it("should reserve, acknowledge and recover values", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    await redis.tasks.enqueue("tasks", "a", "b", "a");
+
+    const first = await redis.tasks.reserve("tasks");
+    const second = await redis.tasks.reserve("tasks", 1);
+    const third = await redis.tasks.reserve("tasks");
+    expect([first?.value, second?.value, third?.value]).toEqual([
+      "a",
+      "b",
+      "a",
+    ]);
+    expect(await redis.tasks.llen("tasks")).toBe(0);
+
+    // Equal values are reserved and acknowledged separately
+    expect(first!.id).not.toBe(third!.id);
+    expect(await redis.tasks.ack("tasks", first!.id)).toBe(true);
+    expect(await redis.tasks.ack("tasks", first!.id)).toBe(false);
+    expect(await redis.tasks.ack("tasks", third!.id)).toBe(true);
+    expect(await redis.tasks.recover("tasks")).toBe(0);
+
+    // Values not acknowledged in time are served again first
+    await redis.tasks.enqueue("tasks", "c");
+    clock.advance(30_000);
+    expect(await redis.tasks.recover("tasks")).toBe(1);
+    expect(await redis.tasks.ack("tasks", second!.id)).toBe(false);
+    expect(await redis.tasks.dequeue("tasks")).toBe("b");
+    expect(await redis.tasks.dequeue("tasks")).toBe("c");
+
+    // @ts-expect-error only queues can be reliable
+    redisList("plain", redisString()).reliable(30);
+  });
+
+  it("should recover values a blocked reserve moved but did not reserve", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.tasks.enqueue("tasks", "a", "b");
+
+    // As if the connection was lost after the blocked move
+    await redis.tasks.lmove("tasks", "{tasks}:processing", "left", "right");
+    expect(await redis.tasks.recover("tasks")).toBe(1);
+    expect(await redis.tasks.dequeue("tasks")).toBe("a");
+  });
+
+  it("should reserve the value a blocked reserve moved", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    await redis.tasks.rpush("{tasks}:processing", "left");
+
+    const reserved = redis.tasks.reserve("tasks", 1);
+    await redis.tasks.enqueue("tasks", "a");
+    expect((await reserved)?.value).toBe("a");
+    expect(await redis.tasks.lrange("{tasks}:processing", 0, -1)).toEqual([
+      "left",
+    ]);
+
+    // A reserve that times out leaves the processing list alone
+    const timedOut = redis.tasks.reserve("tasks", 1);
+    await Bun.sleep(1);
+    clock.advance(1000);
+    expect(await timedOut).toBeNull();
+    expect(await redis.tasks.lrange("{tasks}:processing", 0, -1)).toEqual([
+      "left",
+    ]);
+    expect(await redis.tasks.recover("tasks")).toBe(1);
+  });
+
+  it("should keep the companion keys of a queue in its slot", async () => {
+    const sent: RedisCommand[] = [];
+    const driver: RedisDriver = {
+      ...memoryDriver(),
+      cluster: true,
+      send: async (cmd: RedisCommand) => {
+        sent.push(cmd);
+        return null;
+      },
+      duplicate: async () => driver,
+    };
+    const redis = createRedisClient(driver, schema);
+
+    expect(await redis.schema.tasks.reserve("tasks", 1)).toBeNull();
+    expect(await redis.schema.tasks.reserve("tasks")).toBeNull();
+    // A blocked move that times out reserves nothing
+    expect(sent.map((cmd) => cmd.method)).toEqual(["blMove", "eval"]);
+    expect(sent[0]!.args.slice(0, 2)).toEqual(["tasks", "{tasks}:processing"]);
+    const { keys } = sent[1]!.args[1] as { keys: string[] };
+    expect(keys).toEqual([
+      "tasks",
+      "{tasks}:processing",
+      "{tasks}:reservations",
+      "{tasks}:reserved",
+    ]);
+    expect(new Set(keys.map(hashSlot)).size).toBe(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisList,
+  redisSet,
+  redisString,
+} from "../src/index";
+
+// Runs the Lua scripts behind indexes, bounded sets and reliable queues
+// against a real server, which the memory driver replaces with JavaScript.
+// Run this file on its own, since the other suites mock @redis/client:
+//   REDIS_URL=redis://127.0.0.1:6379 bun test scripts.integration
+const url = process.env.REDIS_URL ?? "";
+
+const schema = {
+  scriptsTestUsers: redisHash(keyPattern("scripts-test:user:{id}"), {
+    email: redisHashString(),
+    age: redisHashNumber(),
+  }).index("email", "age"),
+  scriptsTestTags: redisSet("scripts-test:tags", redisString()).maxSize(2),
+  scriptsTestTasks: redisList("scripts-test:tasks", redisString())
+    .fifo()
+    .reliable(1),
+};
+
+describe.skipIf(url === "")("Lua scripts", () => {
+  const { schema: redis, close } = createRedisClient(url, schema);
+
+  afterAll(async () => {
+    for (const id of [1, 2]) await redis.scriptsTestUsers.del({ id });
+    await redis.scriptsTestTags.srem("scripts-test:tags", "a", "b", "c");
+    // Reservations are removed once acknowledged or recovered
+    for (const key of [
+      "scripts-test:tasks",
+      "{scripts-test:tasks}:processing",
+    ]) {
+      await redis.scriptsTestTasks.ltrim(key, 1, 0);
+    }
+    await close();
+  });
+
+  it("should keep hash indexes in step with writes", async () => {
+    await redis.scriptsTestUsers.hset({ id: 1 }, { email: "ada@x", age: 36 });
+    await redis.scriptsTestUsers.hset({ id: 2 }, { email: "bob@x", age: 25 });
+
+    expect(await redis.scriptsTestUsers.findBy("email", "ada@x")).toEqual([
+      { key: "scripts-test:user:1", value: { email: "ada@x", age: 36 } },
+    ]);
+    const found = await redis.scriptsTestUsers.findRange("age", 30, Infinity);
+    expect(found.map((entry) => entry.key)).toEqual(["scripts-test:user:1"]);
+
+    expect(await redis.scriptsTestUsers.hdel({ id: 2 }, "email")).toBe(1);
+    expect(await redis.scriptsTestUsers.countBy("email", "bob@x")).toBe(0);
+    expect(await redis.scriptsTestUsers.del({ id: 1 })).toBe(1);
+    expect(await redis.scriptsTestUsers.countBy("age", 36)).toBe(0);
+  });
+
+  it("should trim bounded sets", async () => {
+    await redis.scriptsTestTags.sadd("scripts-test:tags", "a", "b", "c");
+
+    expect(await redis.scriptsTestTags.scard("scripts-test:tags")).toBe(2);
+  });
+
+  it("should reserve and recover values of reliable queues", async () => {
+    await redis.scriptsTestTasks.enqueue("scripts-test:tasks", "a", "b", "c");
+
+    const first = await redis.scriptsTestTasks.reserve("scripts-test:tasks");
+    // A blocked reserve claims the value it moved
+    const second = await redis.scriptsTestTasks.reserve(
+      "scripts-test:tasks",
+      1
+    );
+    expect([first?.value, second?.value]).toEqual(["a", "b"]);
+    expect(
+      await redis.scriptsTestTasks.ack("scripts-test:tasks", first!.id)
+    ).toBe(true);
+
+    await Bun.sleep(1100);
+    expect(await redis.scriptsTestTasks.recover("scripts-test:tasks")).toBe(1);
+    expect(await redis.scriptsTestTasks.dequeue("scripts-test:tasks")).toBe(
+      "b"
+    );
+    expect(await redis.scriptsTestTasks.dequeue("scripts-test:tasks")).toBe(
+      "c"
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import { createHash } from "node:crypto";
+import {
+  createRedisClient,
+  defineScript,
+  keyPattern,
+  redisHashJson,
+  redisHashNumber,
+  redisSet,
+  redisString,
+  RedisConstraintError,
+} from "../src/index";
+
+// Mock @redis/client
+const mockRedisClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  scriptLoad: mock(async () => "sha"),
+  evalSha: mock(async (): Promise<unknown> => 3),
+  eval: mock(async (): Promise<unknown> => 4),
+} as any;
+
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockRedisClient),
+}));
+
+const tags = redisSet(keyPattern("user:{userId}:tags"), redisString());
+
+const source = `
+local added = redis.call("SADD", KEYS[1], ARGV[1])
+local excess = redis.call("SCARD", KEYS[1]) - tonumber(ARGV[2])
+if excess > 0 then redis.call("SPOP", KEYS[1], excess) end
+return redis.call("SCARD", KEYS[1])
+`;
+
+const cappedAdd = defineScript({
+  keys: [tags],
+  args: {
+    member: redisString().minLength(1),
+    max: redisHashNumber(),
+    meta: redisHashJson<{ source: string }>(),
+  },
+  returns: redisHashNumber(),
+  source,
+});
+
+describe("defineScript", () => {
+  beforeEach(() => {
+    for (const fn of Object.values(mockRedisClient)) (fn as any).mockClear();
+  });
+
+  it("should load once and call by SHA with typed keys and args", async () => {
+    const client = createRedisClient(
+      "redis://localhost",
+      { tags },
+      { scripts: { cappedAdd } }
+    );
+    const args = { member: "redis", max: 5, meta: { source: "web" } };
+
+    const size: number | null = await client.scripts.cappedAdd(
+      [{ userId: 1 }],
+      args
+    );
+    await client.scripts.cappedAdd([{ userId: 2 }], args);
+
+    expect(size).toBe(3);
+    expect(cappedAdd.sha).toBe(createHash("sha1").update(source).digest("hex"));
+    expect(mockRedisClient.scriptLoad).toHaveBeenCalledTimes(1);
+    expect(mockRedisClient.scriptLoad).toHaveBeenCalledWith(source);
+    expect(mockRedisClient.evalSha).toHaveBeenCalledWith(cappedAdd.sha, {
+      keys: ["user:1:tags"],
+      arguments: ["redis", "5", '{"source":"web"}'],
+    });
+  });
+
+  it("should fall back to EVAL on NOSCRIPT", async () => {
+    const client = createRedisClient(
+      "redis://localhost",
+      {},
+      { scripts: { cappedAdd } }
+    );
+    mockRedisClient.evalSha.mockImplementationOnce(async () => {
+      throw new Error("NOSCRIPT No matching script.");
+    });
+
+    const size = await client.scripts.cappedAdd([{ userId: 1 }], {
+      member: "redis",
+      max: 5,
+      meta: { source: "web" },
+    });
+
+    expect(size).toBe(4);
+    expect(mockRedisClient.eval).toHaveBeenCalledWith(source, {
+      keys: ["user:1:tags"],
+      arguments: ["redis", "5", '{"source":"web"}'],
+    });
+
+    // The server lost the script, so the next call loads it again
+    await client.scripts.cappedAdd([{ userId: 1 }], {
+      member: "redis",
+      max: 5,
+      meta: { source: "web" },
+    });
+    expect(mockRedisClient.scriptLoad).toHaveBeenCalledTimes(2);
+    expect(mockRedisClient.eval).toHaveBeenCalledTimes(1);
+  });
+
+  it("should validate arguments and return raw replies without a result type", async () => {
+    const ping = defineScript({
+      keys: [redisString()],
+      source: "return {KEYS[1], 'pong'}",
+    });
+    const client = createRedisClient(
+      "redis://localhost",
+      {},
+      { scripts: { ping, cappedAdd } }
+    );
+    mockRedisClient.evalSha.mockImplementationOnce(async () => ["k", "pong"]);
+
+    expect(await client.scripts.ping(["k"])).toEqual(["k", "pong"]);
+    await expect(
+      client.scripts.cappedAdd([{ userId: 1 }], {
+        member: "",
+        max: 5,
+        meta: { source: "web" },
+      })
+    ).rejects.toBeInstanceOf(RedisConstraintError);
+  });
+});
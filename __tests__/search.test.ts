@@ -0,0 +1,211 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createMemoryRedisClient,
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisJson,
+  RedisCapabilityError,
+} from "../src/index";
+
+// Mock @redis/client, replying to raw commands with recorded replies
+const sent: string[][] = [];
+let replies: Record<string, unknown> = {};
+const mockClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  hSet: mock(async () => 1),
+  expire: mock(async () => 1),
+  sendCommand: mock(async (args: string[]) => {
+    sent.push(args);
+    const reply = replies[args[0]!];
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }),
+};
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockClient),
+}));
+
+interface Profile {
+  bio: string;
+  score: number;
+  avatar?: string;
+}
+
+const schema = {
+  users: redisHash(keyPattern("user:{id}"), {
+    name: redisHashString().fullText(),
+    theme: redisHashString(),
+    age: redisHashNumber(),
+  }).index("name", "theme", "age"),
+  profiles: redisJson<Profile>()
+    .key(keyPattern("profile:{id}"))
+    .index({ bio: "text", score: "numeric" })
+    .ttl(60),
+};
+
+const ada = ["name", "Ada Lovelace", "theme", "dark", "age", "36"];
+
+describe("RediSearch", () => {
+  beforeEach(() => {
+    sent.length = 0;
+    replies = { "FT.CREATE": "OK", "FT.SEARCH": [0] };
+    for (const fn of Object.values(mockClient)) fn.mockClear();
+  });
+
+  it("should create the indexes from the field types on the first query", async () => {
+    // Indexes created by an earlier client are kept
+    replies["FT.CREATE"] = new Error("Index already exists");
+    const redis = createRedisClient("redis://localhost", schema, {
+      search: true,
+    });
+
+    await redis.schema.users.search((q) => q.all());
+    await redis.schema.profiles.search((q) => q.all());
+
+    expect(sent.filter(([name]) => name === "FT.CREATE")).toEqual([
+      // prettier-ignore
+      ["FT.CREATE", "users:search", "ON", "HASH", "PREFIX", "1", "user:",
+        "SCHEMA", "name", "TEXT", "SORTABLE", "theme", "TAG", "SORTABLE",
+        "age", "NUMERIC", "SORTABLE"],
+      // prettier-ignore
+      ["FT.CREATE", "profiles:search", "ON", "JSON", "PREFIX", "1",
+        "profile:", "SCHEMA", "$.bio", "AS", "bio", "TEXT", "SORTABLE",
+        "$.score", "AS", "score", "NUMERIC", "SORTABLE"],
+    ]);
+  });
+
+  it("should compile typed queries to FT.SEARCH and decode the hashes", async () => {
+    replies["FT.SEARCH"] = [1, "user:1", ada];
+    const redis = createRedisClient("redis://localhost", schema, {
+      search: true,
+    });
+
+    const result = await redis.schema.users.search(
+      (q) =>
+        q
+          .where("age")
+          .gte(18)
+          .and("theme")
+          .eq("dark-blue")
+          .and("name")
+          .match("ada love"),
+      { sortBy: "age", order: "desc", limit: 5 }
+    );
+
+    expect(result).toEqual({
+      total: 1,
+      entries: [
+        {
+          key: "user:1",
+          value: { name: "Ada Lovelace", theme: "dark", age: 36 },
+        },
+      ],
+    });
+    expect(sent.at(-1)).toEqual([
+      "FT.SEARCH",
+      "users:search",
+      "@age:[18 +inf] @theme:{dark\\-blue} @name:(ada love)",
+      "SORTBY",
+      "age",
+      "DESC",
+      "LIMIT",
+      "0",
+      "5",
+      "DIALECT",
+      "2",
+    ]);
+
+    await redis.schema.users
+      // @ts-expect-error string fields have no ranges
+      .search((q) => q.where("theme").gte(1))
+      .catch(() => {});
+    await expect(
+      redis.schema.users.search((q) => q.where("theme").match("dark"))
+    ).rejects.toThrow('Field "theme" of "users" is indexed as tag, not text');
+  });
+
+  it("should find and count hashes through RediSearch", async () => {
+    replies["FT.SEARCH"] = [1, "user:1", ada];
+    const redis = createRedisClient("redis://localhost", schema, {
+      search: true,
+    });
+
+    // Writes leave the indexing to RediSearch
+    await redis.schema.users.hset({ id: 1 }, { theme: "dark" });
+    expect(mockClient.hSet).toHaveBeenCalledWith("user:1", { theme: "dark" });
+
+    expect(await redis.schema.users.findBy("theme", "dark")).toHaveLength(1);
+    expect(await redis.schema.users.countBy("theme", "dark")).toBe(1);
+    await redis.schema.users.findRange("age", 30, Infinity);
+
+    expect(
+      sent.filter(([name]) => name === "FT.SEARCH").map((args) => args.slice(2))
+    ).toEqual([
+      // prettier-ignore
+      ["@theme:{dark}", "LIMIT", "0", "10000", "DIALECT", "2"],
+      ["@theme:{dark}", "LIMIT", "0", "0", "DIALECT", "2"],
+      // prettier-ignore
+      ["@age:[30 +inf]", "SORTBY", "age", "ASC", "LIMIT", "0", "10000",
+        "DIALECT", "2"],
+    ]);
+  });
+
+  it("should store JSON values as documents and search them", async () => {
+    const profile = { bio: "Mathematician", score: 9 };
+    replies["FT.SEARCH"] = {
+      total_results: 1,
+      results: [
+        {
+          id: "profile:1",
+          extra_attributes: { $: JSON.stringify(profile) },
+        },
+      ],
+    };
+    replies["JSON.GET"] = JSON.stringify(profile);
+    const redis = createRedisClient("redis://localhost", schema, {
+      search: true,
+    });
+
+    await redis.schema.profiles.set({ id: 1 }, profile);
+    expect(sent.at(-1)).toEqual([
+      "JSON.SET",
+      "profile:1",
+      "$",
+      JSON.stringify(profile),
+    ]);
+    expect(mockClient.expire).toHaveBeenCalledWith("profile:1", 60);
+    expect(await redis.schema.profiles.get({ id: 1 })).toEqual(profile);
+
+    const result = await redis.schema.profiles.search((q) =>
+      q.where("score").between(5, 10)
+    );
+    expect(result.entries).toEqual([{ key: "profile:1", value: profile }]);
+
+    await redis.schema.profiles
+      // @ts-expect-error only indexed properties can be queried
+      .search((q) => q.where("avatar").eq("x"))
+      .catch(() => {});
+  });
+
+  it("should fail with a capability error without RediSearch", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema, {
+      search: true,
+    });
+
+    const result = redis.users.search((q) => q.all());
+    await expect(result).rejects.toBeInstanceOf(RedisCapabilityError);
+    await expect(result).rejects.toThrow(
+      "Redis FT.CREATE requires the RediSearch module"
+    );
+
+    const { schema: local } = createMemoryRedisClient(schema);
+    await expect(local.users.search((q) => q.all())).rejects.toThrow(
+      'Searching "users" requires the search client option'
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashString,
+  redisString,
+} from "../src/index";
+
+// Mock @redis/client
+function createMockSentinel(name: string) {
+  return {
+    connect: mock(async () => {}),
+    close: mock(async () => {}),
+    on: mock(() => {}),
+    get: mock(async () => name),
+    set: mock(async () => "OK"),
+    hGetAll: mock(async () => ({ theme: name })),
+  };
+}
+
+let sentinels: ReturnType<typeof createMockSentinel>[] = [];
+const mockCreateSentinel = mock((_options: any) => {
+  const sentinel = createMockSentinel(
+    sentinels.length === 0 ? "primary" : "replica"
+  );
+  sentinels.push(sentinel);
+  return sentinel;
+});
+mock.module("@redis/client", () => ({
+  createClient: mock(() => ({})),
+  createSentinel: mockCreateSentinel,
+}));
+
+const schema = {
+  name: redisString(),
+  settings: redisHash(keyPattern("user:{userId}:settings"), {
+    theme: redisHashString(),
+  }),
+};
+
+const connection = {
+  sentinels: [{ host: "127.0.0.1", port: 26379 }],
+  name: "mymaster",
+  password: "secret",
+  sentinelPassword: "sentinel-secret",
+};
+
+describe("Sentinel", () => {
+  beforeEach(() => {
+    sentinels = [];
+    mockCreateSentinel.mockClear();
+  });
+
+  it("should discover the primary through the sentinels", async () => {
+    const redis = createRedisClient(connection, schema);
+
+    expect(await redis.schema.name.get("a")).toBe("primary");
+    await redis.close();
+
+    expect(mockCreateSentinel).toHaveBeenCalledTimes(1);
+    expect(mockCreateSentinel.mock.calls[0]![0]).toMatchObject({
+      name: "mymaster",
+      sentinelRootNodes: [{ host: "127.0.0.1", port: 26379 }],
+      nodeClientOptions: { password: "secret" },
+      sentinelClientOptions: { password: "sentinel-secret" },
+      replicaPoolSize: 0,
+    });
+    expect(sentinels[0]!.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("should send reads to replicas and writes to the primary", async () => {
+    const redis = createRedisClient(connection, schema, {
+      consistency: "replica",
+    });
+    const [primary, replica] = sentinels;
+
+    await redis.schema.name.set("a", "value");
+    expect(await redis.schema.name.get("a")).toBe("replica");
+    expect(await redis.schema.settings.hgetall({ userId: 1 })).toEqual({
+      theme: "replica",
+    });
+
+    expect(mockCreateSentinel.mock.calls[1]![0].replicaPoolSize).toBe(1);
+    expect(primary!.set).toHaveBeenCalledWith("a", "value");
+    expect(primary!.get).not.toHaveBeenCalled();
+    expect(replica!.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("should send reads to the primary when asked per call", async () => {
+    const redis = createRedisClient(connection, schema, {
+      consistency: "replica",
+    });
+
+    expect(await redis.schema.name.get("a", { consistency: "primary" })).toBe(
+      "primary"
+    );
+    expect(
+      await redis.schema.settings.hgetall(
+        { userId: 1 },
+        { consistency: "primary" }
+      )
+    ).toEqual({ theme: "primary" });
+    expect(sentinels[1]!.get).not.toHaveBeenCalled();
+  });
+
+  it("should connect to replicas on the first replica read", async () => {
+    const redis = createRedisClient(connection, schema);
+
+    expect(await redis.schema.name.get("a")).toBe("primary");
+    expect(mockCreateSentinel).toHaveBeenCalledTimes(1);
+
+    expect(await redis.schema.name.get("a", { consistency: "replica" })).toBe(
+      "replica"
+    );
+    expect(await redis.schema.name.get("b", { consistency: "replica" })).toBe(
+      "replica"
+    );
+    await redis.close();
+
+    expect(mockCreateSentinel).toHaveBeenCalledTimes(2);
+    expect(mockCreateSentinel.mock.calls[1]![0].replicaPoolSize).toBe(1);
+    expect(sentinels[1]!.connect).toHaveBeenCalledTimes(1);
+    expect(sentinels[1]!.close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, mock } from "bun:test";
+import {
+  createMemoryRedisClient,
+  createRedisClient,
+  ioredisDriver,
+  memoryDriver,
+  redisSortedSet,
+  redisString,
+} from "../src/index";
+
+const schema = {
+  leaderboard: redisSortedSet("leaderboard", redisString()),
+  words: redisSortedSet("words", redisString()),
+  top: redisSortedSet("top", redisString()).maxSize(2),
+};
+
+describe("Sorted set operations", () => {
+  it("should add members with conditions and increment scores", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    expect(
+      await redis.leaderboard.zadd("leaderboard", [
+        { member: "ada", score: 10 },
+        { member: "bob", score: 20 },
+      ])
+    ).toBe(2);
+    expect(
+      await redis.leaderboard.zadd("leaderboard", 5, "ada", { nx: true })
+    ).toBe(0);
+    expect(
+      await redis.leaderboard.zadd(
+        "leaderboard",
+        [
+          { member: "ada", score: 5 },
+          { member: "bob", score: 25 },
+          { member: "eve", score: 1 },
+        ],
+        { gt: true, ch: true }
+      )
+    ).toBe(2);
+    expect(
+      await redis.leaderboard.zadd("leaderboard", 30, "zed", { xx: true })
+    ).toBe(0);
+    expect(await redis.leaderboard.zincrby("leaderboard", 2.5, "ada")).toBe(
+      12.5
+    );
+
+    expect(
+      await redis.leaderboard.zmscore("leaderboard", "ada", "zed")
+    ).toEqual([12.5, null]);
+    expect(await redis.leaderboard.zcard("leaderboard")).toBe(3);
+    expect(await redis.leaderboard.zrevrank("leaderboard", "bob")).toBe(0);
+
+    await expect(
+      redis.leaderboard.zadd("leaderboard", 1, "ada", { nx: true, gt: true })
+    ).rejects.toThrow("nx cannot be set with gt or lt");
+  });
+
+  it("should read ranges by rank, score and member", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.leaderboard.zadd("leaderboard", [
+      { member: "ada", score: 10 },
+      { member: "bob", score: 20 },
+      { member: "eve", score: 30 },
+    ]);
+
+    const scored = await redis.leaderboard.zrange("leaderboard", 0, 0, {
+      rev: true,
+      withScores: true,
+    });
+    expect(scored).toEqual([{ member: "eve", score: 30 }]);
+    expect(scored[0]!.score).toBeNumber();
+
+    expect(
+      await redis.leaderboard.zrangeByScore("leaderboard", "(10", Infinity)
+    ).toEqual(["bob", "eve"]);
+    expect(
+      await redis.leaderboard.zrangeByScore("leaderboard", -Infinity, 30, {
+        rev: true,
+        limit: { offset: 1, count: 1 },
+        withScores: true,
+      })
+    ).toEqual([{ member: "bob", score: 20 }]);
+    expect(await redis.leaderboard.zcount("leaderboard", 15, "(30")).toBe(1);
+
+    await redis.words.zadd("words", [
+      { member: "apple", score: 0 },
+      { member: "banana", score: 0 },
+      { member: "cherry", score: 0 },
+    ]);
+    expect(await redis.words.zrangeByLex("words", "[b", "+")).toEqual([
+      "banana",
+      "cherry",
+    ]);
+    expect(
+      await redis.words.zrangeByLex("words", "-", "(cherry", { rev: true })
+    ).toEqual(["banana", "apple"]);
+  });
+
+  it("should pop the lowest and highest scored members", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    await redis.leaderboard.zadd("leaderboard", [
+      { member: "ada", score: 10 },
+      { member: "bob", score: 20 },
+      { member: "eve", score: 30 },
+    ]);
+
+    expect(await redis.leaderboard.zpopmin("leaderboard")).toEqual({
+      member: "ada",
+      score: 10,
+    });
+    expect(await redis.leaderboard.zpopmax("leaderboard", 5)).toEqual([
+      { member: "eve", score: 30 },
+      { member: "bob", score: 20 },
+    ]);
+    expect(await redis.leaderboard.zpopmax("leaderboard")).toBeNull();
+
+    // A blocked pop waits for the next member
+    const popped = redis.leaderboard.bzpopmin("leaderboard", 1);
+    await redis.leaderboard.zadd("leaderboard", 1, "zed");
+    expect(await popped).toEqual({ member: "zed", score: 1 });
+    const timedOut = redis.leaderboard.bzpopmax("leaderboard", 1);
+    await Bun.sleep(1);
+    clock.advance(1000);
+    expect(await timedOut).toBeNull();
+  });
+
+  it("should wait for members on a connection of its own", async () => {
+    const driver = memoryDriver();
+    const primary: string[] = [];
+    const duplicate = mock(() => driver.duplicate());
+    const redis = createRedisClient(
+      {
+        ...driver,
+        batch: (commands, atomic) => {
+          primary.push(...commands.map((cmd) => cmd.method));
+          return driver.batch(commands, atomic);
+        },
+        duplicate,
+      },
+      schema,
+      { autoPipeline: true }
+    );
+
+    const popped = redis.schema.leaderboard.bzpopmax("leaderboard", 1);
+    await redis.schema.leaderboard.zadd("leaderboard", 1, "ada");
+    expect(await popped).toEqual({ member: "ada", score: 1 });
+    expect(duplicate).toHaveBeenCalledTimes(1);
+    expect(primary).toEqual(["zAdd"]);
+    await redis.close();
+  });
+
+  it("should keep the highest scored members of a bounded sorted set", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    await redis.top.zadd("top", [
+      { member: "a", score: 1 },
+      { member: "b", score: 2 },
+      { member: "c", score: 3 },
+    ]);
+    await redis.top.zincrby("top", 5, "d");
+
+    expect(await redis.top.zrange("top", 0, -1)).toEqual(["c", "d"]);
+  });
+
+  it("should send sorted set options and read RESP2 scores", async () => {
+    const replies: Record<string, unknown> = {
+      ZADD: 1,
+      ZRANGE: ["ada", "10", "bob", "inf"],
+      ZPOPMIN: ["ada", "10"],
+    };
+    const client = {
+      status: "ready",
+      connect: mock(async () => {}),
+      quit: mock(async () => "OK"),
+      call: mock(async (name: string, ..._args: string[]) => replies[name]),
+      on: mock(() => {}),
+    };
+    const redis = createRedisClient(ioredisDriver(client as any), schema);
+
+    await redis.schema.leaderboard.zadd("leaderboard", 1, "ada", {
+      xx: true,
+      gt: true,
+      ch: true,
+    });
+    const scored = await redis.schema.leaderboard.zrangeByScore(
+      "leaderboard",
+      0,
+      Infinity,
+      { rev: true, limit: { offset: 0, count: 2 }, withScores: true }
+    );
+    const popped = await redis.schema.leaderboard.zpopmin("leaderboard");
+
+    expect(scored).toEqual([
+      { member: "ada", score: 10 },
+      { member: "bob", score: Infinity },
+    ]);
+    expect(popped).toEqual({ member: "ada", score: 10 });
+    expect(client.call.mock.calls).toEqual([
+      ["ZADD", "leaderboard", "XX", "GT", "CH", "1", "ada"],
+      // prettier-ignore
+      ["ZRANGE", "leaderboard", "+inf", "0", "BYSCORE", "REV", "LIMIT", "0",
+        "2", "WITHSCORES"],
+      ["ZPOPMIN", "leaderboard"],
+    ]);
+  });
+
+  it("should type members with scores", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    const members: string[] = await redis.leaderboard.zrange(
+      "leaderboard",
+      0,
+      1
+    );
+    const scored: { member: string; score: number }[] =
+      await redis.leaderboard.zrange("leaderboard", 0, 1, { withScores: true });
+    expect([members, scored]).toEqual([[], []]);
+
+    await redis.leaderboard
+      // @ts-expect-error members are strings
+      .zadd("leaderboard", [{ member: 1, score: 1 }])
+      .catch(() => {});
+  });
+});
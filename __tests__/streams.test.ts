@@ -0,0 +1,207 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHashJson,
+  redisHashNumber,
+  redisHashString,
+  redisStream,
+} from "../src/index";
+
+// Mock @redis/client
+const mockRedisClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  xAdd: mock(async () => "1-0"),
+  xRange: mock(async (): Promise<any> => []),
+  xRead: mock(async (): Promise<any> => null),
+  xReadGroup: mock(async (): Promise<any> => null),
+  xAck: mock(async () => 1),
+  xDel: mock(async () => 1),
+  xPending: mock(async (): Promise<any> => null),
+  xAutoClaim: mock(async (): Promise<any> => null),
+  xTrim: mock(async () => 2),
+  expire: mock(async () => 1),
+  duplicate: mock(() => mockRedisClient),
+} as any;
+
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockRedisClient),
+}));
+
+const events = redisStream(keyPattern("events:{tenant}"), {
+  type: redisHashString(),
+  amount: redisHashNumber(),
+  meta: redisHashJson<{ source: string }>().optional(),
+});
+
+describe("redisStream", () => {
+  beforeEach(() => {
+    for (const fn of Object.values(mockRedisClient)) (fn as any).mockClear();
+  });
+
+  it("should serialize entries through the field codecs", async () => {
+    const client = createRedisClient("redis://localhost", {
+      events: events.ttl(3600),
+    });
+
+    const id = await client.schema.events.xadd(
+      { tenant: "acme" },
+      { type: "order", amount: 12.5, meta: { source: "web" } },
+      { trim: { strategy: "MAXLEN", threshold: 1000, approximate: true } }
+    );
+
+    expect(id).toBe("1-0");
+    expect(mockRedisClient.xAdd).toHaveBeenCalledWith(
+      "events:acme",
+      "*",
+      { type: "order", amount: "12.5", meta: '{"source":"web"}' },
+      {
+        TRIM: {
+          strategy: "MAXLEN",
+          strategyModifier: "~",
+          threshold: 1000,
+          limit: undefined,
+        },
+      }
+    );
+    expect(mockRedisClient.expire).toHaveBeenCalledWith("events:acme", 3600);
+  });
+
+  it("should decode entries read from a range or a consumer group", async () => {
+    const client = createRedisClient("redis://localhost", { events });
+    const raw = {
+      id: "5-0",
+      message: { type: "refund", amount: "3", meta: '{"source":"api"}' },
+    };
+    const entry = {
+      id: "5-0",
+      message: { type: "refund", amount: 3, meta: { source: "api" } },
+    };
+    mockRedisClient.xRange.mockImplementationOnce(async () => [raw]);
+    mockRedisClient.xReadGroup.mockImplementationOnce(async () => [
+      { name: "events:acme", messages: [raw] },
+    ]);
+
+    expect(await client.schema.events.xrange({ tenant: "acme" })).toEqual([
+      entry,
+    ]);
+    expect(mockRedisClient.xRange).toHaveBeenCalledWith(
+      "events:acme",
+      "-",
+      "+",
+      { COUNT: undefined }
+    );
+
+    const entries = await client.schema.events.xreadgroup(
+      { tenant: "acme" },
+      "billing",
+      "worker-1",
+      { count: 10, block: 5000 }
+    );
+    expect(entries).toEqual([entry]);
+    expect(mockRedisClient.xReadGroup).toHaveBeenCalledWith(
+      "billing",
+      "worker-1",
+      { key: "events:acme", id: ">" },
+      { COUNT: 10, BLOCK: 5000, NOACK: undefined }
+    );
+    // A blocking read waits on a connection of its own
+    expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(1);
+
+    expect(await client.schema.events.xread({ tenant: "acme" }, "$")).toEqual(
+      []
+    );
+  });
+
+  it("should delete entries with invalid fields under the delete policy", async () => {
+    const client = createRedisClient(
+      "redis://localhost",
+      { events: events.validationFailure("delete") },
+      { logger: { warn: () => {}, error: () => {} } }
+    );
+    mockRedisClient.xRange.mockImplementationOnce(async () => [
+      { id: "1-0", message: { type: "a", amount: "1", meta: "{corrupt" } },
+      { id: "2-0", message: { type: "b", amount: "2" } },
+    ]);
+
+    const entries = await client.schema.events.xrange({ tenant: "acme" });
+
+    expect(entries).toEqual([
+      { id: "2-0", message: { type: "b", amount: 2 } as any },
+    ]);
+    expect(mockRedisClient.xDel).toHaveBeenCalledWith("events:acme", "1-0");
+  });
+
+  it("should acknowledge, summarize and claim pending entries", async () => {
+    const client = createRedisClient("redis://localhost", { events });
+    mockRedisClient.xPending.mockImplementationOnce(async () => ({
+      pending: 2,
+      firstId: "1-0",
+      lastId: "2-0",
+      consumers: [{ name: "worker-1", deliveriesCounter: 2 }],
+    }));
+    mockRedisClient.xAutoClaim.mockImplementationOnce(async () => ({
+      nextId: "0-0",
+      messages: [{ id: "1-0", message: { type: "a", amount: "1" } }, null],
+      deletedMessages: ["2-0"],
+    }));
+
+    expect(
+      await client.schema.events.xack({ tenant: "acme" }, "billing", "1-0")
+    ).toBe(1);
+    expect(mockRedisClient.xAck).toHaveBeenCalledWith(
+      "events:acme",
+      "billing",
+      ["1-0"]
+    );
+
+    expect(
+      await client.schema.events.xpending({ tenant: "acme" }, "billing")
+    ).toEqual({
+      pending: 2,
+      firstId: "1-0",
+      lastId: "2-0",
+      consumers: [{ name: "worker-1", pending: 2 }],
+    });
+
+    expect(
+      await client.schema.events.xautoclaim(
+        { tenant: "acme" },
+        "billing",
+        "worker-2",
+        60000
+      )
+    ).toEqual({
+      nextId: "0-0",
+      entries: [{ id: "1-0", message: { type: "a", amount: 1 } as any }],
+      deletedIds: ["2-0"],
+    });
+    expect(mockRedisClient.xAutoClaim).toHaveBeenCalledWith(
+      "events:acme",
+      "billing",
+      "worker-2",
+      60000,
+      "0-0",
+      { COUNT: undefined }
+    );
+  });
+
+  it("should trim by minimum ID", async () => {
+    const client = createRedisClient("redis://localhost", { events });
+
+    expect(
+      await client.schema.events.xtrim(
+        { tenant: "acme" },
+        { strategy: "MINID", threshold: "1700000000000-0" }
+      )
+    ).toBe(2);
+    expect(mockRedisClient.xTrim).toHaveBeenCalledWith(
+      "events:acme",
+      "MINID",
+      "1700000000000-0",
+      { strategyModifier: undefined, LIMIT: undefined }
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, mock, beforeAll, beforeEach } from "bun:test";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashString,
+  redisString,
+} from "../src/index";
+
+// Mock @redis/client
+const mockRedisClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  get: mock(async () => "value"),
+  hSet: mock(async () => 1),
+  expire: mock(async () => 1),
+} as any;
+
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockRedisClient),
+}));
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+});
+const tracer = provider.getTracer("typesafe-redis-test");
+
+describe("tracing", () => {
+  beforeAll(() => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable()
+    );
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it("should create a span per schema operation", async () => {
+    const client = createRedisClient(
+      "redis://localhost",
+      {
+        userSettings: redisHash(keyPattern("user:{userId}:settings"), {
+          theme: redisHashString(),
+        }),
+      },
+      { tracer }
+    );
+
+    await client.schema.userSettings.hset({ userId: "42" }, "theme", "dark");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.name).toBe("userSettings.hset");
+    expect(span?.attributes).toEqual({
+      "db.system": "redis",
+      "db.operation": "HSET",
+      "db.redis.schema_key": "userSettings",
+      "db.redis.key_pattern": "user:{userId}:settings",
+    });
+  });
+
+  it("should record failures on the span", async () => {
+    const client = createRedisClient(
+      "redis://localhost",
+      { name: redisString() },
+      { tracer }
+    );
+    mockRedisClient.get.mockImplementationOnce(async () => {
+      throw new Error("down");
+    });
+
+    await expect(client.schema.name.get("name-key")).rejects.toThrow("down");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span?.events[0]?.name).toBe("exception");
+  });
+});
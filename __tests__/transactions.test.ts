@@ -0,0 +1,138 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  createRedisClient,
+  keyPattern,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisList,
+  redisSet,
+  redisString,
+  RedisCommandError,
+  RedisConstraintError,
+} from "../src/index";
+
+// Mock @redis/client
+let queued: [string, ...unknown[]][] = [];
+let replies: unknown[] = [];
+const mockExec = mock(async (): Promise<unknown[]> => replies);
+const mockMulti = new Proxy({} as any, {
+  get(_, method: string) {
+    if (method === "exec") return mockExec;
+    return (...args: unknown[]) => {
+      queued.push([method, ...args]);
+      return mockMulti;
+    };
+  },
+});
+
+const mockRedisClient = {
+  connect: mock(async () => {}),
+  quit: mock(async () => {}),
+  on: mock(() => {}),
+  multi: mock(() => mockMulti),
+  set: mock(async () => "OK"),
+} as any;
+
+mock.module("@redis/client", () => ({
+  createClient: mock(() => mockRedisClient),
+}));
+
+const schema = {
+  userName: redisString().minLength(2).ttl(60),
+  userSettings: redisHash(keyPattern("user:{userId}:settings"), {
+    theme: redisHashString(),
+    visits: redisHashNumber(),
+  }),
+  recent: redisList("recent", redisString()).maxLength(10).ttl(300),
+  tags: redisSet("tags", redisString()).maxSize(5),
+};
+
+describe("transaction", () => {
+  beforeEach(() => {
+    queued = [];
+    replies = [];
+    mockExec.mockClear();
+    mockRedisClient.multi.mockClear();
+    mockRedisClient.set.mockClear();
+  });
+
+  it("should queue operations in one MULTI/EXEC and return typed results", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+    replies = ["OK", "alice", { theme: "dark", visits: "3" }];
+
+    const [name, settings] = await client.transaction((tx) => {
+      tx.userName.set("user:1:name", "alice");
+      return [
+        tx.userName.get("user:1:name"),
+        tx.userSettings.hgetall({ userId: 1 }),
+      ];
+    });
+
+    const typedName: string | null = name;
+    expect(typedName).toBe("alice");
+    expect(settings).toEqual({ theme: "dark", visits: 3 });
+    expect(mockRedisClient.multi).toHaveBeenCalledTimes(1);
+    expect(mockExec).toHaveBeenCalledTimes(1);
+    expect(queued).toEqual([
+      ["setEx", "user:1:name", 60, "alice"],
+      ["get", "user:1:name"],
+      ["hGetAll", "user:1:settings"],
+    ]);
+    // Nothing is sent outside the transaction
+    expect(mockRedisClient.set).not.toHaveBeenCalled();
+  });
+
+  it("should include TTL and size-limit commands in the transaction", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+    replies = [1, "OK", 1, 2, 0];
+
+    const results = await client.transaction((tx) => {
+      tx.recent.lpush("recent", "a");
+      tx.tags.sadd("tags", "x", "y");
+    });
+
+    expect(results).toEqual([1, 2]);
+    expect(queued).toEqual([
+      ["lPush", "recent", ["a"]],
+      ["lTrim", "recent", -10, -1],
+      ["expire", "recent", 300],
+      ["sAdd", "tags", ["x", "y"]],
+      [
+        "eval",
+        expect.stringContaining("SPOP"),
+        { keys: ["tags"], arguments: ["5"] },
+      ],
+    ]);
+  });
+
+  it("should send nothing when a queued write is invalid", async () => {
+    const client = createRedisClient("redis://localhost", schema);
+
+    await expect(
+      client.transaction((tx) => {
+        tx.userSettings.hset({ userId: 1 }, "theme", "dark");
+        tx.userName.set("user:1:name", "a");
+      })
+    ).rejects.toBeInstanceOf(RedisConstraintError);
+    expect(mockRedisClient.multi).not.toHaveBeenCalled();
+  });
+
+  it("should reject with a RedisCommandError when EXEC fails", async () => {
+    const onError = mock(() => {});
+    const client = createRedisClient("redis://localhost", schema, {
+      onError,
+    });
+    mockExec.mockImplementationOnce(async () => {
+      throw new Error("EXECABORT");
+    });
+
+    const result = client.transaction((tx) => [tx.userName.get("user:1:name")]);
+
+    await expect(result).rejects.toBeInstanceOf(RedisCommandError);
+    await expect(result).rejects.toThrow("Redis EXEC failed: EXECABORT");
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "get", key: "user:1:name" })
+    );
+  });
+});
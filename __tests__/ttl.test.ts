@@ -0,0 +1,247 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryRedisClient,
+  createRedisClient,
+  keyPattern,
+  memoryDriver,
+  type RedisCommand,
+  redisHash,
+  redisHashNumber,
+  redisHashString,
+  redisList,
+  redisSet,
+  redisSortedSet,
+  redisString,
+  RedisCapabilityError,
+} from "../src/index";
+
+const schema = {
+  session: redisString().key(keyPattern("session:{id}")).ttl(60, {
+    sliding: true,
+  }),
+  token: redisString().ttl(30),
+  name: redisString(),
+  stats: redisHash(keyPattern("stats:{id}"), { visits: redisHashNumber() }),
+  login: redisHash(keyPattern("login:{id}"), {
+    user: redisHashString(),
+    code: redisHashString().ttl(30),
+    attempts: redisHashNumber().ttl(60),
+  }),
+  scores: redisSortedSet("scores", redisString()).ttl(30),
+  recent: redisList("recent", redisString()).maxLength(2).ttl(30),
+  tags: redisSet("tags", redisString()).ttl(30),
+  bounded: redisSet("bounded", redisString()).maxSize(1).ttl(30),
+};
+
+describe("TTL operations", () => {
+  it("should inspect, change and remove expiry", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+
+    expect(await redis.name.ttl("a")).toBe(-2);
+    await redis.name.set("a", "value");
+    expect(await redis.name.ttl("a")).toBe(-1);
+
+    expect(await redis.name.expire("a", 10)).toBe(true);
+    clock.advance(2500);
+    expect(await redis.name.pttl("a")).toBe(7500);
+    expect(await redis.name.ttl("a")).toBe(8);
+
+    expect(await redis.name.persist("a")).toBe(true);
+    expect(await redis.name.persist("a")).toBe(false);
+    expect(await redis.name.ttl("a")).toBe(-1);
+
+    await redis.stats.hset({ id: 1 }, "visits", 1);
+    expect(
+      await redis.stats.expireAt({ id: 1 }, new Date(clock.now() + 5000))
+    ).toBe(true);
+    clock.advance(5000);
+    expect(await redis.stats.hgetall({ id: 1 })).toBeNull();
+    expect(await redis.stats.expire({ id: 1 }, 10)).toBe(false);
+  });
+
+  it("should only expire when the condition holds", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+    await redis.name.set("a", "value");
+
+    expect(await redis.name.expire("a", 10, { xx: true })).toBe(false);
+    expect(await redis.name.expire("a", 10, { nx: true })).toBe(true);
+    expect(await redis.name.expire("a", 20, { nx: true })).toBe(false);
+    expect(await redis.name.expire("a", 5, { gt: true })).toBe(false);
+    expect(await redis.name.expire("a", 20, { gt: true })).toBe(true);
+    expect(await redis.name.expire("a", 5, { lt: true })).toBe(true);
+    expect(await redis.name.ttl("a")).toBe(5);
+
+    await expect(
+      redis.name.expire("a", 5, { nx: true, gt: true })
+    ).rejects.toThrow("Only one of nx, xx, gt and lt can be set");
+  });
+
+  it("should apply a TTL given for a write, or keep the current one", async () => {
+    const { schema: redis } = createMemoryRedisClient(schema);
+
+    await redis.token.set("t", "a", { ttl: 5 });
+    expect(await redis.token.ttl("t")).toBe(5);
+    await redis.token.set("t", "b", { keepTtl: true });
+    expect(await redis.token.ttl("t")).toBe(5);
+    await redis.token.set("t", "c");
+    expect(await redis.token.ttl("t")).toBe(30);
+
+    await redis.stats.hset({ id: 1 }, { visits: 1 }, { ttl: 15 });
+    expect(await redis.stats.ttl({ id: 1 })).toBe(15);
+    await redis.scores.zadd("scores", 1, "a", { ttl: 10 });
+    expect(await redis.scores.ttl("scores")).toBe(10);
+  });
+
+  it("should apply a TTL given for a list or set write", async () => {
+    const { schema: redis, transaction } = createMemoryRedisClient(schema);
+
+    expect(
+      await redis.recent.rpush("recent", ["a", "b", "c"], { ttl: 5 })
+    ).toBe(3);
+    expect(await redis.recent.lrange("recent", 0, -1)).toEqual(["b", "c"]);
+    expect(await redis.recent.ttl("recent")).toBe(5);
+    await redis.recent.lpushx("recent", ["d"], { ttl: 8 });
+    expect(await redis.recent.ttl("recent")).toBe(8);
+    await redis.recent.linsert("recent", "after", "b", "e", { ttl: 6 });
+    expect(await redis.recent.ttl("recent")).toBe(6);
+    await redis.recent.lset("recent", 0, "f", { ttl: 4 });
+    expect(await redis.recent.ttl("recent")).toBe(4);
+    await redis.recent.rpush("recent", "g");
+    expect(await redis.recent.ttl("recent")).toBe(30);
+
+    expect(await redis.tags.sadd("tags", ["a", "b"], { ttl: 5 })).toBe(2);
+    expect(await redis.tags.ttl("tags")).toBe(5);
+    await redis.bounded.sadd("bounded", ["a", "b"], { ttl: 7 });
+    expect(await redis.bounded.scard("bounded")).toBe(1);
+    expect(await redis.bounded.ttl("bounded")).toBe(7);
+    await transaction((tx) => [tx.bounded.sadd("bounded", ["c"], { ttl: 9 })]);
+    expect(await redis.bounded.ttl("bounded")).toBe(9);
+  });
+
+  it("should refresh a sliding TTL on reads", async () => {
+    const {
+      schema: redis,
+      clock,
+      transaction,
+    } = createMemoryRedisClient(schema);
+    await redis.session.set({ id: "s1" }, "token");
+
+    clock.advance(40_000);
+    expect(await redis.session.get({ id: "s1" })).toBe("token");
+    expect(await redis.session.ttl({ id: "s1" })).toBe(60);
+
+    clock.advance(40_000);
+    const [exists] = await transaction((tx) => [
+      tx.session.exists({ id: "s1" }),
+    ]);
+    expect(exists).toBe(true);
+    // Inspecting the TTL does not refresh it
+    clock.advance(40_000);
+    expect(await redis.session.ttl({ id: "s1" })).toBe(20);
+
+    clock.advance(20_000);
+    expect(await redis.session.get({ id: "s1" })).toBeNull();
+  });
+});
+
+describe("Hash field expiration", () => {
+  it("should expire fields that declare a TTL on hset", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+
+    await redis.login.hset(
+      { id: 1 },
+      { user: "ada", code: "1234", attempts: 0 }
+    );
+    expect(
+      await redis.login.httl({ id: 1 }, "user", "code", "attempts")
+    ).toEqual([-1, 30, 60]);
+
+    clock.advance(30_000);
+    expect(await redis.login.hget({ id: 1 }, "code")).toBeNull();
+    expect(await redis.login.hget({ id: 1 }, "user")).toBe("ada");
+
+    // Writing a field again restarts its TTL
+    clock.advance(20_000);
+    await redis.login.hset({ id: 1 }, "attempts", 1);
+    expect(await redis.login.httl({ id: 1 }, "attempts", "code")).toEqual([
+      60, -2,
+    ]);
+  });
+
+  it("should expire and persist fields on request", async () => {
+    const { schema: redis, clock } = createMemoryRedisClient(schema);
+    await redis.login.hset({ id: 1 }, { user: "ada", attempts: 0 });
+
+    expect(await redis.login.hexpire({ id: 1 }, ["user", "code"], 10)).toEqual([
+      true,
+      false,
+    ]);
+    expect(
+      await redis.login.hexpire({ id: 1 }, ["user", "attempts"], 5, {
+        lt: true,
+      })
+    ).toEqual([true, true]);
+    expect(await redis.login.hpersist({ id: 1 }, "user", "code")).toEqual([
+      true,
+      false,
+    ]);
+
+    clock.advance(5000);
+    expect(await redis.login.hexists({ id: 1 }, "user")).toBe(true);
+    expect(await redis.login.hexists({ id: 1 }, "attempts")).toBe(false);
+    expect(await redis.login.httl({ id: 2 }, "user")).toEqual([-2]);
+  });
+
+  it("should expire fields in the same transaction as the write", async () => {
+    const driver = memoryDriver();
+    const batches: RedisCommand[][] = [];
+    const sent: RedisCommand[] = [];
+    const redis = createRedisClient(
+      {
+        ...driver,
+        send: (cmd) => {
+          sent.push(cmd);
+          return driver.send(cmd);
+        },
+        batch: (commands, atomic) => {
+          batches.push([...commands]);
+          return driver.batch(commands, atomic);
+        },
+      },
+      schema
+    );
+
+    await redis.transaction((tx) => [
+      tx.login.hset({ id: 1 }, { user: "ada", code: "1234" }),
+    ]);
+    expect(batches.map((cmds) => cmds.map((cmd) => cmd.method))).toEqual([
+      ["hSet", "hExpire"],
+    ]);
+    expect(sent).toEqual([]);
+    expect(await redis.schema.login.httl({ id: 1 }, "code")).toEqual([30]);
+  });
+
+  it("should fail with a capability error before Redis 7.4", async () => {
+    const driver = memoryDriver();
+    const redis = createRedisClient(
+      {
+        ...driver,
+        send: async (cmd) => {
+          if (cmd.method === "hExpire") {
+            throw new Error(
+              "ERR unknown command 'HEXPIRE', with args beginning with: 'login:1'"
+            );
+          }
+          return driver.send(cmd);
+        },
+      },
+      schema
+    );
+
+    const result = redis.schema.login.hset({ id: 1 }, "code", "1234");
+    await expect(result).rejects.toBeInstanceOf(RedisCapabilityError);
+    await expect(result).rejects.toThrow(
+      "Redis HEXPIRE requires Redis 7.4 or later"
+    );
+  });
+});
@@ -37,6 +37,7 @@ const mockZRemRangeByRank = mock(async () => undefined);
 const mockRedisClient = {
   connect: mockConnect,
   quit: mockQuit,
+  on: mock(() => {}),
   set: mockSet,
   get: mockGet,
   del: mockDel,
@@ -199,6 +200,6 @@ describe("uncovered branches", () => {
     mockRedisClient.zAdd = mock(async () => 0);
     expect(await client.schema.l.lpush("l")).toBe(0);
     expect(await client.schema.s.sadd("s")).toBe(0);
-    expect(await client.schema.z.zadd("z", 1, undefined)).toBe(0);
+    expect(await client.schema.z.zadd("z", 1, undefined as any)).toBe(0);
   });
 });
@@ -0,0 +1,44 @@
+/**
+ * The number of hash slots in a Redis Cluster.
+ */
+export const CLUSTER_SLOTS = 16384;
+
+/**
+ * The CRC16 (XMODEM) lookup table Redis Cluster hashes keys with.
+ */
+const CRC16_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+  }
+  return crc & 0xffff;
+});
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff]!;
+  }
+  return crc;
+}
+
+/**
+ * Get the hash tag of a key: the part between the first `{` and the next
+ * `}`, when not empty. Only the hash tag is hashed, so keys sharing one
+ * are stored in the same slot.
+ * @param key The key.
+ */
+export function hashTagOf(key: string): string | undefined {
+  const start = key.indexOf("{");
+  if (start === -1) return undefined;
+  const end = key.indexOf("}", start + 1);
+  return end > start + 1 ? key.slice(start + 1, end) : undefined;
+}
+
+/**
+ * Get the Redis Cluster hash slot of a key.
+ * @param key The key.
+ */
+export function hashSlot(key: string): number {
+  return crc16(Buffer.from(hashTagOf(key) ?? key)) % CLUSTER_SLOTS;
+}
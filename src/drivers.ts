@@ -0,0 +1,1018 @@
+/**
+ * A Redis command, named after the `@redis/client` method that sends it.
+ * Schema operations are written in this vocabulary; drivers for other
+ * clients translate it to raw Redis commands.
+ */
+export interface RedisCommand {
+  readonly method: string;
+  readonly args: readonly unknown[];
+}
+
+/**
+ * Receives pub/sub messages.
+ */
+export type RedisMessageListener = (message: string, channel: string) => void;
+
+/**
+ * A connection event raised by the underlying client: reconnects it runs
+ * on its own, the connection closing for good, or a connection error.
+ */
+export type RedisDriverEvent =
+  | { readonly type: "ready" }
+  | { readonly type: "reconnecting" }
+  | { readonly type: "end" }
+  | { readonly type: "error"; readonly error: unknown };
+
+/**
+ * The connection the schema client runs on. Adapters are provided for
+ * `@redis/client`, ioredis and Bun's `RedisClient`.
+ */
+export interface RedisDriver {
+  connect(): Promise<void>;
+  quit(): Promise<void>;
+  /**
+   * Send a command and resolve with its reply, shaped as `@redis/client`
+   * returns it.
+   */
+  send(command: RedisCommand): Promise<unknown>;
+  /**
+   * Send commands in one round trip, in a MULTI/EXEC when atomic. In a
+   * pipeline, commands that fail resolve to their error replies.
+   */
+  batch(commands: readonly RedisCommand[], atomic: boolean): Promise<unknown[]>;
+  /**
+   * Open and connect another connection to the same server, which pub/sub
+   * requires.
+   */
+  duplicate(): Promise<RedisDriver>;
+  subscribe(channel: string, listener: RedisMessageListener): Promise<void>;
+  unsubscribe(channel: string, listener: RedisMessageListener): Promise<void>;
+  psubscribe(pattern: string, listener: RedisMessageListener): Promise<void>;
+  punsubscribe(pattern: string, listener: RedisMessageListener): Promise<void>;
+  /**
+   * Listen for connection events. Drivers that never lose their
+   * connection can omit this.
+   */
+  watch?(listener: (event: RedisDriverEvent) => void): void;
+  /**
+   * Whether commands are routed across the nodes of a Redis Cluster, so
+   * keys used together must share a slot.
+   */
+  readonly cluster?: boolean;
+  /**
+   * A driver that sends read-only commands to replicas, for reads that
+   * allow replica consistency. It is connected and closed with this one.
+   */
+  readonly replicas?: RedisDriver;
+}
+
+/**
+ * The subset of an `@redis/client` client used by its driver.
+ */
+export interface NodeRedisClientLike {
+  readonly isOpen: boolean;
+  connect(): Promise<unknown>;
+  quit(): Promise<unknown>;
+  duplicate(): NodeRedisClientLike;
+  multi(): unknown;
+  subscribe(channel: string, listener: RedisMessageListener): Promise<unknown>;
+  unsubscribe(
+    channel: string,
+    listener: RedisMessageListener
+  ): Promise<unknown>;
+  pSubscribe(pattern: string, listener: RedisMessageListener): Promise<unknown>;
+  pUnsubscribe(
+    pattern: string,
+    listener: RedisMessageListener
+  ): Promise<unknown>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * The subset of an `@redis/client` Sentinel client used by its driver.
+ */
+export interface NodeRedisSentinelLike
+  extends Omit<NodeRedisClientLike, "quit" | "duplicate"> {
+  close(): Promise<unknown>;
+}
+
+/**
+ * The subset of an ioredis `MULTI` or pipeline used by its driver.
+ */
+export interface IORedisBatchLike {
+  call(command: string, ...args: string[]): unknown;
+  exec(): Promise<[Error | null, unknown][] | null>;
+}
+
+/**
+ * The subset of an ioredis client used by its driver.
+ */
+export interface IORedisClientLike {
+  readonly status: string;
+  connect(): Promise<unknown>;
+  quit(): Promise<unknown>;
+  call(command: string, ...args: string[]): Promise<unknown>;
+  multi(): IORedisBatchLike;
+  pipeline(): IORedisBatchLike;
+  duplicate(): IORedisClientLike;
+  subscribe(...channels: string[]): Promise<unknown>;
+  unsubscribe(...channels: string[]): Promise<unknown>;
+  psubscribe(...patterns: string[]): Promise<unknown>;
+  punsubscribe(...patterns: string[]): Promise<unknown>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  off(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * The subset of Bun's `RedisClient` used by its driver.
+ */
+export interface BunRedisClientLike {
+  connect(): Promise<void>;
+  close(): void;
+  send(command: string, args: string[]): Promise<any>;
+  duplicate(): Promise<BunRedisClientLike>;
+  subscribe(channel: string, listener: RedisMessageListener): Promise<unknown>;
+  unsubscribe(
+    channel: string,
+    listener: RedisMessageListener
+  ): Promise<unknown>;
+  psubscribe(pattern: string, listener: RedisMessageListener): Promise<unknown>;
+  punsubscribe(
+    pattern: string,
+    listener: RedisMessageListener
+  ): Promise<unknown>;
+  onconnect: ((this: any) => void) | null;
+  onclose: ((this: any, error: Error) => void) | null;
+}
+
+/**
+ * Forward the connection events of an `@redis/client` or ioredis client,
+ * which share their event names.
+ * @param client The client.
+ * @param listener Receives the events.
+ */
+function watchEvents(
+  client: { on(event: string, listener: (...args: any[]) => void): unknown },
+  listener: (event: RedisDriverEvent) => void
+) {
+  client.on("ready", () => listener({ type: "ready" }));
+  client.on("reconnecting", () => listener({ type: "reconnecting" }));
+  client.on("end", () => listener({ type: "end" }));
+  client.on("error", (error: unknown) => listener({ type: "error", error }));
+}
+
+/**
+ * Create a driver for an `@redis/client` client. Commands call the client
+ * method they are named after.
+ * @param client The client, connected or not.
+ */
+export function nodeRedisDriver(client: NodeRedisClientLike): RedisDriver {
+  const methods = client as any;
+  return {
+    async connect() {
+      // @redis/client rejects connecting a client that is already open
+      if (!client.isOpen) await client.connect();
+    },
+    async quit() {
+      await client.quit();
+    },
+    send: (cmd) => methods[cmd.method](...cmd.args),
+    async batch(commands, atomic) {
+      const multi: any = client.multi();
+      for (const cmd of commands) {
+        // Raw commands are queued with addCommand, which takes the same
+        // arguments as the client's sendCommand
+        if (cmd.method === "sendCommand") multi.addCommand(...cmd.args);
+        else multi[cmd.method](...cmd.args);
+      }
+      if (atomic) return multi.exec();
+      try {
+        return await multi.execAsPipeline();
+      } catch (err) {
+        // Failed commands are reported with the replies of the others
+        const replies = (err as { replies?: unknown }).replies;
+        if (!Array.isArray(replies)) throw err;
+        return replies;
+      }
+    },
+    async duplicate() {
+      const duplicate = client.duplicate();
+      await duplicate.connect();
+      return nodeRedisDriver(duplicate);
+    },
+    async subscribe(channel, listener) {
+      await client.subscribe(channel, listener);
+    },
+    async unsubscribe(channel, listener) {
+      await client.unsubscribe(channel, listener);
+    },
+    async psubscribe(pattern, listener) {
+      await client.pSubscribe(pattern, listener);
+    },
+    async punsubscribe(pattern, listener) {
+      await client.pUnsubscribe(pattern, listener);
+    },
+    watch: (listener) => watchEvents(client, listener),
+  };
+}
+
+/**
+ * Create a driver for an `@redis/client` cluster, as created by
+ * `createCluster`. Commands are routed to the node serving their key's
+ * slot; a transaction is routed by its first key, so its keys must share a
+ * slot.
+ * @param cluster The cluster, connected or not.
+ */
+export function nodeRedisClusterDriver(
+  cluster: NodeRedisClientLike
+): RedisDriver {
+  const driver = nodeRedisDriver(cluster);
+  return {
+    ...driver,
+    cluster: true,
+    async connect() {
+      if (!cluster.isOpen) await cluster.connect();
+    },
+    async batch(commands, atomic) {
+      if (atomic) return driver.batch(commands, true);
+      // A pipeline is sent to a single node, so its commands are sent on
+      // their own and the cluster batches them per node
+      const settled = await Promise.allSettled(commands.map(driver.send));
+      return settled.map((result) =>
+        result.status === "fulfilled" ? result.value : result.reason
+      );
+    },
+    async duplicate() {
+      const duplicate = cluster.duplicate();
+      await duplicate.connect();
+      return nodeRedisClusterDriver(duplicate);
+    },
+  };
+}
+
+/**
+ * Create a driver for `@redis/client` Sentinel clients, as created by
+ * `createSentinel`. The client follows failovers to the new primary.
+ * @param primary A client with no replica connections, which sends every
+ * command to the primary.
+ * @param replicas A client with replica connections (`replicaPoolSize`
+ * above 0), which sends read-only commands to replicas, or a function
+ * creating one on the first replica read.
+ */
+export function nodeRedisSentinelDriver(
+  primary: NodeRedisSentinelLike,
+  replicas?: NodeRedisSentinelLike | (() => NodeRedisSentinelLike)
+): RedisDriver {
+  // quit and duplicate, which Sentinel clients lack, are replaced below
+  const driver = nodeRedisDriver(primary as unknown as NodeRedisClientLike);
+  const replicaDriver =
+    typeof replicas === "function"
+      ? lazyDriver(() => nodeRedisSentinelDriver(replicas()))
+      : replicas && nodeRedisSentinelDriver(replicas);
+  const sentinel: RedisDriver = {
+    ...driver,
+    async connect() {
+      if (!primary.isOpen) await primary.connect();
+      await replicaDriver?.connect();
+    },
+    async quit() {
+      await replicaDriver?.quit();
+      await primary.close();
+    },
+    // The client subscribes on a connection of its own, so pub/sub shares
+    // this driver
+    async duplicate() {
+      return { ...sentinel, connect: async () => {}, quit: async () => {} };
+    },
+    watch(listener) {
+      primary.on("error", (error: unknown) =>
+        listener({ type: "error", error })
+      );
+    },
+    replicas: replicaDriver,
+  };
+  return sentinel;
+}
+
+/**
+ * Wrap a driver created and connected when first used. Closing it drops
+ * the driver, so the next use creates another.
+ * @param create Creates the driver.
+ */
+function lazyDriver(create: () => RedisDriver): RedisDriver {
+  let created: Promise<RedisDriver> | undefined;
+  const open = () =>
+    (created ??= (async () => {
+      const driver = create();
+      await driver.connect();
+      return driver;
+    })().catch((err) => {
+      created = undefined;
+      throw err;
+    }));
+  return {
+    async connect() {},
+    async quit() {
+      const driver = created;
+      created = undefined;
+      await (await driver)?.quit();
+    },
+    send: async (cmd) => (await open()).send(cmd),
+    batch: async (commands, atomic) => (await open()).batch(commands, atomic),
+    duplicate: async () => (await open()).duplicate(),
+    subscribe: async (channel, listener) =>
+      (await open()).subscribe(channel, listener),
+    unsubscribe: async (channel, listener) =>
+      (await open()).unsubscribe(channel, listener),
+    psubscribe: async (pattern, listener) =>
+      (await open()).psubscribe(pattern, listener),
+    punsubscribe: async (pattern, listener) =>
+      (await open()).punsubscribe(pattern, listener),
+  };
+}
+
+/**
+ * Create a driver for an ioredis client. Commands are sent with `call` and
+ * their replies reshaped to match `@redis/client`.
+ * @param client The client, connected or not.
+ */
+export function ioredisDriver(client: IORedisClientLike): RedisDriver {
+  // ioredis emits messages per connection, so listeners are dispatched
+  // here by channel and by pattern
+  const channels = new Map<string, Set<RedisMessageListener>>();
+  const patterns = new Map<string, Set<RedisMessageListener>>();
+  let listening = false;
+  const listen = () => {
+    if (listening) return;
+    listening = true;
+    client.on("message", (channel: string, message: string) => {
+      channels.get(channel)?.forEach((listener) => listener(message, channel));
+    });
+    client.on(
+      "pmessage",
+      (pattern: string, channel: string, message: string) => {
+        patterns
+          .get(pattern)
+          ?.forEach((listener) => listener(message, channel));
+      }
+    );
+  };
+
+  const add = async (
+    registry: Map<string, Set<RedisMessageListener>>,
+    target: string,
+    listener: RedisMessageListener,
+    subscribe: (target: string) => Promise<unknown>
+  ) => {
+    listen();
+    const listeners = registry.get(target);
+    if (listeners) {
+      listeners.add(listener);
+      return;
+    }
+    registry.set(target, new Set([listener]));
+    await subscribe(target);
+  };
+
+  const remove = async (
+    registry: Map<string, Set<RedisMessageListener>>,
+    target: string,
+    listener: RedisMessageListener,
+    unsubscribe: (target: string) => Promise<unknown>
+  ) => {
+    const listeners = registry.get(target);
+    if (!listeners?.delete(listener) || listeners.size > 0) return;
+    registry.delete(target);
+    await unsubscribe(target);
+  };
+
+  return {
+    async connect() {
+      // ioredis connects on creation unless `lazyConnect` is set, and
+      // rejects a second connect
+      if (client.status === "ready") return;
+      if (["wait", "close", "end"].includes(client.status)) {
+        await client.connect();
+        return;
+      }
+      await new Promise<void>((resolve, reject) => {
+        const onReady = () => {
+          client.off("error", onError);
+          resolve();
+        };
+        const onError = (err: Error) => {
+          client.off("ready", onReady);
+          reject(err);
+        };
+        client.on("ready", onReady);
+        client.on("error", onError);
+      });
+    },
+    async quit() {
+      await client.quit();
+    },
+    async send(cmd) {
+      const [name, ...args] = toRawCommand(cmd);
+      return fromRawReply(cmd, await client.call(name!, ...args));
+    },
+    async batch(commands, atomic) {
+      const batch = atomic ? client.multi() : client.pipeline();
+      for (const cmd of commands) {
+        const [name, ...args] = toRawCommand(cmd);
+        batch.call(name!, ...args);
+      }
+      const results = await batch.exec();
+      if (!results) throw new Error("Transaction aborted");
+      return results.map(([err, reply], i) =>
+        err ? err : fromRawReply(commands[i]!, reply)
+      );
+    },
+    async duplicate() {
+      const duplicate = ioredisDriver(client.duplicate());
+      await duplicate.connect();
+      return duplicate;
+    },
+    subscribe: (channel, listener) =>
+      add(channels, channel, listener, (target) => client.subscribe(target)),
+    unsubscribe: (channel, listener) =>
+      remove(channels, channel, listener, (target) =>
+        client.unsubscribe(target)
+      ),
+    psubscribe: (pattern, listener) =>
+      add(patterns, pattern, listener, (target) => client.psubscribe(target)),
+    punsubscribe: (pattern, listener) =>
+      remove(patterns, pattern, listener, (target) =>
+        client.punsubscribe(target)
+      ),
+    watch: (listener) => watchEvents(client, listener),
+  };
+}
+
+/**
+ * Create a driver for Bun's built-in `RedisClient`. Commands are sent with
+ * `send` and their replies reshaped to match `@redis/client`.
+ * @param client The client, connected or not.
+ */
+export function bunRedisDriver(client: BunRedisClientLike): RedisDriver {
+  const send = (cmd: RedisCommand) => {
+    const [name, ...args] = toRawCommand(cmd);
+    return client.send(name!, args);
+  };
+  return {
+    connect: () => client.connect(),
+    async quit() {
+      client.close();
+    },
+    async send(cmd) {
+      return fromRawReply(cmd, await send(cmd));
+    },
+    async batch(commands, atomic) {
+      // Bun pipelines commands sent in the same tick on one connection,
+      // so nothing can be sent between MULTI and EXEC
+      if (atomic) {
+        const replies = await Promise.all([
+          client.send("MULTI", []),
+          ...commands.map(send),
+          client.send("EXEC", []),
+        ]);
+        const results = replies[replies.length - 1] as unknown[];
+        return results.map((reply, i) =>
+          reply instanceof Error ? reply : fromRawReply(commands[i]!, reply)
+        );
+      }
+      const settled = await Promise.allSettled(commands.map(send));
+      return settled.map((result, i) =>
+        result.status === "fulfilled"
+          ? fromRawReply(commands[i]!, result.value)
+          : result.reason
+      );
+    },
+    async duplicate() {
+      const duplicate = bunRedisDriver(await client.duplicate());
+      await duplicate.connect();
+      return duplicate;
+    },
+    async subscribe(channel, listener) {
+      await client.subscribe(channel, listener);
+    },
+    async unsubscribe(channel, listener) {
+      await client.unsubscribe(channel, listener);
+    },
+    async psubscribe(pattern, listener) {
+      await client.psubscribe(pattern, listener);
+    },
+    async punsubscribe(pattern, listener) {
+      await client.punsubscribe(pattern, listener);
+    },
+    watch(listener) {
+      // Bun takes a single handler per event, so any set by the
+      // application keep being called
+      const { onconnect, onclose } = client;
+      client.onconnect = function () {
+        onconnect?.call(this);
+        listener({ type: "ready" });
+      };
+      client.onclose = function (error) {
+        onclose?.call(this, error);
+        if (error) listener({ type: "error", error });
+        listener({ type: "end" });
+      };
+    },
+  };
+}
+
+/**
+ * How a command is written as a raw Redis command and how its raw reply is
+ * reshaped to match `@redis/client`.
+ */
+interface RawCommandSpec {
+  readonly args: (...args: any[]) => unknown[];
+  readonly reply?: (reply: unknown) => unknown;
+}
+
+// A single argument or several, as `@redis/client` accepts for variadic
+// commands
+const variadic = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [value];
+
+// An optional `NAME value` argument
+const optional = (name: string, value: unknown): unknown[] =>
+  value === undefined ? [] : [name, value];
+
+// An optional flag argument
+const flag = (name: string, value: unknown): unknown[] => (value ? [name] : []);
+
+// RESP2 replies hashes as flat field-value lists and RESP3 as maps
+const toRecord = (reply: unknown): Record<string, string> => {
+  if (reply === null || reply === undefined) return {};
+  if (reply instanceof Map) return Object.fromEntries(reply);
+  if (!Array.isArray(reply)) return reply as Record<string, string>;
+  const record: Record<string, string> = {};
+  for (let i = 0; i < reply.length; i += 2) {
+    record[reply[i]] = reply[i + 1];
+  }
+  return record;
+};
+
+const toEntry = (reply: unknown) => {
+  if (reply === null) return null;
+  const [id, fields] = reply as [string, unknown];
+  return { id, message: toRecord(fields) };
+};
+
+const toEntries = (reply: unknown) => ((reply ?? []) as unknown[]).map(toEntry);
+
+// XREAD and XREADGROUP reply with the entries of each stream, as pairs in
+// RESP2 and a map in RESP3
+const toStreams = (reply: unknown) => {
+  if (reply === null || reply === undefined) return null;
+  const streams =
+    reply instanceof Map
+      ? [...reply]
+      : Array.isArray(reply)
+      ? reply
+      : Object.entries(reply);
+  return streams.map(([name, entries]) => ({
+    name,
+    messages: toEntries(entries),
+  }));
+};
+
+const toNumber = (reply: unknown) => (reply === null ? null : Number(reply));
+
+// Blocking list pops reply with the key first
+const toKeyedElement = (reply: unknown) => {
+  if (reply === null || reply === undefined) return null;
+  const [key, element] = reply as unknown[];
+  return { key, element };
+};
+
+// Scores are replied as strings in RESP2, where infinities are "inf"
+const toScore = (reply: unknown) =>
+  reply === null
+    ? null
+    : Number(String(reply).replace(/^([+-]?)inf$/i, "$1Infinity"));
+
+// Members with scores are replied as a flat member-score list in RESP2
+// and as pairs in RESP3
+const toScored = (reply: unknown) => {
+  const list = (reply ?? []) as unknown[];
+  const pairs = list.every(Array.isArray)
+    ? (list as unknown[][])
+    : Array.from({ length: list.length / 2 }, (_, i) =>
+        list.slice(i * 2, i * 2 + 2)
+      );
+  return pairs.map(([value, score]) => ({ value, score: toScore(score) }));
+};
+
+// A single popped member is replied as a member-score pair, or an empty
+// list when the sorted set is empty
+const toScoredMember = (reply: unknown) => toScored(reply)[0] ?? null;
+
+// Blocking pops reply with the key first
+const toKeyedScoredMember = (reply: unknown) => {
+  if (reply === null || reply === undefined) return null;
+  const [key, value, score] = reply as unknown[];
+  return { key, value, score: toScore(score) };
+};
+
+const zRangeArgs = (
+  key: string,
+  min: unknown,
+  max: unknown,
+  options?: {
+    BY?: "SCORE" | "LEX";
+    REV?: boolean;
+    LIMIT?: { offset: number; count: number };
+  }
+) => [
+  "ZRANGE",
+  key,
+  min,
+  max,
+  ...(options?.BY ? [`BY${options.BY}`] : []),
+  ...flag("REV", options?.REV),
+  ...(options?.LIMIT
+    ? ["LIMIT", options.LIMIT.offset, options.LIMIT.count]
+    : []),
+];
+
+const xTrimArgs = (trim?: {
+  strategy: string;
+  strategyModifier?: string;
+  threshold: number;
+  limit?: number;
+}) =>
+  trim
+    ? [
+        trim.strategy,
+        ...(trim.strategyModifier ? [trim.strategyModifier] : []),
+        trim.threshold,
+        ...optional("LIMIT", trim.limit),
+      ]
+    : [];
+
+const xStreamsArgs = (
+  streams: { key: string; id: string } | { key: string; id: string }[]
+) => {
+  const list = variadic(streams) as { key: string; id: string }[];
+  return [
+    "STREAMS",
+    ...list.map((stream) => stream.key),
+    ...list.map((stream) => stream.id),
+  ];
+};
+
+// The FIELDS argument of the hash field expiration commands
+const fieldsArgs = (fields: string | string[]) => {
+  const list = variadic(fields);
+  return ["FIELDS", list.length, ...list];
+};
+
+const scriptArgs = (options: { keys?: string[]; arguments?: string[] }) => [
+  (options.keys ?? []).length,
+  ...(options.keys ?? []),
+  ...(options.arguments ?? []),
+];
+
+const RAW_COMMANDS: Record<string, RawCommandSpec> = {
+  ping: { args: () => ["PING"] },
+  get: { args: (key) => ["GET", key] },
+  set: {
+    args: (key, value, options) => [
+      "SET",
+      key,
+      value,
+      ...flag("KEEPTTL", options?.expiration === "KEEPTTL"),
+    ],
+  },
+  setEx: { args: (key, seconds, value) => ["SETEX", key, seconds, value] },
+  del: { args: (keys) => ["DEL", ...variadic(keys)] },
+  exists: { args: (keys) => ["EXISTS", ...variadic(keys)] },
+  expire: {
+    args: (key, seconds, mode) => ["EXPIRE", key, seconds, ...flag(mode, mode)],
+  },
+  expireAt: {
+    args: (key, timestamp, mode) => [
+      "EXPIREAT",
+      key,
+      timestamp,
+      ...flag(mode, mode),
+    ],
+  },
+  time: { args: () => ["TIME"] },
+  ttl: { args: (key) => ["TTL", key] },
+  pTTL: { args: (key) => ["PTTL", key] },
+  persist: { args: (key) => ["PERSIST", key] },
+  hGet: { args: (key, field) => ["HGET", key, field] },
+  hSet: {
+    args: (key, fieldOrFields, value) =>
+      typeof fieldOrFields === "object"
+        ? ["HSET", key, ...Object.entries(fieldOrFields).flat()]
+        : ["HSET", key, fieldOrFields, value],
+  },
+  hGetAll: { args: (key) => ["HGETALL", key], reply: toRecord },
+  hDel: { args: (key, fields) => ["HDEL", key, ...variadic(fields)] },
+  hExists: { args: (key, field) => ["HEXISTS", key, field], reply: Number },
+  hExpire: {
+    args: (key, fields, seconds, mode) => [
+      "HEXPIRE",
+      key,
+      seconds,
+      ...flag(mode, mode),
+      ...fieldsArgs(fields),
+    ],
+  },
+  hTTL: { args: (key, fields) => ["HTTL", key, ...fieldsArgs(fields)] },
+  hPersist: {
+    args: (key, fields) => ["HPERSIST", key, ...fieldsArgs(fields)],
+  },
+  lPush: { args: (key, elements) => ["LPUSH", key, ...variadic(elements)] },
+  rPush: { args: (key, elements) => ["RPUSH", key, ...variadic(elements)] },
+  lPushX: { args: (key, elements) => ["LPUSHX", key, ...variadic(elements)] },
+  rPushX: { args: (key, elements) => ["RPUSHX", key, ...variadic(elements)] },
+  lPop: { args: (key) => ["LPOP", key] },
+  rPop: { args: (key) => ["RPOP", key] },
+  lPopCount: { args: (key, count) => ["LPOP", key, count] },
+  rPopCount: { args: (key, count) => ["RPOP", key, count] },
+  lIndex: { args: (key, index) => ["LINDEX", key, index] },
+  lSet: { args: (key, index, element) => ["LSET", key, index, element] },
+  lInsert: {
+    args: (key, position, pivot, element) => [
+      "LINSERT",
+      key,
+      position,
+      pivot,
+      element,
+    ],
+  },
+  lPos: {
+    args: (key, element, options) => [
+      "LPOS",
+      key,
+      element,
+      ...optional("RANK", options?.RANK),
+      ...optional("MAXLEN", options?.MAXLEN),
+    ],
+  },
+  lPosCount: {
+    args: (key, element, count, options) => [
+      "LPOS",
+      key,
+      element,
+      ...optional("RANK", options?.RANK),
+      "COUNT",
+      count,
+      ...optional("MAXLEN", options?.MAXLEN),
+    ],
+  },
+  lMove: {
+    args: (source, destination, from, to) => [
+      "LMOVE",
+      source,
+      destination,
+      from,
+      to,
+    ],
+  },
+  blPop: {
+    args: (keys, timeout) => ["BLPOP", ...variadic(keys), timeout],
+    reply: toKeyedElement,
+  },
+  brPop: {
+    args: (keys, timeout) => ["BRPOP", ...variadic(keys), timeout],
+    reply: toKeyedElement,
+  },
+  blMove: {
+    args: (source, destination, from, to, timeout) => [
+      "BLMOVE",
+      source,
+      destination,
+      from,
+      to,
+      timeout,
+    ],
+  },
+  lRange: { args: (key, start, stop) => ["LRANGE", key, start, stop] },
+  lLen: { args: (key) => ["LLEN", key] },
+  lTrim: { args: (key, start, stop) => ["LTRIM", key, start, stop] },
+  lRem: { args: (key, count, element) => ["LREM", key, count, element] },
+  sAdd: { args: (key, members) => ["SADD", key, ...variadic(members)] },
+  sRem: { args: (key, members) => ["SREM", key, ...variadic(members)] },
+  sMembers: {
+    args: (key) => ["SMEMBERS", key],
+    reply: (reply) => [...(reply as Iterable<string>)],
+  },
+  sIsMember: {
+    args: (key, member) => ["SISMEMBER", key, member],
+    reply: Number,
+  },
+  sCard: { args: (key) => ["SCARD", key] },
+  sPop: {
+    args: (key, count) => [
+      "SPOP",
+      key,
+      ...(count === undefined ? [] : [count]),
+    ],
+  },
+  zAdd: {
+    args: (key, members, options) => [
+      "ZADD",
+      key,
+      ...(options?.condition ? [options.condition] : []),
+      ...(options?.comparison ? [options.comparison] : []),
+      ...flag("CH", options?.CH),
+      ...variadic(members).flatMap((member: any) => [
+        member.score,
+        member.value,
+      ]),
+    ],
+  },
+  zIncrBy: {
+    args: (key, increment, member) => ["ZINCRBY", key, increment, member],
+    reply: toScore,
+  },
+  zRem: { args: (key, members) => ["ZREM", key, ...variadic(members)] },
+  zRange: { args: zRangeArgs },
+  zRangeWithScores: {
+    args: (key, min, max, options) => [
+      ...zRangeArgs(key, min, max, options),
+      "WITHSCORES",
+    ],
+    reply: toScored,
+  },
+  zCount: { args: (key, min, max) => ["ZCOUNT", key, min, max] },
+  zCard: { args: (key) => ["ZCARD", key] },
+  zRank: { args: (key, member) => ["ZRANK", key, member] },
+  zRevRank: { args: (key, member) => ["ZREVRANK", key, member] },
+  zScore: { args: (key, member) => ["ZSCORE", key, member], reply: toScore },
+  zmScore: {
+    args: (key, members) => ["ZMSCORE", key, ...variadic(members)],
+    reply: (reply) => (reply as unknown[]).map(toScore),
+  },
+  zPopMin: { args: (key) => ["ZPOPMIN", key], reply: toScoredMember },
+  zPopMax: { args: (key) => ["ZPOPMAX", key], reply: toScoredMember },
+  zPopMinCount: {
+    args: (key, count) => ["ZPOPMIN", key, count],
+    reply: toScored,
+  },
+  zPopMaxCount: {
+    args: (key, count) => ["ZPOPMAX", key, count],
+    reply: toScored,
+  },
+  bzPopMin: {
+    args: (key, timeout) => ["BZPOPMIN", key, timeout],
+    reply: toKeyedScoredMember,
+  },
+  bzPopMax: {
+    args: (key, timeout) => ["BZPOPMAX", key, timeout],
+    reply: toKeyedScoredMember,
+  },
+  zRemRangeByRank: {
+    args: (key, start, stop) => ["ZREMRANGEBYRANK", key, start, stop],
+  },
+  xAdd: {
+    args: (key, id, message, options) => [
+      "XADD",
+      key,
+      ...xTrimArgs(options?.TRIM),
+      id,
+      ...Object.entries(message).flat(),
+    ],
+  },
+  xRange: {
+    args: (key, start, end, options) => [
+      "XRANGE",
+      key,
+      start,
+      end,
+      ...optional("COUNT", options?.COUNT),
+    ],
+    reply: toEntries,
+  },
+  xRevRange: {
+    args: (key, end, start, options) => [
+      "XREVRANGE",
+      key,
+      end,
+      start,
+      ...optional("COUNT", options?.COUNT),
+    ],
+    reply: toEntries,
+  },
+  xRead: {
+    args: (streams, options) => [
+      "XREAD",
+      ...optional("COUNT", options?.COUNT),
+      ...optional("BLOCK", options?.BLOCK),
+      ...xStreamsArgs(streams),
+    ],
+    reply: toStreams,
+  },
+  xReadGroup: {
+    args: (group, consumer, streams, options) => [
+      "XREADGROUP",
+      "GROUP",
+      group,
+      consumer,
+      ...optional("COUNT", options?.COUNT),
+      ...optional("BLOCK", options?.BLOCK),
+      ...flag("NOACK", options?.NOACK),
+      ...xStreamsArgs(streams),
+    ],
+    reply: toStreams,
+  },
+  xLen: { args: (key) => ["XLEN", key] },
+  xTrim: {
+    args: (key, strategy, threshold, options) => [
+      "XTRIM",
+      key,
+      ...xTrimArgs({
+        strategy,
+        threshold,
+        strategyModifier: options?.strategyModifier,
+        limit: options?.LIMIT,
+      }),
+    ],
+  },
+  xGroupCreate: {
+    args: (key, group, id, options) => [
+      "XGROUP",
+      "CREATE",
+      key,
+      group,
+      id,
+      ...flag("MKSTREAM", options?.MKSTREAM),
+    ],
+  },
+  xAck: { args: (key, group, ids) => ["XACK", key, group, ...variadic(ids)] },
+  xDel: { args: (key, ids) => ["XDEL", key, ...variadic(ids)] },
+  xPending: {
+    args: (key, group) => ["XPENDING", key, group],
+    reply: (reply) => {
+      const [pending, firstId, lastId, consumers] = reply as [
+        number,
+        string | null,
+        string | null,
+        [string, string][] | null
+      ];
+      return {
+        pending: Number(pending),
+        firstId,
+        lastId,
+        consumers:
+          consumers?.map(([name, count]) => ({
+            name,
+            deliveriesCounter: Number(count),
+          })) ?? null,
+      };
+    },
+  },
+  xAutoClaim: {
+    args: (key, group, consumer, minIdleTime, start, options) => [
+      "XAUTOCLAIM",
+      key,
+      group,
+      consumer,
+      minIdleTime,
+      start,
+      ...optional("COUNT", options?.COUNT),
+    ],
+    reply: (reply) => {
+      const [nextId, entries, deleted] = reply as [string, unknown, string[]];
+      return {
+        nextId,
+        messages: toEntries(entries),
+        deletedMessages: deleted ?? [],
+      };
+    },
+  },
+  publish: { args: (channel, message) => ["PUBLISH", channel, message] },
+  eval: { args: (script, options) => ["EVAL", script, ...scriptArgs(options)] },
+  evalSha: {
+    args: (sha, options) => ["EVALSHA", sha, ...scriptArgs(options)],
+  },
+  scriptLoad: { args: (script) => ["SCRIPT", "LOAD", script] },
+  // Commands of modules, e.g. RediSearch, written out in full
+  sendCommand: { args: (args) => args },
+};
+
+/**
+ * Write a command as a raw Redis command, e.g. `["HSET", key, field, value]`.
+ * @param cmd The command.
+ */
+function toRawCommand(cmd: RedisCommand): string[] {
+  const spec = RAW_COMMANDS[cmd.method];
+  if (!spec) throw new TypeError(`Unsupported Redis command: ${cmd.method}`);
+  return spec.args(...cmd.args).map(String);
+}
+
+/**
+ * Reshape the raw reply of a command to match `@redis/client`.
+ * @param cmd The command.
+ * @param reply The raw reply.
+ */
+function fromRawReply(cmd: RedisCommand, reply: unknown): unknown {
+  const spec = RAW_COMMANDS[cmd.method];
+  return spec?.reply ? spec.reply(reply) : reply;
+}
@@ -0,0 +1,225 @@
+/**
+ * Where an error happened: the schema entry, the Redis key and the command.
+ */
+export interface RedisErrorContext {
+  /**
+   * The schema key of the entry being accessed.
+   */
+  schemaKey?: string;
+  /**
+   * The concrete Redis key.
+   */
+  key?: string;
+  /**
+   * The hash field being accessed, if any.
+   */
+  field?: string;
+  /**
+   * The Redis command, e.g. `"HGET"`.
+   */
+  command?: string;
+  /**
+   * The underlying error.
+   */
+  cause?: unknown;
+}
+
+/**
+ * Describe an error context for use in messages.
+ * @param context The error context.
+ */
+function describe(context: RedisErrorContext): string {
+  const parts: string[] = [];
+  if (context.schemaKey !== undefined) parts.push(`"${context.schemaKey}"`);
+  if (context.field !== undefined) parts.push(`field "${context.field}"`);
+  if (context.key !== undefined) parts.push(`key "${context.key}"`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+/**
+ * Get the message of an unknown error value.
+ * @param cause The error value.
+ */
+function messageOf(cause: unknown): string {
+  return cause instanceof Error ? cause.message : String(cause);
+}
+
+/**
+ * Base class for all errors raised by the schema client.
+ */
+export class RedisSchemaError extends Error {
+  readonly schemaKey?: string;
+  readonly key?: string;
+  readonly field?: string;
+  readonly command?: string;
+
+  constructor(message: string, context: RedisErrorContext = {}) {
+    super(message, { cause: context.cause });
+    this.name = "RedisSchemaError";
+    this.schemaKey = context.schemaKey;
+    this.key = context.key;
+    this.field = context.field;
+    this.command = context.command;
+  }
+}
+
+/**
+ * Thrown when the client cannot connect to Redis.
+ */
+export class RedisConnectionError extends RedisSchemaError {
+  constructor(context: RedisErrorContext = {}) {
+    super(
+      `Failed to connect to Redis${describe(context)}: ${messageOf(
+        context.cause
+      )}`,
+      context
+    );
+    this.name = "RedisConnectionError";
+  }
+}
+
+/**
+ * Thrown when Redis rejects or fails a command.
+ */
+export class RedisCommandError extends RedisSchemaError {
+  constructor(context: RedisErrorContext = {}) {
+    super(
+      `Redis ${context.command ?? "command"} failed${describe(
+        context
+      )}: ${messageOf(context.cause)}`,
+      context
+    );
+    this.name = "RedisCommandError";
+  }
+}
+
+/**
+ * Thrown when a value cannot be serialized for storage.
+ */
+export class RedisSerializationError extends RedisSchemaError {
+  constructor(context: RedisErrorContext = {}) {
+    super(
+      `Failed to serialize value${describe(context)}: ${messageOf(
+        context.cause
+      )}`,
+      context
+    );
+    this.name = "RedisSerializationError";
+  }
+}
+
+/**
+ * Thrown when a stored value cannot be parsed.
+ */
+export class RedisDeserializationError extends RedisSchemaError {
+  /**
+   * The raw value read from Redis.
+   */
+  readonly value: string;
+
+  constructor(value: string, context: RedisErrorContext = {}) {
+    super(
+      `Failed to deserialize value${describe(context)}: ${messageOf(
+        context.cause
+      )}`,
+      context
+    );
+    this.name = "RedisDeserializationError";
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown when a stored value fails the validator declared on its entry.
+ */
+export class RedisValidationError extends RedisSchemaError {
+  /**
+   * The parsed value that failed validation.
+   */
+  readonly value: unknown;
+
+  constructor(value: unknown, context: RedisErrorContext = {}) {
+    super(`Stored value failed validation${describe(context)}`, context);
+    this.name = "RedisValidationError";
+    this.value = value;
+  }
+}
+
+/**
+ * Details of a rejected write.
+ */
+export interface RedisConstraintErrorDetails extends RedisErrorContext {
+  /**
+   * The constraint that failed, e.g. `"minLength"` or `"validator"`.
+   */
+  constraint: string;
+  /**
+   * The rejected value.
+   */
+  value: unknown;
+}
+
+/**
+ * Thrown when a value violates the constraints declared on its schema entry.
+ * Writes are checked before anything is sent to Redis.
+ */
+export class RedisConstraintError extends RedisSchemaError {
+  readonly constraint: string;
+  readonly value: unknown;
+
+  constructor(details: RedisConstraintErrorDetails) {
+    super(
+      `Constraint "${details.constraint}" failed${describe(details)}`,
+      details
+    );
+    this.name = "RedisConstraintError";
+    this.constraint = details.constraint;
+    this.value = details.value;
+  }
+}
+
+/**
+ * Thrown when keys used together in one transaction or script would be
+ * stored in different Redis Cluster slots. Raised at definition time for
+ * key patterns, and before sending for concrete keys.
+ */
+export class RedisCrossSlotError extends RedisSchemaError {
+  /**
+   * The keys or key patterns that do not share a slot.
+   */
+  readonly keys: readonly string[];
+
+  constructor(keys: readonly string[], context: RedisErrorContext = {}) {
+    super(
+      `Keys do not share a cluster slot${describe(context)}: ${keys
+        .map((key) => `"${key}"`)
+        .join(", ")}`,
+      context
+    );
+    this.name = "RedisCrossSlotError";
+    this.keys = keys;
+  }
+}
+
+/**
+ * Thrown when the server does not support a command an operation needs,
+ * e.g. per-field hash expiration before Redis 7.4, or search without the
+ * RediSearch module.
+ */
+export class RedisCapabilityError extends RedisSchemaError {
+  /**
+   * What the command needs, e.g. `"Redis 7.4 or later"`.
+   */
+  readonly requirement: string;
+
+  constructor(requirement: string, context: RedisErrorContext = {}) {
+    super(
+      `Redis ${context.command ?? "command"} requires ${requirement}${describe(
+        context
+      )}`,
+      context
+    );
+    this.name = "RedisCapabilityError";
+    this.requirement = requirement;
+  }
+}
@@ -5,12 +5,92 @@ export type RedisKey = string | KeyPattern;
 
 /**
  * Represents a branded key pattern for Redis key matching.
+ * @template P The pattern string, e.g. `"user:{userId}:settings"`.
  */
-export interface KeyPattern {
+export interface KeyPattern<P extends string = string> {
   readonly _brand: "KeyPattern";
-  readonly pattern: string;
+  readonly pattern: P;
 }
 
+/**
+ * Extract the placeholder names from a key pattern string.
+ * @template P The pattern string.
+ */
+export type KeyPatternParamNames<P extends string> =
+  P extends `${string}{${infer Name}}${infer Rest}`
+    ?
+        | (Name extends `${string}{${infer Inner}` ? Inner : Name)
+        | KeyPatternParamNames<Rest>
+    : never;
+
+/**
+ * The parameters required to build a key from a pattern.
+ * @template P The pattern string.
+ */
+export type KeyPatternParams<P extends string> = string extends P
+  ? Record<string, string | number>
+  : { [Name in KeyPatternParamNames<P>]: string | number };
+
+/**
+ * The key argument accepted by schema operations: the pattern parameters
+ * when the entry declares a key pattern, otherwise a raw key string.
+ * @template K The key declared on the schema entry.
+ */
+export type KeyArg<K> = K extends KeyPattern<infer P>
+  ? KeyPatternParams<P>
+  : string;
+
+/**
+ * What to do when a stored value fails to parse or fails its validator.
+ * - `"throw"`: throw the RedisDeserializationError or RedisValidationError
+ * - `"null"`: return `null`
+ * - `"default"`: return the declared `.default()`, or `null` without one
+ * - `"delete"`: remove the bad value from Redis and return `null`
+ * - `"passthrough"`: return the value unvalidated, or the raw string when it
+ *   cannot be parsed
+ */
+export type ValidationFailurePolicy =
+  | "throw"
+  | "null"
+  | "default"
+  | "delete"
+  | "passthrough";
+
+/**
+ * An operation queued in a transaction.
+ * @template R The operation result.
+ */
+export interface QueuedOperation<R = unknown> {
+  readonly schemaKey: string;
+  readonly operation: string;
+  /**
+   * The result type, for type inference only.
+   */
+  readonly _result?: R;
+}
+
+/**
+ * What an operation returns in each call mode: a promise when called on the
+ * client, a queued operation inside a transaction or pipeline.
+ * @template R The operation result.
+ */
+export interface OperationResults<R> {
+  promise: Promise<R>;
+  queued: QueuedOperation<R>;
+}
+
+/**
+ * A call mode of schema operations.
+ */
+export type ResultMode = keyof OperationResults<unknown>;
+
+/**
+ * The value an operation returns in a call mode.
+ * @template M The call mode.
+ * @template R The operation result.
+ */
+export type OperationResult<M extends ResultMode, R> = OperationResults<R>[M];
+
 /**
  * Base interface for all Redis data types.
  * @template T The TypeScript type represented by this Redis type.
@@ -21,7 +101,13 @@ export interface RedisDataType<T = any> {
   readonly _optional?: boolean;
   readonly _default?: T;
   readonly _ttl?: number;
+  /**
+   * Whether reads refresh the TTL.
+   */
+  readonly _slidingTtl?: boolean;
   readonly _description?: string;
+  readonly _key?: RedisKey;
+  readonly _validationFailure?: ValidationFailurePolicy;
   readonly _runtimeType?:
     | "string"
     | "number"
@@ -31,63 +117,302 @@ export interface RedisDataType<T = any> {
   readonly validator?: (value: unknown) => boolean;
 }
 
+/**
+ * Whether a value may be missing: `"required"` values are expected to be
+ * present, `"optional"` ones are marked with `.optional()` and
+ * `"default"` ones are filled in by their `.default()`.
+ */
+export type RedisPresence = "required" | "optional" | "default";
+
+/**
+ * The value read from a key or hash field: `null` when it is missing,
+ * unless a default fills it in.
+ * @template T The TypeScript type.
+ * @template TPresence Whether a default fills in a missing value.
+ */
+export type StoredValue<
+  T,
+  TPresence extends RedisPresence
+> = TPresence extends "default" ? T : T | null;
+
 /**
  * Operations for Redis JSON types.
  * @template T The TypeScript type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ * @template TPresence Whether a default fills in a missing value.
+ * @template TIndexed The properties declared with `.index()`.
  */
-export interface RedisJsonOperations<T> {
+export interface RedisJsonOperations<
+  T,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise",
+  TPresence extends RedisPresence = RedisPresence,
+  TIndexed extends keyof T = never
+> extends RedisExpiryOperations<K, M> {
   /**
-   * Get the value of a JSON key.
+   * Get the value of a JSON key, or its default when missing.
    */
-  get(key: string): Promise<T | null>;
+  get(
+    key: KeyArg<K>,
+    options?: RedisReadOptions
+  ): OperationResult<M, StoredValue<T, TPresence>>;
   /**
    * Set the value of a JSON key.
    */
-  set(key: string, value: T): Promise<void>;
+  set(
+    key: KeyArg<K>,
+    value: T,
+    options?: RedisSetOptions
+  ): OperationResult<M, void>;
   /**
    * Delete a JSON key.
    */
-  del(key: string): Promise<number>;
+  del(key: KeyArg<K>): OperationResult<M, number>;
   /**
    * Check if a JSON key exists.
    */
-  exists(key: string): Promise<boolean>;
+  exists(
+    key: KeyArg<K>,
+    options?: RedisReadOptions
+  ): OperationResult<M, boolean>;
+  /**
+   * Search the values with RediSearch by conditions on the indexed
+   * properties, e.g. `search((q) => q.where("age").gte(18))`. Requires the
+   * `search` client option.
+   */
+  search(
+    query: (
+      q: RedisSearchBuilder<Pick<T, TIndexed>>
+    ) => RedisSearchQuery<Pick<T, TIndexed>>,
+    options?: RedisSearchOptions<Pick<T, TIndexed>>
+  ): OperationResult<M, RedisSearchResult<JsonEntry<T>>>;
+}
+
+/**
+ * A JSON value found by a search.
+ * @template T The TypeScript type.
+ */
+export interface JsonEntry<T> {
+  readonly key: string;
+  readonly value: T;
 }
 
+/**
+ * How a property of a given type can be indexed: numbers as `"numeric"`,
+ * strings as `"tag"` or `"text"`.
+ * @template T The property type.
+ */
+export type SearchFieldTypeOf<T> = NonNullable<T> extends number
+  ? "numeric"
+  : NonNullable<T> extends string
+  ? "tag" | "text"
+  : never;
+
 /**
  * Create a branded key pattern for Redis key matching.
+ * Placeholders are written as `{name}` and become typed parameters of
+ * every operation on entries that use the pattern.
  * @param pattern The key pattern string.
  */
-export function keyPattern(pattern: string): KeyPattern {
+export function keyPattern<P extends string>(pattern: P): KeyPattern<P> {
   return { _brand: "KeyPattern", pattern };
 }
 
+/**
+ * Check whether a value is a KeyPattern.
+ * @param value The value to check.
+ */
+export function isKeyPattern(value: unknown): value is KeyPattern {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as KeyPattern)._brand === "KeyPattern"
+  );
+}
+
+/**
+ * Build a concrete Redis key from a key pattern and its parameters.
+ * @param pattern The key pattern.
+ * @param params The values for the pattern placeholders.
+ */
+export function buildKey<P extends string>(
+  pattern: KeyPattern<P>,
+  params: KeyPatternParams<P>
+): string {
+  const values = params as Record<string, string | number | undefined>;
+  return pattern.pattern.replace(/\{([^{}]+)\}/g, (_, name: string) => {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      throw new Error(
+        `Missing key parameter "${name}" for pattern "${pattern.pattern}"`
+      );
+    }
+    return String(value);
+  });
+}
+
+/**
+ * Escape a string for use in a regular expression.
+ * @param value The string to escape.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Extract the parameters of a key pattern from a concrete key.
+ * Returns `null` when the key does not match the pattern.
+ * @param pattern The key pattern.
+ * @param key The concrete key, e.g. `"user:42:settings"`.
+ */
+export function parseKey<P extends string>(
+  pattern: KeyPattern<P>,
+  key: string
+): KeyPatternParams<P> | null {
+  const names: string[] = [];
+  const source = pattern.pattern
+    .split(/(\{[^{}]+\})/)
+    .map((part) => {
+      const placeholder = /^\{([^{}]+)\}$/.exec(part);
+      if (!placeholder) return escapeRegExp(part);
+      names.push(placeholder[1]!);
+      return "(.*?)";
+    })
+    .join("");
+  const match = new RegExp(`^${source}$`).exec(key);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  names.forEach((name, i) => {
+    params[name] = match[i + 1]!;
+  });
+  return params as KeyPatternParams<P>;
+}
+
+/**
+ * Convert a key pattern to a Redis glob, e.g. `"user:*:settings"`.
+ * @param pattern The key pattern.
+ */
+function patternToGlob(pattern: KeyPattern): string {
+  return pattern.pattern
+    .split(/(\{[^{}]+\})/)
+    .map((part) =>
+      /^\{[^{}]+\}$/.test(part) ? "*" : part.replace(/[*?[\]\\]/g, "\\$&")
+    )
+    .join("");
+}
+
+/**
+ * Get the hash tag a key or key pattern declares, with placeholders kept,
+ * e.g. `"user:{userId}"` for `"{user:{userId}}:settings"`. The braces of
+ * a placeholder do not declare a tag.
+ * @param key The key or key pattern.
+ */
+function hashTagTemplate(key: RedisKey): string | undefined {
+  if (!isKeyPattern(key)) return hashTagOf(key);
+  const tag = hashTagOf(key.pattern.replace(/\{([^{}]+)\}/g, "\u0000$1\u0001"));
+  return tag?.replace(/\u0000([^\u0001]*)\u0001/g, "{$1}");
+}
+
+/**
+ * Get what decides the slot of a key or key pattern: the slot itself when
+ * it is known once the schema is defined, or the hash tag template when it
+ * depends on placeholders. Undefined for a key pattern without a hash tag,
+ * whose slot cannot be known before its placeholders are filled.
+ * @param key The key or key pattern.
+ */
+function slotOf(key: RedisKey): string | undefined {
+  if (!isKeyPattern(key)) return `slot:${hashSlot(key)}`;
+  const tag = hashTagTemplate(key);
+  if (tag === undefined) return undefined;
+  return /\{[^{}]+\}/.test(tag) ? `tag:${tag}` : `slot:${hashSlot(`{${tag}}`)}`;
+}
+
+/**
+ * Check that keys can share a Redis Cluster slot.
+ * @param keys The declared keys.
+ * @param allowUnknown Whether key patterns without a hash tag pass.
+ * @throws RedisCrossSlotError
+ */
+function checkSameSlot(keys: readonly RedisKey[], allowUnknown: boolean): void {
+  const slots = keys.map(slotOf);
+  const known = slots.filter((slot) => slot !== undefined);
+  const unknown =
+    !allowUnknown && keys.length > 1 && known.length < keys.length;
+  if (unknown || known.some((slot) => slot !== known[0])) {
+    throw new RedisCrossSlotError(
+      keys.map((key) => (isKeyPattern(key) ? key.pattern : key))
+    );
+  }
+}
+
+/**
+ * Check that schema entries used together, e.g. in a transaction or
+ * script, are stored in the same Redis Cluster slot. Fixed keys must hash
+ * to the same slot, and key patterns must declare the same hash tag. A key
+ * pattern without a hash tag fails alongside any other key, since its slot
+ * is only known once its placeholders are filled. Entries without a
+ * declared key are checked when their keys are known.
+ * @param entries The schema entries.
+ * @throws RedisCrossSlotError
+ */
+export function assertSameSlot(...entries: readonly RedisDataType[]): void {
+  checkSameSlot(declaredKeys(entries), false);
+}
+
+/**
+ * Get the keys schema entries declare.
+ * @param entries The schema entries.
+ */
+function declaredKeys(entries: readonly RedisDataType[]): RedisKey[] {
+  return entries
+    .map((def) => def._key)
+    .filter((key): key is RedisKey => key !== undefined);
+}
+
 /**
  * Abstract base class for chainable Redis data types.
  * @template T The TypeScript type.
  * @template TSelf The concrete subclass type.
+ * @template TOptional The type `.optional()` returns.
+ * @template TDefaulted The type `.default()` returns.
  */
-abstract class ChainableRedisType<T, TSelf> implements RedisDataType<T> {
+abstract class ChainableRedisType<
+  T,
+  TSelf,
+  TOptional = TSelf,
+  TDefaulted = TSelf
+> implements RedisDataType<T>
+{
   readonly _type!: T;
   abstract readonly _redisType: string;
   readonly _optional?: boolean;
   readonly _default?: T;
   readonly _ttl?: number;
+  readonly _slidingTtl?: boolean;
   readonly _description?: string;
+  readonly _key?: RedisKey;
+  readonly _validationFailure?: ValidationFailurePolicy;
 
   constructor(
     public config: {
       optional?: boolean;
       default?: T;
       ttl?: number;
+      slidingTtl?: boolean;
       description?: string;
+      key?: RedisKey;
+      validationFailure?: ValidationFailurePolicy;
       [key: string]: any;
     } = {}
   ) {
     this._optional = config.optional;
     this._default = config.default;
     this._ttl = config.ttl;
+    this._slidingTtl = config.slidingTtl;
     this._description = config.description;
+    this._key = config.key;
+    this._validationFailure = config.validationFailure;
   }
 
   protected abstract _clone(newConfig: any): TSelf;
@@ -95,24 +420,37 @@ abstract class ChainableRedisType<T, TSelf> implements RedisDataType<T> {
   /**
    * Mark this type as optional.
    */
-  optional(): TSelf {
-    return this._clone({ ...this.config, optional: true });
+  optional(): TOptional {
+    return this._clone({
+      ...this.config,
+      optional: true,
+    }) as unknown as TOptional;
   }
 
   /**
    * Set a default value for this type.
    * @param value The default value.
    */
-  default(value: T): TSelf {
-    return this._clone({ ...this.config, default: value });
+  default(value: T): TDefaulted {
+    return this._clone({
+      ...this.config,
+      default: value,
+    }) as unknown as TDefaulted;
   }
 
   /**
-   * Set a TTL (time-to-live) in seconds for this type.
+   * Set a TTL (time-to-live) in seconds for this type, applied on every
+   * write.
    * @param seconds TTL in seconds.
+   * @param options.sliding Refresh the TTL on every read too, so the key
+   * expires once it is no longer used, e.g. for sessions.
    */
-  ttl(seconds: number): TSelf {
-    return this._clone({ ...this.config, ttl: seconds });
+  ttl(seconds: number, options: { sliding?: boolean } = {}): TSelf {
+    return this._clone({
+      ...this.config,
+      ttl: seconds,
+      slidingTtl: options.sliding,
+    });
   }
 
   /**
@@ -122,28 +460,46 @@ abstract class ChainableRedisType<T, TSelf> implements RedisDataType<T> {
   description(desc: string): TSelf {
     return this._clone({ ...this.config, description: desc });
   }
+
+  /**
+   * Override the client's validation-failure policy for this type.
+   * @param policy What to do when a stored value is invalid.
+   */
+  validationFailure(policy: ValidationFailurePolicy): TSelf {
+    return this._clone({ ...this.config, validationFailure: policy });
+  }
 }
 
 /**
  * Represents a Redis string type.
  * @template T The TypeScript type (default: string).
+ * @template K The key pattern, if any.
+ * @template TPresence Whether a default fills in a missing value.
  */
-export class RedisStringType<T = string> extends ChainableRedisType<
+export class RedisStringType<
+  T = string,
+  K extends RedisKey | undefined = undefined,
+  TPresence extends RedisPresence = RedisPresence
+> extends ChainableRedisType<
   T,
-  RedisStringType<T>
+  RedisStringType<T, K, TPresence>,
+  RedisStringType<T, K, "optional">,
+  RedisStringType<T, K, "default">
 > {
   readonly _redisType = "string";
   readonly _runtimeType = "string";
+  declare readonly _key: K;
+  declare readonly _presence: TPresence;
 
-  protected _clone(newConfig: any): RedisStringType<T> {
-    return new RedisStringType<T>(newConfig);
+  protected _clone(newConfig: any): RedisStringType<T, K, TPresence> {
+    return new RedisStringType<T, K, TPresence>(newConfig);
   }
 
   /**
    * Set the minimum length constraint for the string.
    * @param length Minimum length.
    */
-  minLength(length: number): RedisStringType<T> {
+  minLength(length: number): RedisStringType<T, K, TPresence> {
     return this._clone({ ...this.config, minLength: length });
   }
 
@@ -151,58 +507,102 @@ export class RedisStringType<T = string> extends ChainableRedisType<
    * Set the maximum length constraint for the string.
    * @param length Maximum length.
    */
-  maxLength(length: number): RedisStringType<T> {
+  maxLength(length: number): RedisStringType<T, K, TPresence> {
     return this._clone({ ...this.config, maxLength: length });
   }
+
+  /**
+   * Bind this string to a key pattern.
+   * @param key The key pattern.
+   */
+  key<P extends string>(
+    key: KeyPattern<P>
+  ): RedisStringType<T, KeyPattern<P>, TPresence> {
+    return new RedisStringType<T, KeyPattern<P>, TPresence>({
+      ...this.config,
+      key,
+    });
+  }
 }
 
 /**
  * Create a Redis string type.
  * @template T The TypeScript type (default: string).
  */
-export function redisString<T = string>(): RedisStringType<T> {
-  return new RedisStringType<T>();
+export function redisString<T = string>(): RedisStringType<
+  NoInfer<T>,
+  undefined,
+  "required"
+> {
+  // NoInfer keeps element positions like redisList(key, redisString())
+  // from inferring T out of the surrounding call.
+  return new RedisStringType<T, undefined, "required">();
 }
 
 /**
  * Represents a field in a Redis hash.
  * @template T The TypeScript type of the field.
+ * @template TPresence Whether the field may be missing, or a default fills
+ * it in.
  */
-export class RedisHashField<T> extends ChainableRedisType<
+export class RedisHashField<
+  T,
+  TPresence extends RedisPresence = RedisPresence
+> extends ChainableRedisType<
   T,
-  RedisHashField<T>
+  RedisHashField<T, TPresence>,
+  RedisHashField<T, "optional">,
+  RedisHashField<T, "default">
 > {
   readonly _redisType = "hash-field";
   readonly _runtimeType: "string" | "number" | "object" | "boolean" | "unknown";
+  declare readonly _presence: TPresence;
   constructor(config: any = {}) {
     super(config);
     this._runtimeType = config.runtimeType || "unknown";
   }
-  protected _clone(newConfig: any): RedisHashField<T> {
-    return new RedisHashField<T>(newConfig);
+  protected _clone(newConfig: any): RedisHashField<T, TPresence> {
+    return new RedisHashField<T, TPresence>(newConfig);
+  }
+
+  /**
+   * Set a TTL in seconds for this field, applied with HEXPIRE whenever
+   * `hset` writes the field. Requires Redis 7.4.
+   * @param seconds TTL in seconds.
+   */
+  override ttl(seconds: number): RedisHashField<T, TPresence> {
+    return this._clone({ ...this.config, ttl: seconds });
+  }
+
+  /**
+   * Index this field for full-text search rather than by exact value when
+   * the client searches with RediSearch.
+   */
+  fullText(): RedisHashField<T, TPresence> {
+    return this._clone({ ...this.config, fullText: true });
   }
 }
 
 /**
  * Create a Redis hash field of type string.
  */
-export function redisHashString(): RedisHashField<string> {
-  return new RedisHashField<string>({ runtimeType: "string" });
+export function redisHashString(): RedisHashField<string, "required"> {
+  return new RedisHashField<string, "required">({ runtimeType: "string" });
 }
 
 /**
  * Create a Redis hash field of type number.
  */
-export function redisHashNumber(): RedisHashField<number> {
-  return new RedisHashField<number>({ runtimeType: "number" });
+export function redisHashNumber(): RedisHashField<number, "required"> {
+  return new RedisHashField<number, "required">({ runtimeType: "number" });
 }
 
 /**
  * Create a Redis hash field of type object (JSON).
  * @template T The TypeScript type of the JSON object.
  */
-export function redisHashJson<T>(): RedisHashField<T> {
-  return new RedisHashField<T>({ runtimeType: "object" });
+export function redisHashJson<T>(): RedisHashField<T, "required"> {
+  return new RedisHashField<T, "required">({ runtimeType: "object" });
 }
 
 /**
@@ -210,78 +610,101 @@ export function redisHashJson<T>(): RedisHashField<T> {
  * @template TFields The fields of the hash.
  */
 export interface RedisHashType<
-  TFields extends Record<string, RedisHashField<any>>
+  TFields extends Record<string, RedisHashField<any>>,
+  K extends RedisKey = RedisKey
 > extends RedisDataType<TFields> {
   readonly _redisType: "hash";
   readonly fields: TFields;
-  readonly key: RedisKey;
+  readonly key: K;
 }
 
 /**
  * Builder for Redis hash types.
  * @template TFields The fields of the hash.
+ * @template K The Redis key or pattern.
+ * @template TIndexed The fields declared with `.index()`.
  */
 export class RedisHashBuilder<
-    TFields extends Record<string, RedisHashField<any>>
+    TFields extends Record<string, RedisHashField<any>>,
+    K extends RedisKey = RedisKey,
+    TIndexed extends keyof TFields = never
   >
-  extends ChainableRedisType<TFields, RedisHashBuilder<TFields>>
-  implements RedisHashType<TFields>
+  extends ChainableRedisType<TFields, RedisHashBuilder<TFields, K, TIndexed>>
+  implements RedisHashType<TFields, K>
 {
   readonly _redisType = "hash";
+  declare readonly _indexed: TIndexed;
 
-  constructor(
-    readonly key: RedisKey,
-    readonly fields: TFields,
-    config: any = {}
-  ) {
-    super(config);
+  constructor(readonly key: K, readonly fields: TFields, config: any = {}) {
+    super({ ...config, key });
   }
 
-  protected _clone(newConfig: any): RedisHashBuilder<TFields> {
+  protected _clone(newConfig: any): RedisHashBuilder<TFields, K, TIndexed> {
     return new RedisHashBuilder(this.key, this.fields, newConfig);
   }
 
   /**
-   * Mark fields as indexed for search or lookup.
+   * Maintain secondary indexes of fields, to find hashes with
+   * `findBy`, `findRange` and `countBy`. Number fields are indexed by
+   * value range, other fields by exact value.
    * @param fields The field names to index.
    */
-  index(...fields: (keyof TFields)[]): RedisHashBuilder<TFields> {
-    return this._clone({ ...this.config, indexedFields: fields });
+  index<F extends keyof TFields & string>(
+    ...fields: F[]
+  ): RedisHashBuilder<TFields, K, TIndexed | F> {
+    return new RedisHashBuilder(this.key, this.fields, {
+      ...this.config,
+      indexedFields: [...(this.config.indexedFields ?? []), ...fields],
+    });
   }
 }
 
 /**
  * Create a Redis hash type.
  * @template TFields The fields of the hash.
+ * @template K The Redis key or pattern.
  * @param key The Redis key or pattern.
  * @param fields The hash fields.
  */
-export function redisHash<TFields extends Record<string, RedisHashField<any>>>(
-  key: RedisKey,
-  fields: TFields
-): RedisHashBuilder<TFields> {
+export function redisHash<
+  TFields extends Record<string, RedisHashField<any>>,
+  K extends RedisKey
+>(key: K, fields: TFields): RedisHashBuilder<TFields, K> {
   return new RedisHashBuilder(key, fields);
 }
 
+/**
+ * The order a queue list serves its values in: first in, first out, or
+ * last in, first out.
+ */
+export type RedisListMode = "fifo" | "lifo";
+
 /**
  * Represents a Redis list type.
  * @template T The element type.
+ * @template K The Redis key or pattern.
+ * @template TMode The queue order declared with `.fifo()` or `.lifo()`.
+ * @template TReliable Whether the queue is declared `.reliable()`.
  */
-export class RedisListType<T> extends ChainableRedisType<
-  T[],
-  RedisListType<T>
-> {
+export class RedisListType<
+  T,
+  K extends RedisKey = RedisKey,
+  TMode extends RedisListMode | undefined = undefined,
+  TReliable extends boolean = false
+> extends ChainableRedisType<T[], RedisListType<T, K, TMode, TReliable>> {
   readonly _redisType = "list";
+  declare readonly _mode: TMode;
+  declare readonly _reliable: TReliable;
 
   constructor(
-    readonly key: RedisKey,
+    readonly key: K,
     readonly elementType: RedisDataType<T>,
     config: any = {}
   ) {
-    super(config);
+    super({ ...config, key });
   }
 
-  protected _clone(newConfig: any): RedisListType<T> {
+  protected _clone(newConfig: any): RedisListType<T, K, TMode, TReliable> {
     return new RedisListType(this.key, this.elementType, newConfig);
   }
 
@@ -289,54 +712,81 @@ export class RedisListType<T> extends ChainableRedisType<
    * Set the maximum length constraint for the list.
    * @param length Maximum length.
    */
-  maxLength(length: number): RedisListType<T> {
+  maxLength(length: number): RedisListType<T, K, TMode, TReliable> {
     return this._clone({ ...this.config, maxLength: length });
   }
 
   /**
-   * Set the list mode to FIFO.
+   * Use the list as a FIFO queue, with `enqueue` and `dequeue`.
+   */
+  fifo(): RedisListType<T, K, "fifo", TReliable> {
+    return new RedisListType(this.key, this.elementType, {
+      ...this.config,
+      mode: "fifo",
+    });
+  }
+
+  /**
+   * Use the list as a LIFO queue, or stack, with `enqueue` and `dequeue`.
    */
-  fifo(): RedisListType<T> {
-    return this._clone({ ...this.config, mode: "fifo" });
+  lifo(): RedisListType<T, K, "lifo", TReliable> {
+    return new RedisListType(this.key, this.elementType, {
+      ...this.config,
+      mode: "lifo",
+    });
   }
 
   /**
-   * Set the list mode to LIFO.
+   * Make the queue reliable: `reserve` moves a value to a processing list
+   * until it is acknowledged with `ack`, and `recover` returns values not
+   * acknowledged within the visibility timeout to the queue.
+   * @param visibilityTimeout Seconds a reserved value stays invisible.
    */
-  lifo(): RedisListType<T> {
-    return this._clone({ ...this.config, mode: "lifo" });
+  reliable(
+    this: RedisListType<T, K, RedisListMode, TReliable>,
+    visibilityTimeout: number
+  ): RedisListType<T, K, TMode, true> {
+    return new RedisListType(this.key, this.elementType, {
+      ...this.config,
+      visibilityTimeout,
+    });
   }
 }
 
 /**
  * Create a Redis list type.
  * @template T The element type.
+ * @template K The Redis key or pattern.
  * @param key The Redis key or pattern.
  * @param elementType The type of elements in the list.
  */
-export function redisList<T>(
-  key: RedisKey,
+export function redisList<T, K extends RedisKey>(
+  key: K,
   elementType: RedisDataType<T>
-): RedisListType<T> {
+): RedisListType<T, K> {
   return new RedisListType(key, elementType);
 }
 
 /**
  * Represents a Redis set type.
  * @template T The element type.
+ * @template K The Redis key or pattern.
  */
-export class RedisSetType<T> extends ChainableRedisType<T[], RedisSetType<T>> {
+export class RedisSetType<
+  T,
+  K extends RedisKey = RedisKey
+> extends ChainableRedisType<T[], RedisSetType<T, K>> {
   readonly _redisType = "set";
 
   constructor(
-    readonly key: RedisKey,
+    readonly key: K,
     readonly elementType: RedisDataType<T>,
     config: any = {}
   ) {
-    super(config);
+    super({ ...config, key });
   }
 
-  protected _clone(newConfig: any): RedisSetType<T> {
+  protected _clone(newConfig: any): RedisSetType<T, K> {
     return new RedisSetType(this.key, this.elementType, newConfig);
   }
 
@@ -344,7 +794,7 @@ export class RedisSetType<T> extends ChainableRedisType<T[], RedisSetType<T>> {
    * Set the maximum size constraint for the set.
    * @param size Maximum size.
    */
-  maxSize(size: number): RedisSetType<T> {
+  maxSize(size: number): RedisSetType<T, K> {
     return this._clone({ ...this.config, maxSize: size });
   }
 }
@@ -352,35 +802,37 @@ export class RedisSetType<T> extends ChainableRedisType<T[], RedisSetType<T>> {
 /**
  * Create a Redis set type.
  * @template T The element type.
+ * @template K The Redis key or pattern.
  * @param key The Redis key or pattern.
  * @param elementType The type of elements in the set.
  */
-export function redisSet<T>(
-  key: RedisKey,
+export function redisSet<T, K extends RedisKey>(
+  key: K,
   elementType: RedisDataType<T>
-): RedisSetType<T> {
+): RedisSetType<T, K> {
   return new RedisSetType(key, elementType);
 }
 
 /**
  * Represents a Redis sorted set (zset) type.
  * @template T The element type.
+ * @template K The Redis key or pattern.
  */
-export class RedisSortedSetType<T> extends ChainableRedisType<
-  T[],
-  RedisSortedSetType<T>
-> {
+export class RedisSortedSetType<
+  T,
+  K extends RedisKey = RedisKey
+> extends ChainableRedisType<T[], RedisSortedSetType<T, K>> {
   readonly _redisType = "zset";
 
   constructor(
-    readonly key: RedisKey,
+    readonly key: K,
     readonly elementType: RedisDataType<T>,
     config: any = {}
   ) {
-    super(config);
+    super({ ...config, key });
   }
 
-  protected _clone(newConfig: any): RedisSortedSetType<T> {
+  protected _clone(newConfig: any): RedisSortedSetType<T, K> {
     return new RedisSortedSetType(this.key, this.elementType, newConfig);
   }
 
@@ -388,7 +840,7 @@ export class RedisSortedSetType<T> extends ChainableRedisType<
    * Set the maximum size constraint for the sorted set.
    * @param size Maximum size.
    */
-  maxSize(size: number): RedisSortedSetType<T> {
+  maxSize(size: number): RedisSortedSetType<T, K> {
     return this._clone({ ...this.config, maxSize: size });
   }
 }
@@ -396,32 +848,181 @@ export class RedisSortedSetType<T> extends ChainableRedisType<
 /**
  * Create a Redis sorted set type.
  * @template T The element type.
+ * @template K The Redis key or pattern.
  * @param key The Redis key or pattern.
  * @param elementType The type of elements in the sorted set.
  */
-export function redisSortedSet<T>(
-  key: RedisKey,
+export function redisSortedSet<T, K extends RedisKey>(
+  key: K,
   elementType: RedisDataType<T>
-): RedisSortedSetType<T> {
+): RedisSortedSetType<T, K> {
   return new RedisSortedSetType(key, elementType);
 }
 
+/**
+ * Represents a Redis stream type. Entry fields use the same field types
+ * and codecs as hashes.
+ * @template TFields The fields of each stream entry.
+ * @template K The Redis key or pattern.
+ */
+export class RedisStreamType<
+  TFields extends Record<string, RedisHashField<any>>,
+  K extends RedisKey = RedisKey
+> extends ChainableRedisType<TFields, RedisStreamType<TFields, K>> {
+  readonly _redisType = "stream";
+
+  constructor(readonly key: K, readonly fields: TFields, config: any = {}) {
+    super({ ...config, key });
+  }
+
+  protected _clone(newConfig: any): RedisStreamType<TFields, K> {
+    return new RedisStreamType(this.key, this.fields, newConfig);
+  }
+}
+
+/**
+ * Create a Redis stream type.
+ * @template TFields The fields of each stream entry.
+ * @template K The Redis key or pattern.
+ * @param key The Redis key or pattern.
+ * @param fields The entry fields.
+ */
+export function redisStream<
+  TFields extends Record<string, RedisHashField<any>>,
+  K extends RedisKey
+>(key: K, fields: TFields): RedisStreamType<TFields, K> {
+  return new RedisStreamType(key, fields);
+}
+
+/**
+ * Represents a Redis pub/sub channel type.
+ * @template T The message payload type.
+ * @template K The channel name or pattern.
+ */
+export class RedisChannelType<
+  T,
+  K extends RedisKey = string
+> extends ChainableRedisType<T, RedisChannelType<T, K>> {
+  readonly _redisType = "channel";
+
+  constructor(
+    readonly key: K,
+    readonly payloadType: RedisDataType<T>,
+    config: any = {}
+  ) {
+    super({ ...config, key });
+  }
+
+  protected _clone(newConfig: any): RedisChannelType<T, K> {
+    return new RedisChannelType(this.key, this.payloadType, newConfig);
+  }
+}
+
+/**
+ * Create a Redis pub/sub channel type. Payloads are stored as JSON unless
+ * another payload type is given.
+ * @template T The message payload type.
+ * @template K The channel name or pattern.
+ * @param channel The channel name or pattern.
+ * @param payloadType The payload type, e.g. `redisJson<T>().schema(guard)`.
+ */
+export function redisChannel<T, K extends RedisKey = string>(
+  channel: K,
+  payloadType: RedisDataType<T> = redisJson<T>()
+): RedisChannelType<T, K> {
+  return new RedisChannelType(channel, payloadType);
+}
+
+/**
+ * A Lua script with typed keys, arguments and result.
+ * @template TKeys The schema entries whose keys are passed as KEYS.
+ * @template TArgs The types of the arguments passed as ARGV.
+ * @template R The result type.
+ */
+export interface RedisScript<
+  TKeys extends readonly RedisDataType[] = readonly RedisDataType[],
+  TArgs extends Record<string, RedisDataType> = Record<string, RedisDataType>,
+  R = unknown
+> {
+  readonly keys: TKeys;
+  readonly args: TArgs;
+  readonly returns?: RedisDataType<R>;
+  readonly source: string;
+  /**
+   * The SHA1 digest Redis caches the script under.
+   */
+  readonly sha: string;
+}
+
+/**
+ * Define a Lua script. Register it with the `scripts` client option to call
+ * it as `client.scripts.name(keys, args)`.
+ * @template TKeys The schema entries whose keys are passed as KEYS.
+ * @template TArgs The types of the arguments passed as ARGV.
+ * @template R The result type.
+ * @param definition.keys The schema entries whose keys the script accesses,
+ * in KEYS order.
+ * @param definition.args The argument types, in ARGV order. Values are
+ * validated and serialized like stored values.
+ * @param definition.returns The type the reply is read as. The raw reply is
+ * returned when omitted.
+ * @param definition.source The Lua source.
+ * @throws RedisCrossSlotError When the keys cannot share a slot, see
+ * `assertSameSlot`. Key patterns without a hash tag are checked when the
+ * script is called on Redis Cluster.
+ */
+export function defineScript<
+  const TKeys extends readonly RedisDataType[],
+  TArgs extends Record<string, RedisDataType> = {},
+  R = unknown
+>(definition: {
+  keys: TKeys;
+  args?: TArgs;
+  returns?: RedisDataType<R>;
+  source: string;
+}): RedisScript<TKeys, TArgs, R> {
+  checkSameSlot(declaredKeys(definition.keys), true);
+  return {
+    keys: definition.keys,
+    args: definition.args ?? ({} as TArgs),
+    returns: definition.returns,
+    source: definition.source,
+    sha: createHash("sha1").update(definition.source).digest("hex"),
+  };
+}
+
 /**
  * Represents a Redis JSON type.
  * @template T The TypeScript type of the JSON object.
+ * @template K The key pattern, if any.
+ * @template TPresence Whether a default fills in a missing value.
+ * @template TIndexed The properties declared with `.index()`.
  */
-export class RedisJsonType<T> extends ChainableRedisType<T, RedisJsonType<T>> {
+export class RedisJsonType<
+  T,
+  K extends RedisKey | undefined = undefined,
+  TPresence extends RedisPresence = RedisPresence,
+  TIndexed extends keyof T = never
+> extends ChainableRedisType<
+  T,
+  RedisJsonType<T, K, TPresence, TIndexed>,
+  RedisJsonType<T, K, "optional", TIndexed>,
+  RedisJsonType<T, K, "default", TIndexed>
+> {
   readonly _redisType = "json";
   readonly _runtimeType = "object";
   readonly validator?: (value: unknown) => boolean;
+  declare readonly _key: K;
+  declare readonly _presence: TPresence;
+  declare readonly _indexed: TIndexed;
 
   constructor(config: any = {}) {
     super(config);
     this.validator = config.validator;
   }
 
-  protected _clone(newConfig: any): RedisJsonType<T> {
-    return new RedisJsonType<T>(newConfig);
+  protected _clone(newConfig: any): RedisJsonType<T, K, TPresence, TIndexed> {
+    return new RedisJsonType<T, K, TPresence, TIndexed>(newConfig);
   }
 
   /**
@@ -429,10 +1030,46 @@ export class RedisJsonType<T> extends ChainableRedisType<T, RedisJsonType<T>> {
    * @template U The new type after validation.
    * @param validator A type guard function.
    */
-  schema<U>(validator: (value: unknown) => value is U): RedisJsonType<U> {
+  schema<U>(
+    validator: (value: unknown) => value is U
+  ): RedisJsonType<
+    U,
+    K,
+    TPresence extends "default" ? "required" : TPresence,
+    Extract<TIndexed, keyof U>
+  > {
     // Remove default if type is incompatible
     const { default: def, ...rest } = this.config;
-    return new RedisJsonType<U>({ ...rest, validator });
+    return new RedisJsonType({ ...rest, validator });
+  }
+
+  /**
+   * Bind this JSON value to a key pattern.
+   * @param key The key pattern.
+   */
+  key<P extends string>(
+    key: KeyPattern<P>
+  ): RedisJsonType<T, KeyPattern<P>, TPresence, TIndexed> {
+    return new RedisJsonType<T, KeyPattern<P>, TPresence, TIndexed>({
+      ...this.config,
+      key,
+    });
+  }
+
+  /**
+   * Index top-level properties with RediSearch, to find values with
+   * `search()` on a client created with the `search` option. Strings are
+   * indexed as `"tag"` for exact values or `"text"` for full-text search,
+   * numbers as `"numeric"`. Requires a key pattern.
+   * @param fields How each property is indexed.
+   */
+  index<P extends keyof T & string>(fields: {
+    [F in P]: SearchFieldTypeOf<T[F]>;
+  }): RedisJsonType<T, K, TPresence, TIndexed | P> {
+    return new RedisJsonType<T, K, TPresence, TIndexed | P>({
+      ...this.config,
+      searchFields: { ...this.config.searchFields, ...fields },
+    });
   }
 }
 
@@ -440,153 +1077,2566 @@ export class RedisJsonType<T> extends ChainableRedisType<T, RedisJsonType<T>> {
  * Create a Redis JSON type.
  * @template T The TypeScript type of the JSON object.
  */
-export function redisJson<T>(): RedisJsonType<T> {
-  return new RedisJsonType<T>();
+export function redisJson<T>(): RedisJsonType<
+  NoInfer<T>,
+  undefined,
+  "required"
+> {
+  return new RedisJsonType<T, undefined, "required">();
 }
 
+/**
+ * The operations of a schema entry.
+ * @template TDef The schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export type SchemaOperations<
+  TDef,
+  M extends ResultMode = "promise"
+> = TDef extends RedisStringType<infer T, infer TKey, infer TPresence>
+  ? RedisStringOperations<T, TKey, M, TPresence>
+  : TDef extends RedisHashBuilder<infer TFields, infer TKey, infer TIndexed>
+  ? RedisHashOperations<TFields, TKey, M, TIndexed>
+  : TDef extends RedisListType<
+      infer T,
+      infer TKey,
+      infer TMode,
+      infer TReliable
+    >
+  ? RedisListOperations<T, TKey, M> &
+      (TMode extends RedisListMode ? RedisQueueOperations<T, TKey, M> : {}) &
+      (TReliable extends true ? RedisReliableQueueOperations<T, TKey, M> : {})
+  : TDef extends RedisSetType<infer T, infer TKey>
+  ? RedisSetOperations<T, TKey, M>
+  : TDef extends RedisSortedSetType<infer T, infer TKey>
+  ? RedisSortedSetOperations<T, TKey, M>
+  : TDef extends RedisStreamType<infer TFields, infer TKey>
+  ? RedisStreamOperations<TFields, TKey, M>
+  : TDef extends RedisChannelType<infer T, infer TKey>
+  ? M extends "promise"
+    ? TKey extends KeyPattern<infer P>
+      ? RedisPatternChannelOperations<T, P>
+      : RedisChannelOperations<T>
+    : never
+  : TDef extends RedisJsonType<
+      infer T,
+      infer TKey,
+      infer TPresence,
+      infer TIndexed
+    >
+  ? RedisJsonOperations<T, TKey, M, TPresence, TIndexed>
+  : never;
+
 /**
  * A type-safe Redis client for a given schema.
  * @template TSchema The schema definition.
  */
 export interface RedisClient<TSchema extends Record<string, RedisDataType>> {
   readonly schema: {
-    [K in keyof TSchema]: TSchema[K] extends RedisStringType<infer T>
-      ? RedisStringOperations<T>
-      : TSchema[K] extends RedisHashBuilder<infer TFields>
-      ? RedisHashOperations<TFields>
-      : TSchema[K] extends RedisListType<infer T>
-      ? RedisListOperations<T>
-      : TSchema[K] extends RedisSetType<infer T>
-      ? RedisSetOperations<T>
-      : TSchema[K] extends RedisSortedSetType<infer T>
-      ? RedisSortedSetOperations<T>
-      : TSchema[K] extends RedisJsonType<infer T>
-      ? RedisJsonOperations<T>
-      : never;
+    [K in keyof TSchema]: SchemaOperations<TSchema[K]>;
   };
 }
 
 /**
- * Operations for Redis string types.
- * @template T The TypeScript type.
+ * The schema operations available in a transaction or pipeline. Each call
+ * queues the operation and returns a handle to its result.
+ * @template TSchema The schema definition.
  */
-export interface RedisStringOperations<T> {
-  /**
-   * Get the value of a string key.
-   */
-  get(key: string): Promise<T | null>;
-  /**
-   * Set the value of a string key.
-   */
-  set(key: string, value: T): Promise<void>;
+export type QueuedSchemaOperations<
+  TSchema extends Record<string, RedisDataType>
+> = {
+  [K in keyof TSchema]: SchemaOperations<TSchema[K], "queued">;
+};
+
+/**
+ * The results of a transaction or pipeline: a tuple matching the given
+ * queued operations, or the results of every queued operation otherwise.
+ * @template R The queued operations.
+ */
+export type QueuedResults<R> = R extends readonly QueuedOperation[]
+  ? {
+      -readonly [I in keyof R]: R[I] extends QueuedOperation<infer V>
+        ? V
+        : never;
+    }
+  : unknown[];
+
+/**
+ * A batch of schema operations sent in one round trip.
+ * @template TSchema The schema definition.
+ */
+export interface RedisPipeline<TSchema extends Record<string, RedisDataType>> {
   /**
-   * Delete a string key.
+   * The schema operations. Each call queues the operation.
    */
-  del(key: string): Promise<number>;
+  readonly schema: QueuedSchemaOperations<TSchema>;
   /**
-   * Check if a string key exists.
+   * Send the queued operations. Pass queued operations to receive their
+   * results as a typed tuple; otherwise resolves to the results of every
+   * queued operation.
+   * @param operations The operations whose results to return.
    */
-  exists(key: string): Promise<boolean>;
+  exec<const R extends readonly QueuedOperation[] | void = void>(
+    operations?: R
+  ): Promise<QueuedResults<R>>;
 }
 
 /**
- * Operations for Redis hash types.
- * @template TFields The hash fields.
+ * The key declared on a schema entry.
+ * @template E The schema entry.
  */
-export interface RedisHashOperations<
-  TFields extends Record<string, RedisHashField<any>>
-> {
-  /**
-   * Get the value of a hash field.
-   */
-  hget<K extends keyof TFields>(
-    key: string,
-    field: K
-  ): Promise<TFields[K]["_type"] | null>;
+type EntryKey<E> = E extends { readonly key: infer K extends RedisKey }
+  ? K
+  : E extends { readonly _key: infer K }
+  ? K
+  : undefined;
+
+/**
+ * The KEYS of a script call: one key argument per declared entry.
+ * @template TKeys The script's schema entries.
+ */
+export type ScriptKeyArgs<TKeys extends readonly RedisDataType[]> = {
+  -readonly [I in keyof TKeys]: KeyArg<EntryKey<TKeys[I]>>;
+};
+
+/**
+ * The argument values of a script call.
+ * @template TArgs The script's argument types.
+ */
+export type ScriptArgValues<TArgs extends Record<string, RedisDataType>> = {
+  [A in keyof TArgs]: TArgs[A]["_type"];
+};
+
+/**
+ * A registered script, called with its keys and arguments.
+ * @template S The script definition.
+ */
+export type ScriptFunction<S> = S extends RedisScript<
+  infer TKeys,
+  infer TArgs,
+  infer R
+>
+  ? (
+      keys: ScriptKeyArgs<TKeys>,
+      ...args: {} extends TArgs
+        ? [args?: ScriptArgValues<TArgs>]
+        : [args: ScriptArgValues<TArgs>]
+    ) => Promise<R | null>
+  : never;
+
+/**
+ * Where Redis sends a read: `"primary"` sees every acknowledged write,
+ * while `"replica"` may lag behind it.
+ */
+export type RedisConsistency = "primary" | "replica";
+
+/**
+ * Options accepted by read-only operations.
+ */
+export interface RedisReadOptions {
   /**
-   * Set the value of a hash field.
+   * Where to send this read, overriding the `consistency` client option.
    */
-  hset<K extends keyof TFields>(
-    key: string,
-    field: K,
-    value: TFields[K]["_type"]
-  ): Promise<void>;
+  consistency?: RedisConsistency;
+}
+
+/**
+ * Conditions for setting an expiry. At most one can be set.
+ */
+export interface RedisExpireOptions {
   /**
-   * Set multiple hash fields.
+   * Only when the key has no expiry.
    */
-  hset(
-    key: string,
-    fields: { [K in keyof TFields]?: TFields[K]["_type"] }
-  ): Promise<void>;
+  nx?: boolean;
   /**
-   * Get all fields and values of a hash.
+   * Only when the key already has an expiry.
    */
-  hgetall(
-    key: string
-  ): Promise<{ [K in keyof TFields]: TFields[K]["_type"] } | null>;
+  xx?: boolean;
   /**
-   * Delete one or more hash fields.
+   * Only when the new expiry is later than the current one. A key without
+   * an expiry never expires, so it is never extended.
    */
-  hdel(key: string, ...fields: (keyof TFields)[]): Promise<number>;
+  gt?: boolean;
   /**
-   * Check if a hash field exists.
+   * Only when the new expiry is sooner than the current one.
    */
-  hexists(key: string, field: keyof TFields): Promise<boolean>;
+  lt?: boolean;
 }
 
 /**
- * Operations for Redis list types.
- * @template T The element type.
+ * Options accepted by writes that apply the entry's TTL.
  */
-export interface RedisListOperations<T = any> {
-  lpush(key: string, ...values: any[]): Promise<number>;
-  rpush(key: string, ...values: any[]): Promise<number>;
-  lpop(key: string): Promise<any | null>;
-  rpop(key: string): Promise<any | null>;
-  lrange(key: string, start: number, stop: number): Promise<any[]>;
-  llen(key: string): Promise<number>;
+export interface RedisWriteOptions {
+  /**
+   * The TTL in seconds to apply, instead of the one declared with
+   * `.ttl()`.
+   */
+  ttl?: number;
 }
 
 /**
- * Operations for Redis set types.
- * @template T The element type.
+ * Options for writing a string or JSON value.
  */
-export interface RedisSetOperations<T = any> {
-  sadd(key: string, ...members: any[]): Promise<number>;
-  srem(key: string, ...members: any[]): Promise<number>;
-  smembers(key: string): Promise<any[]>;
-  sismember(key: string, member: any): Promise<boolean>;
-  scard(key: string): Promise<number>;
+export interface RedisSetOptions extends RedisWriteOptions {
+  /**
+   * Keep the key's current expiry instead of applying a TTL.
+   */
+  keepTtl?: boolean;
 }
 
 /**
- * Operations for Redis sorted set (zset) types.
+ * Options for setting multiple hash fields.
+ */
+export interface RedisHashSetOptions extends RedisWriteOptions {
+  /**
+   * Whether the fields make up a new hash, so every field without a
+   * default that is not marked `.optional()` must be given.
+   */
+  create?: boolean;
+}
+
+/**
+ * Operations for inspecting and changing the expiry of a key, available on
+ * every schema entry.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisExpiryOperations<
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> {
+  /**
+   * Get the remaining time to live in seconds: `-1` when the key has no
+   * expiry, `-2` when it does not exist.
+   */
+  ttl(key: KeyArg<K>): OperationResult<M, number>;
+  /**
+   * Get the remaining time to live in milliseconds, like `ttl`.
+   */
+  pttl(key: KeyArg<K>): OperationResult<M, number>;
+  /**
+   * Expire the key in `seconds`. Resolves to `false` when the key does not
+   * exist or the condition is not met.
+   */
+  expire(
+    key: KeyArg<K>,
+    seconds: number,
+    options?: RedisExpireOptions
+  ): OperationResult<M, boolean>;
+  /**
+   * Expire the key at a point in time, like `expire`.
+   */
+  expireAt(
+    key: KeyArg<K>,
+    at: Date,
+    options?: RedisExpireOptions
+  ): OperationResult<M, boolean>;
+  /**
+   * Remove the key's expiry. Resolves to `false` when it had none.
+   */
+  persist(key: KeyArg<K>): OperationResult<M, boolean>;
+}
+
+/**
+ * Operations for Redis string types.
+ * @template T The TypeScript type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ * @template TPresence Whether a default fills in a missing value.
+ */
+export interface RedisStringOperations<
+  T,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise",
+  TPresence extends RedisPresence = RedisPresence
+> extends RedisExpiryOperations<K, M> {
+  /**
+   * Get the value of a string key, or its default when missing.
+   */
+  get(
+    key: KeyArg<K>,
+    options?: RedisReadOptions
+  ): OperationResult<M, StoredValue<T, TPresence>>;
+  /**
+   * Set the value of a string key.
+   */
+  set(
+    key: KeyArg<K>,
+    value: T,
+    options?: RedisSetOptions
+  ): OperationResult<M, void>;
+  /**
+   * Delete a string key.
+   */
+  del(key: KeyArg<K>): OperationResult<M, number>;
+  /**
+   * Check if a string key exists.
+   */
+  exists(
+    key: KeyArg<K>,
+    options?: RedisReadOptions
+  ): OperationResult<M, boolean>;
+}
+
+/**
+ * The fields of a hash with the given presence.
+ * @template TFields The fields of the hash.
+ * @template TPresence The presence to select.
+ */
+type FieldsWith<
+  TFields extends Record<string, RedisHashField<any>>,
+  TPresence extends RedisPresence
+> = {
+  [F in keyof TFields]: TFields[F] extends RedisHashField<any, TPresence>
+    ? F
+    : never;
+}[keyof TFields];
+
+/**
+ * The value read from a hash field: `null` when it is missing, unless a
+ * default fills it in.
+ * @template TField The field.
+ */
+export type HashFieldValue<TField extends RedisHashField<any>> =
+  TField extends RedisHashField<infer T, infer TPresence>
+    ? StoredValue<T, TPresence>
+    : never;
+
+/**
+ * The fields read from a hash or stream entry. Fields marked `.optional()`
+ * may be missing; defaults fill in the others.
+ * @template TFields The fields of the hash.
+ */
+export type HashValues<TFields extends Record<string, RedisHashField<any>>> = {
+  [F in Exclude<
+    keyof TFields,
+    FieldsWith<TFields, "optional">
+  >]: TFields[F]["_type"];
+} & {
+  [F in FieldsWith<TFields, "optional">]?: TFields[F]["_type"];
+};
+
+/**
+ * The fields written to a new hash or stream entry. Fields without a
+ * default that are not marked `.optional()` must be given.
+ * @template TFields The fields of the hash.
+ */
+export type HashInput<TFields extends Record<string, RedisHashField<any>>> = {
+  [F in FieldsWith<TFields, "required">]: TFields[F]["_type"];
+} & {
+  [F in Exclude<
+    keyof TFields,
+    FieldsWith<TFields, "required">
+  >]?: TFields[F]["_type"];
+};
+
+/**
+ * The number fields of a hash.
+ * @template TFields The fields of the hash.
+ */
+type NumberFields<TFields extends Record<string, RedisHashField<any>>> = {
+  [F in keyof TFields]: TFields[F]["_type"] extends number ? F : never;
+}[keyof TFields];
+
+/**
+ * The types of the indexed fields of a hash, which searches query.
+ * @template TFields The fields of the hash.
+ * @template TIndexed The indexed fields.
+ */
+type IndexedValues<
+  TFields extends Record<string, RedisHashField<any>>,
+  TIndexed extends keyof TFields
+> = { [F in TIndexed]: TFields[F]["_type"] };
+
+/**
+ * A hash found through an index.
+ * @template TFields The fields of the hash.
+ */
+export interface HashEntry<
+  TFields extends Record<string, RedisHashField<any>>
+> {
+  readonly key: string;
+  readonly value: HashValues<TFields>;
+}
+
+/**
+ * Operations for Redis hash types.
+ * @template TFields The hash fields.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ * @template TIndexed The fields declared with `.index()`.
+ */
+export interface RedisHashOperations<
+  TFields extends Record<string, RedisHashField<any>>,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise",
+  TIndexed extends keyof TFields = never
+> extends RedisExpiryOperations<K, M> {
+  /**
+   * Get the value of a hash field, or its default when missing.
+   */
+  hget<F extends keyof TFields>(
+    key: KeyArg<K>,
+    field: F,
+    options?: RedisReadOptions
+  ): OperationResult<M, HashFieldValue<TFields[F]>>;
+  /**
+   * Set the value of a hash field.
+   */
+  hset<F extends keyof TFields>(
+    key: KeyArg<K>,
+    field: F,
+    value: TFields[F]["_type"],
+    options?: RedisWriteOptions
+  ): OperationResult<M, void>;
+  /**
+   * Set the fields of a new hash. Every field without a default that is
+   * not marked `.optional()` must be given.
+   */
+  hset(
+    key: KeyArg<K>,
+    fields: HashInput<TFields>,
+    options: RedisHashSetOptions & { create: true }
+  ): OperationResult<M, void>;
+  /**
+   * Set multiple hash fields.
+   */
+  hset(
+    key: KeyArg<K>,
+    fields: { [F in keyof TFields]?: TFields[F]["_type"] },
+    options?: RedisHashSetOptions & { create?: false }
+  ): OperationResult<M, void>;
+  /**
+   * Get all fields and values of a hash, with defaults filled in.
+   */
+  hgetall(
+    key: KeyArg<K>,
+    options?: RedisReadOptions
+  ): OperationResult<M, HashValues<TFields> | null>;
+  /**
+   * Delete one or more hash fields.
+   */
+  hdel(
+    key: KeyArg<K>,
+    ...fields: (keyof TFields)[]
+  ): OperationResult<M, number>;
+  /**
+   * Check if a hash field exists.
+   */
+  hexists(
+    key: KeyArg<K>,
+    field: keyof TFields,
+    options?: RedisReadOptions
+  ): OperationResult<M, boolean>;
+  /**
+   * Delete a hash, removing it from the indexes.
+   */
+  del(key: KeyArg<K>): OperationResult<M, number>;
+  /**
+   * Find the hashes whose indexed field has a value.
+   */
+  findBy<F extends TIndexed>(
+    field: F,
+    value: TFields[F]["_type"]
+  ): OperationResult<M, HashEntry<TFields>[]>;
+  /**
+   * Find the hashes whose indexed number field is between `min` and `max`,
+   * inclusive, ordered by the field.
+   */
+  findRange<F extends TIndexed & NumberFields<TFields>>(
+    field: F,
+    min: number,
+    max: number
+  ): OperationResult<M, HashEntry<TFields>[]>;
+  /**
+   * Count the hashes whose indexed field has a value.
+   */
+  countBy<F extends TIndexed>(
+    field: F,
+    value: TFields[F]["_type"]
+  ): OperationResult<M, number>;
+  /**
+   * Search the hashes with RediSearch by conditions on the indexed fields,
+   * e.g. `search((q) => q.where("age").gte(18).and("theme").eq("dark"))`.
+   * Requires the `search` client option.
+   */
+  search(
+    query: (
+      q: RedisSearchBuilder<IndexedValues<TFields, TIndexed>>
+    ) => RedisSearchQuery<IndexedValues<TFields, TIndexed>>,
+    options?: RedisSearchOptions<IndexedValues<TFields, TIndexed>>
+  ): OperationResult<M, RedisSearchResult<HashEntry<TFields>>>;
+  /**
+   * Expire hash fields in `seconds`, independently of the hash. Resolves to
+   * whether each field's expiry was set, in the order given. Requires
+   * Redis 7.4.
+   */
+  hexpire(
+    key: KeyArg<K>,
+    fields: (keyof TFields)[],
+    seconds: number,
+    options?: RedisExpireOptions
+  ): OperationResult<M, boolean[]>;
+  /**
+   * Get the remaining time to live of hash fields in seconds: `-1` for a
+   * field without an expiry, `-2` for a missing field. Requires Redis 7.4.
+   */
+  httl(
+    key: KeyArg<K>,
+    ...fields: (keyof TFields)[]
+  ): OperationResult<M, number[]>;
+  /**
+   * Remove the expiry of hash fields. Resolves to whether each field had
+   * one. Requires Redis 7.4.
+   */
+  hpersist(
+    key: KeyArg<K>,
+    ...fields: (keyof TFields)[]
+  ): OperationResult<M, boolean[]>;
+}
+
+/**
+ * Operations for Redis list types.
+ * @template T The element type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisListOperations<
+  T = any,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> extends RedisExpiryOperations<K, M> {
+  /**
+   * Prepend a list of values to a list, with options for the write.
+   */
+  lpush(
+    key: KeyArg<K>,
+    values: T[],
+    options: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Prepend one or more values to a list.
+   */
+  lpush(key: KeyArg<K>, ...values: T[]): OperationResult<M, number>;
+  /**
+   * Append a list of values to a list, with options for the write.
+   */
+  rpush(
+    key: KeyArg<K>,
+    values: T[],
+    options: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Append one or more values to a list.
+   */
+  rpush(key: KeyArg<K>, ...values: T[]): OperationResult<M, number>;
+  /**
+   * Prepend a list of values to a list only if it exists, with options
+   * for the write.
+   */
+  lpushx(
+    key: KeyArg<K>,
+    values: T[],
+    options: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Prepend values to a list only if it exists. Resolves to the list
+   * length, `0` when it does not exist.
+   */
+  lpushx(key: KeyArg<K>, ...values: T[]): OperationResult<M, number>;
+  /**
+   * Append a list of values to a list only if it exists, with options for
+   * the write.
+   */
+  rpushx(
+    key: KeyArg<K>,
+    values: T[],
+    options: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Append values to a list only if it exists. Resolves to the list
+   * length, `0` when it does not exist.
+   */
+  rpushx(key: KeyArg<K>, ...values: T[]): OperationResult<M, number>;
+  /**
+   * Remove and return up to `count` values from the start of a list.
+   */
+  lpop(key: KeyArg<K>, count: number): OperationResult<M, T[]>;
+  /**
+   * Remove and return the first value of a list.
+   */
+  lpop(key: KeyArg<K>): OperationResult<M, T | null>;
+  /**
+   * Remove and return up to `count` values from the end of a list.
+   */
+  rpop(key: KeyArg<K>, count: number): OperationResult<M, T[]>;
+  /**
+   * Remove and return the last value of a list.
+   */
+  rpop(key: KeyArg<K>): OperationResult<M, T | null>;
+  /**
+   * Get a range of values from a list.
+   */
+  lrange(
+    key: KeyArg<K>,
+    start: number,
+    stop: number,
+    options?: RedisReadOptions
+  ): OperationResult<M, T[]>;
+  /**
+   * Get the length of a list.
+   */
+  llen(key: KeyArg<K>, options?: RedisReadOptions): OperationResult<M, number>;
+  /**
+   * Get the value at an index of a list; negative indexes count from the
+   * end.
+   */
+  lindex(
+    key: KeyArg<K>,
+    index: number,
+    options?: RedisReadOptions
+  ): OperationResult<M, T | null>;
+  /**
+   * Replace the value at an index of a list. Fails when the index is out
+   * of range.
+   */
+  lset(
+    key: KeyArg<K>,
+    index: number,
+    value: T,
+    options?: RedisWriteOptions
+  ): OperationResult<M, void>;
+  /**
+   * Insert a value before or after the first occurrence of `pivot`.
+   * Resolves to the list length, `-1` when `pivot` is not found, or `0`
+   * when the list does not exist.
+   */
+  linsert(
+    key: KeyArg<K>,
+    position: "before" | "after",
+    pivot: T,
+    value: T,
+    options?: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Remove occurrences of a value: the first `count` with a positive
+   * count, the last `-count` with a negative count, or all with `0`.
+   * Resolves to the number removed.
+   */
+  lrem(key: KeyArg<K>, count: number, value: T): OperationResult<M, number>;
+  /**
+   * Keep only the values from `start` to `stop`, inclusive.
+   */
+  ltrim(key: KeyArg<K>, start: number, stop: number): OperationResult<M, void>;
+  /**
+   * Find the indexes of up to `count` occurrences of a value; `0` finds
+   * all.
+   */
+  lpos(
+    key: KeyArg<K>,
+    value: T,
+    options: RedisLPosOptions & { count: number }
+  ): OperationResult<M, number[]>;
+  /**
+   * Find the index of an occurrence of a value, or `null`.
+   */
+  lpos(
+    key: KeyArg<K>,
+    value: T,
+    options?: Omit<RedisLPosOptions, "count">
+  ): OperationResult<M, number | null>;
+  lpos(
+    key: KeyArg<K>,
+    value: T,
+    options?: RedisLPosOptions
+  ): OperationResult<M, number | number[] | null>;
+  /**
+   * Move a value from one end of a list to an end of another list of the
+   * same entry. Resolves to the value moved, or `null` when the source is
+   * empty.
+   */
+  lmove(
+    key: KeyArg<K>,
+    destination: KeyArg<K>,
+    from: RedisListEnd,
+    to: RedisListEnd
+  ): OperationResult<M, T | null>;
+  /**
+   * Remove and return the first value of a list, waiting up to `timeout`
+   * seconds for one to be pushed; `0` waits indefinitely. Resolves to
+   * `null` on timeout. It waits on a connection of its own.
+   */
+  blpop(key: KeyArg<K>, timeout: number): OperationResult<M, T | null>;
+  /**
+   * Remove and return the last value of a list, waiting up to `timeout`
+   * seconds for one to be pushed; `0` waits indefinitely. Resolves to
+   * `null` on timeout. It waits on a connection of its own.
+   */
+  brpop(key: KeyArg<K>, timeout: number): OperationResult<M, T | null>;
+  /**
+   * Move a value from one end of a list to an end of another list of the
+   * same entry, waiting up to `timeout` seconds for one to be pushed; `0`
+   * waits indefinitely. Resolves to the value moved, or `null` on timeout.
+   * It waits on a connection of its own.
+   */
+  blmove(
+    key: KeyArg<K>,
+    destination: KeyArg<K>,
+    from: RedisListEnd,
+    to: RedisListEnd,
+    timeout: number
+  ): OperationResult<M, T | null>;
+}
+
+/**
+ * An end of a list.
+ */
+export type RedisListEnd = "left" | "right";
+
+/**
+ * Options for finding values in a list with `lpos`.
+ */
+export interface RedisLPosOptions extends RedisReadOptions {
+  /**
+   * Which occurrence to find first: `2` skips the first, and negative
+   * ranks search from the end.
+   */
+  rank?: number;
+  /**
+   * Compare at most this many values.
+   */
+  maxLength?: number;
+  /**
+   * Find up to this many occurrences; `0` finds all.
+   */
+  count?: number;
+}
+
+/**
+ * Queue operations of lists declared with `.fifo()` or `.lifo()`. Values
+ * are pushed to the right end and popped from the left end of a FIFO
+ * queue, or the right end of a LIFO queue, so `maxLength` drops the oldest
+ * values of either.
+ * @template T The element type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisQueueOperations<
+  T = any,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> {
+  /**
+   * Add a list of values to a queue, with options for the write.
+   */
+  enqueue(
+    key: KeyArg<K>,
+    values: T[],
+    options: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Add values to a queue. Resolves to the queue length.
+   */
+  enqueue(key: KeyArg<K>, ...values: T[]): OperationResult<M, number>;
+  /**
+   * Remove and return the next value of a queue. With a `timeout`, waits
+   * up to that many seconds for one to be added, on a connection of its
+   * own; `0` waits indefinitely. Resolves to `null` when the queue is
+   * empty.
+   */
+  dequeue(key: KeyArg<K>, timeout?: number): OperationResult<M, T | null>;
+}
+
+/**
+ * A value reserved from a reliable queue, acknowledged by its `id`.
+ * @template T The element type.
+ */
+export interface QueueReservation<T> {
+  readonly id: string;
+  readonly value: T;
+}
+
+/**
+ * Operations of queues declared `.reliable()`. A reserved value is kept
+ * under a unique reservation id in the `{<key>}:reservations` hash, and
+ * its visibility deadline in the `{<key>}:reserved` sorted set, until it
+ * is acknowledged. The braces keep them in the slot of the queue.
+ * @template T The element type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisReliableQueueOperations<
+  T = any,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> {
+  /**
+   * Remove the next value of a queue and reserve it. With a `timeout`,
+   * waits up to that many seconds for one to be added, on a connection of
+   * its own; `0` waits indefinitely. Resolves to `null` when the queue is
+   * empty.
+   */
+  reserve(
+    key: KeyArg<K>,
+    timeout?: number
+  ): OperationResult<M, QueueReservation<T> | null>;
+  /**
+   * Acknowledge a reservation by its id, removing it. Resolves to `false`
+   * if it was not reserved, for example because it was recovered after
+   * its visibility timeout.
+   */
+  ack(key: KeyArg<K>, id: string): OperationResult<M, boolean>;
+  /**
+   * Return the reserved values whose visibility timeout has passed to the
+   * queue, to be served next, with any value a blocked `reserve` moved but
+   * did not get to reserve. Resolves to the number of values returned.
+   */
+  recover(key: KeyArg<K>): OperationResult<M, number>;
+}
+
+/**
+ * Operations for Redis set types.
  * @template T The element type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisSetOperations<
+  T = any,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> extends RedisExpiryOperations<K, M> {
+  /**
+   * Add a list of members to a set, with options for the write.
+   */
+  sadd(
+    key: KeyArg<K>,
+    members: T[],
+    options: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Add one or more members to a set.
+   */
+  sadd(key: KeyArg<K>, ...members: T[]): OperationResult<M, number>;
+  /**
+   * Remove one or more members from a set.
+   */
+  srem(key: KeyArg<K>, ...members: T[]): OperationResult<M, number>;
+  /**
+   * Get all members of a set.
+   */
+  smembers(key: KeyArg<K>, options?: RedisReadOptions): OperationResult<M, T[]>;
+  /**
+   * Check if a value is a member of a set.
+   */
+  sismember(
+    key: KeyArg<K>,
+    member: T,
+    options?: RedisReadOptions
+  ): OperationResult<M, boolean>;
+  /**
+   * Get the number of members in a set.
+   */
+  scard(key: KeyArg<K>, options?: RedisReadOptions): OperationResult<M, number>;
+}
+
+/**
+ * A sorted set member with its score.
+ * @template T The member type.
+ */
+export interface ScoredMember<T> {
+  readonly member: T;
+  readonly score: number;
+}
+
+/**
+ * A bound of a score range: a number, included, or a number after `(`,
+ * excluded, e.g. `"(5"`. Use `Infinity` and `-Infinity` for no bound.
+ */
+export type RedisScoreBound = number | `(${number}`;
+
+/**
+ * A bound of a lexicographical range of stored members: a member after
+ * `[`, included, or `(`, excluded, e.g. `"[a"`. Use `"-"` and `"+"` for no
+ * bound.
+ */
+export type RedisLexBound = "-" | "+" | `[${string}` | `(${string}`;
+
+/**
+ * Options for adding sorted set members. At most one of `nx` and `xx`, and
+ * one of `gt` and `lt`, can be set, and `nx` not with either of those.
+ */
+export interface RedisZAddOptions extends RedisWriteOptions {
+  /**
+   * Only add new members.
+   */
+  nx?: boolean;
+  /**
+   * Only update existing members.
+   */
+  xx?: boolean;
+  /**
+   * Only update a score to a greater one.
+   */
+  gt?: boolean;
+  /**
+   * Only update a score to a lesser one.
+   */
+  lt?: boolean;
+  /**
+   * Count the members whose score changed as well as those added.
+   */
+  ch?: boolean;
+}
+
+/**
+ * Options for reading a range of a sorted set.
+ */
+export interface RedisZRangeOptions extends RedisReadOptions {
+  /**
+   * Order from the highest score to the lowest.
+   */
+  rev?: boolean;
+  /**
+   * Read each member with its score.
+   */
+  withScores?: boolean;
+}
+
+/**
+ * Options for reading a range of a sorted set by score or member.
+ */
+export interface RedisZRangeByOptions extends RedisZRangeOptions {
+  /**
+   * Skip `offset` members of the range and read at most `count`.
+   */
+  limit?: { offset: number; count: number };
+}
+
+/**
+ * Operations for Redis sorted set (zset) types.
+ * @template T The element type.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisSortedSetOperations<
+  T = any,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> extends RedisExpiryOperations<K, M> {
+  /**
+   * Add a member with a score to a sorted set, or update its score.
+   * Resolves to the number of members added, or changed with `ch`.
+   */
+  zadd(
+    key: KeyArg<K>,
+    score: number,
+    member: T,
+    options?: RedisZAddOptions
+  ): OperationResult<M, number>;
+  /**
+   * Add members with their scores to a sorted set, or update their scores.
+   * Resolves to the number of members added, or changed with `ch`.
+   */
+  zadd(
+    key: KeyArg<K>,
+    members: ScoredMember<T>[],
+    options?: RedisZAddOptions
+  ): OperationResult<M, number>;
+  /**
+   * Increment the score of a member, adding it when missing. Resolves to
+   * the new score.
+   */
+  zincrby(
+    key: KeyArg<K>,
+    increment: number,
+    member: T,
+    options?: RedisWriteOptions
+  ): OperationResult<M, number>;
+  /**
+   * Remove one or more members from a sorted set.
+   */
+  zrem(key: KeyArg<K>, ...members: T[]): OperationResult<M, number>;
+  /**
+   * Get a range of members from a sorted set by index, with their scores.
+   */
+  zrange(
+    key: KeyArg<K>,
+    start: number,
+    stop: number,
+    options: RedisZRangeOptions & { withScores: true }
+  ): OperationResult<M, ScoredMember<T>[]>;
+  /**
+   * Get a range of members from a sorted set by index.
+   */
+  zrange(
+    key: KeyArg<K>,
+    start: number,
+    stop: number,
+    options?: RedisZRangeOptions & { withScores?: false }
+  ): OperationResult<M, T[]>;
+  /**
+   * Get the members with a score between `min` and `max`, with their
+   * scores. With `rev` they are read from `max` down to `min`.
+   */
+  zrangeByScore(
+    key: KeyArg<K>,
+    min: RedisScoreBound,
+    max: RedisScoreBound,
+    options: RedisZRangeByOptions & { withScores: true }
+  ): OperationResult<M, ScoredMember<T>[]>;
+  /**
+   * Get the members with a score between `min` and `max`. With `rev` they
+   * are read from `max` down to `min`.
+   */
+  zrangeByScore(
+    key: KeyArg<K>,
+    min: RedisScoreBound,
+    max: RedisScoreBound,
+    options?: RedisZRangeByOptions & { withScores?: false }
+  ): OperationResult<M, T[]>;
+  /**
+   * Get the members between `min` and `max` as stored, in a sorted set
+   * whose members all have the same score. With `rev` they are read from
+   * `max` down to `min`.
+   */
+  zrangeByLex(
+    key: KeyArg<K>,
+    min: RedisLexBound,
+    max: RedisLexBound,
+    options?: Omit<RedisZRangeByOptions, "withScores">
+  ): OperationResult<M, T[]>;
+  /**
+   * Count the members with a score between `min` and `max`.
+   */
+  zcount(
+    key: KeyArg<K>,
+    min: RedisScoreBound,
+    max: RedisScoreBound,
+    options?: RedisReadOptions
+  ): OperationResult<M, number>;
+  /**
+   * Get the number of members in a sorted set.
+   */
+  zcard(key: KeyArg<K>, options?: RedisReadOptions): OperationResult<M, number>;
+  /**
+   * Get the rank of a member in a sorted set, from the lowest score.
+   */
+  zrank(
+    key: KeyArg<K>,
+    member: T,
+    options?: RedisReadOptions
+  ): OperationResult<M, number | null>;
+  /**
+   * Get the rank of a member in a sorted set, from the highest score.
+   */
+  zrevrank(
+    key: KeyArg<K>,
+    member: T,
+    options?: RedisReadOptions
+  ): OperationResult<M, number | null>;
+  /**
+   * Get the score of a member in a sorted set.
+   */
+  zscore(
+    key: KeyArg<K>,
+    member: T,
+    options?: RedisReadOptions
+  ): OperationResult<M, number | null>;
+  /**
+   * Get the scores of members, `null` for those missing, in the order
+   * given.
+   */
+  zmscore(
+    key: KeyArg<K>,
+    ...members: T[]
+  ): OperationResult<M, (number | null)[]>;
+  /**
+   * Remove and return up to `count` members with the lowest scores.
+   */
+  zpopmin(key: KeyArg<K>, count: number): OperationResult<M, ScoredMember<T>[]>;
+  /**
+   * Remove and return the member with the lowest score.
+   */
+  zpopmin(key: KeyArg<K>): OperationResult<M, ScoredMember<T> | null>;
+  /**
+   * Remove and return up to `count` members with the highest scores.
+   */
+  zpopmax(key: KeyArg<K>, count: number): OperationResult<M, ScoredMember<T>[]>;
+  /**
+   * Remove and return the member with the highest score.
+   */
+  zpopmax(key: KeyArg<K>): OperationResult<M, ScoredMember<T> | null>;
+  /**
+   * Remove and return the member with the lowest score, waiting up to
+   * `timeout` seconds for one to be added; `0` waits indefinitely.
+   * Resolves to `null` on timeout. It waits on a connection of its own.
+   */
+  bzpopmin(
+    key: KeyArg<K>,
+    timeout: number
+  ): OperationResult<M, ScoredMember<T> | null>;
+  /**
+   * Remove and return the member with the highest score, waiting up to
+   * `timeout` seconds for one to be added; `0` waits indefinitely.
+   * Resolves to `null` on timeout. It waits on a connection of its own.
+   */
+  bzpopmax(
+    key: KeyArg<K>,
+    timeout: number
+  ): OperationResult<M, ScoredMember<T> | null>;
+}
+
+/**
+ * The fields of a stream entry.
+ * @template TFields The entry fields.
+ */
+export type StreamMessage<TFields extends Record<string, RedisHashField<any>>> =
+  HashValues<TFields>;
+
+/**
+ * An entry read from a stream.
+ * @template TFields The entry fields.
+ */
+export interface StreamEntry<
+  TFields extends Record<string, RedisHashField<any>>
+> {
+  readonly id: string;
+  readonly message: StreamMessage<TFields>;
+}
+
+/**
+ * How to trim a stream: keep at most `threshold` entries (`"MAXLEN"`), or
+ * drop entries with IDs lower than `threshold` (`"MINID"`).
+ */
+export interface StreamTrimOptions {
+  strategy: "MAXLEN" | "MINID";
+  threshold: number | string;
+  /**
+   * Trim with `~`, letting Redis keep a few extra entries for speed.
+   */
+  approximate?: boolean;
+  /**
+   * The maximum number of entries removed by an approximate trim.
+   */
+  limit?: number;
+}
+
+/**
+ * Options for reading new entries from a stream.
+ */
+export interface StreamReadOptions {
+  /**
+   * The maximum number of entries to return.
+   */
+  count?: number;
+  /**
+   * Wait up to this many milliseconds for entries, on a connection of its
+   * own; `0` waits indefinitely.
+   */
+  block?: number;
+}
+
+/**
+ * Options for reading entries as a consumer group member.
+ */
+export interface StreamReadGroupOptions extends StreamReadOptions {
+  /**
+   * The ID to read after. Defaults to `">"`, entries never delivered to
+   * the group; pass `"0"` to re-read this consumer's pending entries.
+   */
+  id?: string;
+  /**
+   * Do not add the delivered entries to the pending list.
+   */
+  noAck?: boolean;
+}
+
+/**
+ * A summary of the entries delivered to a group but not yet acknowledged.
+ */
+export interface StreamPendingSummary {
+  readonly pending: number;
+  readonly firstId: string | null;
+  readonly lastId: string | null;
+  readonly consumers: readonly { name: string; pending: number }[];
+}
+
+/**
+ * The result of claiming idle pending entries.
+ * @template TFields The entry fields.
+ */
+export interface StreamAutoClaimResult<
+  TFields extends Record<string, RedisHashField<any>>
+> {
+  /**
+   * The ID to pass as `start` to continue scanning, `"0-0"` when done.
+   */
+  readonly nextId: string;
+  readonly entries: StreamEntry<TFields>[];
+  /**
+   * IDs of pending entries that no longer exist in the stream.
+   */
+  readonly deletedIds: string[];
+}
+
+/**
+ * Operations for Redis stream types.
+ * @template TFields The entry fields.
+ * @template K The key declared on the schema entry.
+ * @template M How results are returned, see OperationResults.
+ */
+export interface RedisStreamOperations<
+  TFields extends Record<string, RedisHashField<any>>,
+  K extends RedisKey | undefined = undefined,
+  M extends ResultMode = "promise"
+> extends RedisExpiryOperations<K, M> {
+  /**
+   * Append an entry to a stream and return its ID. Every field without a
+   * default that is not marked `.optional()` must be given.
+   */
+  xadd(
+    key: KeyArg<K>,
+    message: HashInput<TFields>,
+    options?: { id?: string; trim?: StreamTrimOptions } & RedisWriteOptions
+  ): OperationResult<M, string>;
+  /**
+   * Get the entries with IDs between `start` and `end`, inclusive.
+   */
+  xrange(
+    key: KeyArg<K>,
+    start?: string,
+    end?: string,
+    options?: { count?: number } & RedisReadOptions
+  ): OperationResult<M, StreamEntry<TFields>[]>;
+  /**
+   * Get the entries with IDs between `end` and `start`, newest first.
+   */
+  xrevrange(
+    key: KeyArg<K>,
+    end?: string,
+    start?: string,
+    options?: { count?: number } & RedisReadOptions
+  ): OperationResult<M, StreamEntry<TFields>[]>;
+  /**
+   * Read the entries added after `id`. Use `"$"` with `block` to wait for
+   * new entries.
+   */
+  xread(
+    key: KeyArg<K>,
+    id: string,
+    options?: StreamReadOptions & RedisReadOptions
+  ): OperationResult<M, StreamEntry<TFields>[]>;
+  /**
+   * Get the number of entries in a stream.
+   */
+  xlen(key: KeyArg<K>, options?: RedisReadOptions): OperationResult<M, number>;
+  /**
+   * Trim a stream and return the number of entries removed.
+   */
+  xtrim(key: KeyArg<K>, trim: StreamTrimOptions): OperationResult<M, number>;
+  /**
+   * Create a consumer group reading from `id` (default `"$"`, new entries
+   * only).
+   */
+  xgroupCreate(
+    key: KeyArg<K>,
+    group: string,
+    id?: string,
+    options?: { mkStream?: boolean }
+  ): OperationResult<M, void>;
+  /**
+   * Read entries as a member of a consumer group.
+   */
+  xreadgroup(
+    key: KeyArg<K>,
+    group: string,
+    consumer: string,
+    options?: StreamReadGroupOptions
+  ): OperationResult<M, StreamEntry<TFields>[]>;
+  /**
+   * Acknowledge entries and return the number acknowledged.
+   */
+  xack(
+    key: KeyArg<K>,
+    group: string,
+    ...ids: string[]
+  ): OperationResult<M, number>;
+  /**
+   * Summarize the pending entries of a consumer group.
+   */
+  xpending(
+    key: KeyArg<K>,
+    group: string,
+    options?: RedisReadOptions
+  ): OperationResult<M, StreamPendingSummary>;
+  /**
+   * Transfer entries pending for at least `minIdleTime` milliseconds to
+   * `consumer`, scanning from `start` (default `"0-0"`).
+   */
+  xautoclaim(
+    key: KeyArg<K>,
+    group: string,
+    consumer: string,
+    minIdleTime: number,
+    start?: string,
+    options?: { count?: number }
+  ): OperationResult<M, StreamAutoClaimResult<TFields>>;
+}
+
+/**
+ * Stops a subscription. Calling it again has no effect.
+ */
+export type RedisUnsubscribe = () => Promise<void>;
+
+/**
+ * Operations for pub/sub channels with a fixed name.
+ * @template T The message payload type.
+ */
+export interface RedisChannelOperations<T> {
+  /**
+   * Publish a message and return the number of subscribers that received it.
+   */
+  publish(payload: T): Promise<number>;
+  /**
+   * Call a handler for every message published to the channel.
+   */
+  subscribe(
+    handler: (payload: T) => void | Promise<void>
+  ): Promise<RedisUnsubscribe>;
+}
+
+/**
+ * Operations for pub/sub channels named by a key pattern.
+ * @template T The message payload type.
+ * @template P The channel pattern string.
+ */
+export interface RedisPatternChannelOperations<T, P extends string> {
+  /**
+   * Publish a message to the channel built from the pattern parameters.
+   */
+  publish(params: KeyPatternParams<P>, payload: T): Promise<number>;
+  /**
+   * Call a handler for every message published to the channel built from
+   * the pattern parameters.
+   */
+  subscribe(
+    params: KeyPatternParams<P>,
+    handler: (payload: T) => void | Promise<void>
+  ): Promise<RedisUnsubscribe>;
+  /**
+   * Call a handler for every message published to any channel matching the
+   * pattern, with the parameters extracted from the channel name.
+   */
+  psubscribe(
+    handler: (
+      payload: T,
+      params: KeyPatternParams<P>,
+      channel: string
+    ) => void | Promise<void>
+  ): Promise<RedisUnsubscribe>;
+}
+
+import { createClient, createCluster, createSentinel } from "@redis/client";
+import { createHash, randomUUID } from "node:crypto";
+import type { ConnectionOptions } from "node:tls";
+import {
+  RedisCapabilityError,
+  RedisCommandError,
+  RedisConnectionError,
+  RedisConstraintError,
+  RedisCrossSlotError,
+  RedisDeserializationError,
+  RedisSchemaError,
+  RedisSerializationError,
+  RedisValidationError,
+  type RedisErrorContext,
+} from "./errors";
+
+import { SpanAttributes, withSpan, type TracerLike } from "./tracing";
+import { hashSlot, hashTagOf } from "./cluster";
+import {
+  parseSearchReply,
+  searchBuilder,
+  type RedisNumberCondition,
+  type RedisSearchBuilder,
+  type RedisSearchFieldType,
+  type RedisSearchOptions,
+  type RedisSearchQuery,
+  type RedisSearchResult,
+} from "./search";
+import {
+  nodeRedisClusterDriver,
+  nodeRedisDriver,
+  nodeRedisSentinelDriver,
+  type NodeRedisClientLike,
+  type NodeRedisSentinelLike,
+  type RedisCommand,
+  type RedisDriver,
+} from "./drivers";
+import {
+  createMemoryClock,
+  memoryDriver,
+  type MemoryClock,
+  type MemoryScript,
+} from "./memory";
+
+export * from "./errors";
+export * from "./tracing";
+export * from "./drivers";
+export * from "./memory";
+export * from "./cluster";
+export * from "./search";
+
+/**
+ * A logger the client reports to. `console` satisfies this interface.
+ */
+export interface RedisLogger {
+  debug?(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+}
+
+/**
+ * Describes a schema operation about to be sent to Redis.
+ */
+export interface RedisCommandEvent {
+  readonly schemaKey: string;
+  /**
+   * The schema operation, e.g. `"hset"`.
+   */
+  readonly operation: string;
+  /**
+   * The Redis commands the operation sends, e.g. `["HSET", "EXPIRE"]`.
+   */
+  readonly commands: readonly string[];
+  readonly key: string;
+  /**
+   * Size in bytes of the arguments sent.
+   */
+  readonly payloadSize: number;
+}
+
+/**
+ * Describes a completed schema operation.
+ */
+export interface RedisResultEvent extends RedisCommandEvent {
+  /**
+   * Time in milliseconds from sending the commands to the decoded result.
+   */
+  readonly duration: number;
+  /**
+   * Size in bytes of the replies received.
+   */
+  readonly resultSize: number;
+}
+
+/**
+ * Describes a failed schema operation.
+ */
+export interface RedisErrorEvent extends RedisCommandEvent {
+  readonly duration: number;
+  readonly error: RedisSchemaError;
+}
+
+/**
+ * Describes a connection state change.
+ */
+export interface RedisConnectionEvent {
+  /**
+   * Time in milliseconds the connect or disconnect took.
+   */
+  readonly duration: number;
+}
+
+/**
+ * The state of the client's connection. `"reconnecting"` is entered when
+ * an established connection drops and the client retries on its own.
+ */
+export type RedisConnectionState =
+  | "disconnected"
+  | "connecting"
+  | "ready"
+  | "reconnecting";
+
+/**
+ * Describes a transition between connection states.
+ */
+export interface RedisConnectionStateEvent {
+  readonly state: RedisConnectionState;
+  readonly previous: RedisConnectionState;
+  /**
+   * The error that caused the transition, if any.
+   */
+  readonly error?: unknown;
+}
+
+/**
+ * Where and how to connect when the client creates its own
+ * `@redis/client` connection.
+ */
+export interface RedisConnectionOptions {
+  /**
+   * A connection string. The parts it specifies take precedence over the
+   * options below.
+   */
+  url?: string;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  /**
+   * The database index to select.
+   */
+  database?: number;
+  /**
+   * Connect over TLS, optionally with options such as certificates.
+   */
+  tls?: boolean | ConnectionOptions;
+  /**
+   * Time in milliseconds to wait for a connection before failing.
+   */
+  connectTimeout?: number;
+  /**
+   * Delay in milliseconds before a reconnect attempt, starting at 0.
+   * Defaults to an exponential backoff capped at 5 seconds.
+   */
+  backoff?: (attempt: number) => number;
+  /**
+   * How many times to retry a dropped connection before giving up.
+   * Unlimited when omitted.
+   */
+  maxRetries?: number;
+  /**
+   * Queue commands while disconnected and send them once reconnected,
+   * instead of failing them. Defaults to `true`.
+   */
+  offlineQueue?: boolean;
+}
+
+/**
+ * The nodes of a Redis Cluster and how to connect to them. The other nodes
+ * are discovered from the ones listed, and commands are routed to the node
+ * serving their key's slot.
+ */
+export interface RedisClusterOptions
+  extends Omit<RedisConnectionOptions, "url" | "host" | "port" | "database"> {
+  /**
+   * Nodes to discover the cluster from, as connection strings such as
+   * `"redis://127.0.0.1:7000"` or hosts and ports.
+   */
+  nodes: readonly (string | { host: string; port: number })[];
+}
+
+/**
+ * The Sentinels monitoring a primary, and how to connect to the primary
+ * and its replicas. The client follows failovers to the new primary.
+ */
+export interface RedisSentinelOptions
+  extends Omit<RedisConnectionOptions, "url" | "host" | "port"> {
+  /**
+   * Sentinels to discover the primary and its replicas from.
+   */
+  sentinels: readonly { host: string; port: number }[];
+  /**
+   * The name the Sentinels monitor the primary under, e.g. `"mymaster"`.
+   */
+  name: string;
+  /**
+   * The password of the Sentinels, when they require one.
+   */
+  sentinelPassword?: string;
+}
+
+/**
+ * Where the client connects: a connection string, connection options, the
+ * nodes of a Redis Cluster, Sentinels, or a driver wrapping an existing
+ * client, e.g. `ioredisDriver(new Redis())`.
+ */
+export type RedisConnection =
+  | string
+  | RedisConnectionOptions
+  | RedisClusterOptions
+  | RedisSentinelOptions
+  | RedisDriver;
+
+/**
+ * Options for a schema client.
+ * @template TScripts The scripts registered on the client.
+ */
+export interface RedisClientOptions<
+  TScripts extends Record<string, RedisScript<any, any, any>> = {}
+> {
+  /**
+   * Where to report errors. Nothing is logged when omitted.
+   */
+  logger?: RedisLogger;
+  /**
+   * What to do when a stored value fails to parse or validate. Entries can
+   * override this with `.validationFailure()`. Defaults to `"throw"`.
+   */
+  validationFailure?: ValidationFailurePolicy;
+  /**
+   * Called whenever an invalid stored value is found, before the policy
+   * is applied.
+   */
+  onInvalid?: (event: InvalidValueEvent) => void;
+  /**
+   * Called before a schema operation sends its commands.
+   */
+  onCommand?: (event: RedisCommandEvent) => void;
+  /**
+   * Called after a schema operation completes.
+   */
+  onResult?: (event: RedisResultEvent) => void;
+  /**
+   * Called after a schema operation fails.
+   */
+  onError?: (event: RedisErrorEvent) => void;
+  /**
+   * Called after the client connects.
+   */
+  onConnect?: (event: RedisConnectionEvent) => void;
+  /**
+   * Called after the client disconnects.
+   */
+  onDisconnect?: (event: RedisConnectionEvent) => void;
+  /**
+   * Called whenever the connection state changes, including reconnects
+   * the underlying client runs on its own.
+   */
+  onStateChange?: (event: RedisConnectionStateEvent) => void;
+  /**
+   * An OpenTelemetry tracer. Each schema operation becomes a client span
+   * named after the entry and operation, e.g. `"userSettings.hset"`.
+   */
+  tracer?: TracerLike;
+  /**
+   * Send the operations issued in the same tick together in one round
+   * trip, including the TTL and size-limit commands they issue.
+   */
+  autoPipeline?: boolean;
+  /**
+   * Scripts from `defineScript`, callable as `client.scripts.name()`.
+   */
+  scripts?: TScripts;
+  /**
+   * Where read-only operations such as `get`, `hgetall` or `lrange` are
+   * sent. `"replica"` sends them to replicas when the connection has any,
+   * e.g. through Sentinel; operations override it with their
+   * `consistency` option. Defaults to `"primary"`.
+   */
+  consistency?: RedisConsistency;
+  /**
+   * Index the entries declared with `.index()` with RediSearch, instead of
+   * the indexes the client keeps itself, and enable `search()`. Indexes are
+   * created on the first query. Indexed JSON entries are then stored as
+   * RedisJSON documents. Requires the RediSearch and RedisJSON modules, e.g. Redis
+   * Stack, and is not supported on Redis Cluster.
+   */
+  search?: boolean;
+}
+
+/**
+ * Describes an invalid value found while reading.
+ */
+export interface InvalidValueEvent {
+  readonly schemaKey: string;
+  readonly key: string;
+  readonly field?: string;
+  /**
+   * The raw value as stored in Redis.
+   */
+  readonly value: string;
+  readonly error: RedisDeserializationError | RedisValidationError;
+  readonly policy: ValidationFailurePolicy;
+}
+
+/**
+ * The context of a single schema operation.
+ */
+interface OperationContext {
+  readonly schemaKey: string;
+  readonly operation: string;
+  readonly command: string;
+  readonly key: string;
+  readonly pattern?: string;
+  /**
+   * Whether the operation is sent in a batch with others, in a transaction
+   * or pipeline, where its commands cannot depend on earlier replies.
+   */
+  readonly batched?: boolean;
+}
+
+/**
+ * An operation queued in a transaction or pipeline.
+ */
+interface QueuedEntry {
+  readonly token: QueuedOperation;
+  readonly op: OperationContext;
+  readonly plan: OperationPlan;
+}
+
+/**
+ * The commands a schema operation sends and how its result is read from
+ * their replies. Building the plan before sending anything lets the client
+ * validate writes and measure payloads up front.
+ * @template R The operation result.
+ */
+interface OperationPlan<R = any> {
+  readonly commands: readonly RedisCommand[];
+  readonly result: (replies: unknown[]) => R | Promise<R>;
+  /**
+   * Commands that depend on the replies, sent after the plan completes.
+   */
+  readonly followUp?: (replies: unknown[]) => readonly RedisCommand[];
+}
+
+/**
+ * The operations that query the indexes of an entry rather than one key.
+ * Their context holds the key of the index of the field given first, or
+ * the name of the RediSearch index when searching.
+ */
+const INDEX_OPERATIONS = new Set(["findBy", "findRange", "countBy", "search"]);
+
+/**
+ * The implementation shape of an operations interface: each method receives
+ * the operation context in place of the key argument and returns a plan.
+ * Index queries receive the context in addition to their arguments.
+ * @template TOps The operations interface.
+ */
+type OperationImpl<TOps> = {
+  [M in keyof TOps]: M extends "findBy" | "findRange" | "countBy" | "search"
+    ? TOps[M] extends (...args: infer A) => infer R
+      ? (op: OperationContext, ...args: A) => OperationPlan<Awaited<R>>
+      : never
+    : TOps[M] extends (key: any, ...args: infer A) => infer R
+    ? (op: OperationContext, ...args: A) => OperationPlan<Awaited<R>>
+    : never;
+};
+
+/**
+ * The implementation shape of the operations of any hash entry.
+ */
+type HashOperationsImpl = OperationImpl<
+  RedisHashOperations<
+    Record<string, RedisHashField<any>>,
+    undefined,
+    "promise",
+    string
+  >
+>;
+
+/**
+ * The implementation shape of the operations of any stream entry.
+ */
+type StreamOperationsImpl = OperationImpl<
+  RedisStreamOperations<Record<string, RedisHashField<any>>>
+>;
+
+/**
+ * Pops random members until a set is within its maximum size.
+ */
+const TRIM_SET_SCRIPT = `local excess = redis.call("SCARD", KEYS[1]) - tonumber(ARGV[1])
+if excess > 0 then redis.call("SPOP", KEYS[1], excess) end
+return excess`;
+
+/**
+ * `TRIM_SET_SCRIPT` for the memory driver.
+ */
+const trimSet: MemoryScript = (call, [key], [maxSize]) => {
+  const excess = (call("sCard", key) as number) - Number(maxSize);
+  if (excess > 0) call("sPop", key, excess);
+  return excess;
+};
+
+// The index scripts receive the hash key, followed by the index key of
+// each indexed field, and the number of indexed fields, followed by each
+// indexed field and its kind. Every index is a sorted set: of hash keys
+// scored by the value for `range` fields, or for `value` fields, of hash
+// keys prefixed with the length and value, to find them by prefix.
+const INDEX_SCRIPT_PRELUDE = `local indexed = {}
+local count = tonumber(ARGV[1])
+for i = 1, count do
+  indexed[ARGV[2 * i]] = { kind = ARGV[1 + 2 * i], key = KEYS[1 + i] }
+end
+local first = 2 + 2 * count
+local function member(value) return #value .. ":" .. value .. KEYS[1] end
+local function unindex(field)
+  local old = redis.call("HGET", KEYS[1], field)
+  if not old then return end
+  local index = indexed[field]
+  redis.call("ZREM", index.key, index.kind == "range" and KEYS[1] or member(old))
+end
+`;
+
+/**
+ * Sets hash fields, moving the hash between the indexes of the indexed
+ * fields written.
+ */
+const INDEX_HSET_SCRIPT = `${INDEX_SCRIPT_PRELUDE}
+for i = first, #ARGV, 2 do
+  local field, value = ARGV[i], ARGV[i + 1]
+  local index = indexed[field]
+  if index then
+    unindex(field)
+    if index.kind == "range" then
+      redis.call("ZADD", index.key, value, KEYS[1])
+    else
+      redis.call("ZADD", index.key, 0, member(value))
+    end
+  end
+  redis.call("HSET", KEYS[1], field, value)
+end
+return 0`;
+
+/**
+ * Deletes hash fields, removing the hash from the indexes of the indexed
+ * fields deleted.
+ */
+const INDEX_HDEL_SCRIPT = `${INDEX_SCRIPT_PRELUDE}
+local deleted = 0
+for i = first, #ARGV do
+  if indexed[ARGV[i]] then unindex(ARGV[i]) end
+  deleted = deleted + redis.call("HDEL", KEYS[1], ARGV[i])
+end
+return deleted`;
+
+/**
+ * Deletes a hash, removing it from every index.
+ */
+const INDEX_DEL_SCRIPT = `${INDEX_SCRIPT_PRELUDE}
+for field in pairs(indexed) do unindex(field) end
+return redis.call("DEL", KEYS[1])`;
+
+/**
+ * Finds the hashes in an index whose field holds the value in `ARGV[4]`,
+ * or a number from `ARGV[4]` to `ARGV[5]`, with their fields, or counts
+ * them. Index entries the hash no longer matches, because it expired or
+ * changed without the index scripts, are removed instead.
+ */
+const INDEX_FIND_SCRIPT = `local field, kind, mode = ARGV[1], ARGV[2], ARGV[3]
+local function bound(value)
+  if value == "-inf" then return -math.huge end
+  if value == "+inf" then return math.huge end
+  return tonumber(value)
+end
+local members, prefix
+if kind == "range" then
+  members = redis.call("ZRANGEBYSCORE", KEYS[1], ARGV[4], ARGV[5])
+else
+  prefix = #ARGV[4] .. ":" .. ARGV[4]
+  members = redis.call("ZRANGEBYLEX", KEYS[1], "[" .. prefix, "[" .. prefix .. "\\255")
+end
+local found = {}
+for _, entry in ipairs(members) do
+  local key = prefix and string.sub(entry, #prefix + 1) or entry
+  local value = redis.call("HGET", key, field)
+  local matches
+  if kind == "range" then
+    local number = value and tonumber(value)
+    matches = number and number >= bound(ARGV[4]) and number <= bound(ARGV[5])
+  else
+    matches = value == ARGV[4]
+  end
+  if not matches then
+    redis.call("ZREM", KEYS[1], entry)
+  elseif mode == "count" then
+    found[#found + 1] = key
+  else
+    found[#found + 1] = { key, redis.call("HGETALL", key) }
+  end
+end
+if mode == "count" then return #found end
+return found`;
+
+/**
+ * Reads the arguments of the index scripts for the memory driver.
+ * @param keys The script keys.
+ * @param args The script arguments.
+ */
+const indexScriptArgs = (keys: string[], args: string[]) => {
+  const count = Number(args[0]);
+  const indexed = new Map<string, { kind: string; key: string }>();
+  for (let i = 0; i < count; i++) {
+    indexed.set(args[1 + 2 * i]!, {
+      kind: args[2 + 2 * i]!,
+      key: keys[1 + i]!,
+    });
+  }
+  return { indexed, rest: args.slice(1 + 2 * count) };
+};
+
+/**
+ * The member of a hash in the index of a `value` field, as the index
+ * scripts write it: the byte length of the value, the value and the key.
+ */
+const indexMember = (value: string, key: string) =>
+  `${Buffer.byteLength(value)}:${value}${key}`;
+
+/**
+ * Removes a hash from the index of a field, for the memory driver.
+ */
+const unindex = (
+  call: Parameters<MemoryScript>[0],
+  key: string,
+  field: string,
+  index: { kind: string; key: string }
+) => {
+  const old = call("hGet", key, field) as string | null;
+  if (old === null) return;
+  call("zRem", index.key, index.kind === "range" ? key : indexMember(old, key));
+};
+
+/**
+ * `INDEX_HSET_SCRIPT` for the memory driver.
+ */
+const indexHset: MemoryScript = (call, keys, args) => {
+  const key = keys[0]!;
+  const { indexed, rest } = indexScriptArgs(keys, args);
+  for (let i = 0; i < rest.length; i += 2) {
+    const [field, value] = [rest[i]!, rest[i + 1]!];
+    const index = indexed.get(field);
+    if (index) {
+      unindex(call, key, field, index);
+      call(
+        "zAdd",
+        index.key,
+        index.kind === "range"
+          ? { score: Number(value), value: key }
+          : { score: 0, value: indexMember(value, key) }
+      );
+    }
+    call("hSet", key, field, value);
+  }
+  return 0;
+};
+
+/**
+ * `INDEX_HDEL_SCRIPT` for the memory driver.
+ */
+const indexHdel: MemoryScript = (call, keys, args) => {
+  const key = keys[0]!;
+  const { indexed, rest } = indexScriptArgs(keys, args);
+  let deleted = 0;
+  for (const field of rest) {
+    const index = indexed.get(field);
+    if (index) unindex(call, key, field, index);
+    deleted += call("hDel", key, field) as number;
+  }
+  return deleted;
+};
+
+/**
+ * `INDEX_DEL_SCRIPT` for the memory driver.
+ */
+const indexDel: MemoryScript = (call, keys, args) => {
+  const key = keys[0]!;
+  const { indexed } = indexScriptArgs(keys, args);
+  for (const [field, index] of indexed) unindex(call, key, field, index);
+  return call("del", key);
+};
+
+/**
+ * `INDEX_FIND_SCRIPT` for the memory driver.
+ */
+const indexFind: MemoryScript = (call, [index], args) => {
+  const [field, kind, mode, min, max] = args;
+  const bound = (value: string) =>
+    value.endsWith("inf") ? Number(`${value.slice(0, -3)}Infinity`) : +value;
+  const prefix = kind === "range" ? undefined : indexMember(min!, "");
+  const members =
+    kind === "range"
+      ? (call("zRange", index, min, max, { BY: "SCORE" }) as string[])
+      : (call("zRange", index, 0, -1) as string[]).filter((entry) =>
+          entry.startsWith(prefix!)
+        );
+  const found: unknown[] = [];
+  for (const entry of members) {
+    const key = prefix === undefined ? entry : entry.slice(prefix.length);
+    const value = call("hGet", key, field) as string | null;
+    const matches =
+      kind === "range"
+        ? value !== null &&
+          Number(value) >= bound(min!) &&
+          Number(value) <= bound(max!)
+        : value === min;
+    if (!matches) {
+      call("zRem", index, entry);
+    } else if (mode === "count") {
+      found.push(key);
+    } else {
+      const hash = call("hGetAll", key) as Record<string, string>;
+      found.push([key, Object.entries(hash).flat()]);
+    }
+  }
+  return mode === "count" ? found.length : found;
+};
+
+// The queue scripts receive the queue, the list a blocked reserve moves
+// values to, the hash of reserved values by id and the sorted set of
+// reservation deadlines, in milliseconds by the server clock
+const QUEUE_SCRIPT_PRELUDE = `local time = redis.call("TIME")
+local now = time[1] * 1000 + math.floor(time[2] / 1000)
+`;
+
+/**
+ * Takes a value and reserves it as `ARGV[3]` for `ARGV[2]` milliseconds.
+ * With `ARGV[1]` `LPOP` or `RPOP`, the value is popped from the queue;
+ * with `LREM`, it is `ARGV[4]`, removed from the processing list where a
+ * blocked move put it, and not reserved once `recover` returned it.
+ */
+const QUEUE_RESERVE_SCRIPT = `${QUEUE_SCRIPT_PRELUDE}
+local value = ARGV[4]
+if ARGV[1] == "LREM" then
+  if redis.call("LREM", KEYS[2], 1, value) == 0 then return false end
+else
+  value = redis.call(ARGV[1], KEYS[1])
+  if not value then return false end
+end
+redis.call("HSET", KEYS[3], ARGV[3], value)
+redis.call("ZADD", KEYS[4], now + tonumber(ARGV[2]), ARGV[3])
+return value`;
+
+/**
+ * Pushes the values reserved past their deadline, then the values left in
+ * the processing list, back to the queue with `ARGV[1]`, `LPUSH` or
+ * `RPUSH`, so they are popped next.
+ */
+const QUEUE_RECOVER_SCRIPT = `${QUEUE_SCRIPT_PRELUDE}
+local recovered = 0
+for _, id in ipairs(redis.call("ZRANGEBYSCORE", KEYS[4], "-inf", now)) do
+  redis.call("ZREM", KEYS[4], id)
+  local value = redis.call("HGET", KEYS[3], id)
+  if value then
+    redis.call("HDEL", KEYS[3], id)
+    redis.call(ARGV[1], KEYS[1], value)
+    recovered = recovered + 1
+  end
+end
+local value = redis.call("RPOP", KEYS[2])
+while value do
+  redis.call(ARGV[1], KEYS[1], value)
+  recovered = recovered + 1
+  value = redis.call("RPOP", KEYS[2])
+end
+return recovered`;
+
+// The current time in milliseconds by the memory driver clock
+const memoryNow = (call: Parameters<MemoryScript>[0]) => {
+  const [seconds, micros] = call("time") as [string, string];
+  return Number(seconds) * 1000 + Math.floor(Number(micros) / 1000);
+};
+
+/**
+ * `QUEUE_RESERVE_SCRIPT` for the memory driver.
+ */
+const queueReserve: MemoryScript = (call, keys, args) => {
+  const [take, visibility, id, moved] = args as string[];
+  const [queue, processing, reservations, reserved] = keys;
+  let value: unknown = moved;
+  if (take === "LREM") {
+    if (call("lRem", processing, 1, moved) === 0) return null;
+  } else {
+    value = call(take === "LPOP" ? "lPop" : "rPop", queue);
+    if (value === null) return null;
+  }
+  call("hSet", reservations, id, value);
+  call("zAdd", reserved, {
+    score: memoryNow(call) + Number(visibility),
+    value: id,
+  });
+  return value;
+};
+
+/**
+ * `QUEUE_RECOVER_SCRIPT` for the memory driver.
+ */
+const queueRecover: MemoryScript = (call, keys, [push]) => {
+  const [queue, processing, reservations, reserved] = keys;
+  const pushBack = (value: unknown) =>
+    call(push === "LPUSH" ? "lPush" : "rPush", queue, value);
+  const expired = call("zRange", reserved, "-inf", String(memoryNow(call)), {
+    BY: "SCORE",
+  }) as string[];
+  let recovered = 0;
+  for (const id of expired) {
+    call("zRem", reserved, id);
+    const value = call("hGet", reservations, id);
+    if (value !== null) {
+      call("hDel", reservations, id);
+      pushBack(value);
+      recovered++;
+    }
+  }
+  for (let value; (value = call("rPop", processing)) !== null; recovered++) {
+    pushBack(value);
+  }
+  return recovered;
+};
+
+/**
+ * The read-only operations, which can be sent to replicas, with the
+ * position of their `RedisReadOptions` argument after the key.
+ */
+const READ_OPERATIONS: Record<string, number> = {
+  get: 0,
+  exists: 0,
+  hget: 1,
+  hgetall: 0,
+  hexists: 1,
+  lrange: 2,
+  llen: 0,
+  lindex: 1,
+  lpos: 1,
+  smembers: 0,
+  sismember: 1,
+  scard: 0,
+  zrange: 2,
+  zrangeByScore: 2,
+  zrangeByLex: 2,
+  zcount: 2,
+  zcard: 0,
+  zrank: 1,
+  zrevrank: 1,
+  zscore: 1,
+  xrange: 2,
+  xrevrange: 2,
+  xread: 1,
+  xlen: 0,
+  xpending: 1,
+};
+
+/**
+ * The operations that block their connection while they wait, by whether
+ * the arguments after the key ask them to wait.
+ */
+const BLOCKING_OPERATIONS: Record<string, (args: any[]) => boolean> = {
+  blpop: () => true,
+  brpop: () => true,
+  blmove: () => true,
+  dequeue: ([timeout]) => timeout !== undefined,
+  reserve: ([timeout]) => timeout !== undefined,
+  bzpopmin: () => true,
+  bzpopmax: () => true,
+  xread: ([, options]) => options?.block !== undefined,
+  xreadgroup: ([, , options]) => options?.block !== undefined,
+};
+
+/**
+ * Get the condition of an expiry as the mode argument of EXPIRE, if any.
+ * @param options The expiry conditions.
+ */
+function expireMode(options: RedisExpireOptions = {}): string[] {
+  const modes = (["nx", "xx", "gt", "lt"] as const).filter(
+    (mode) => options[mode]
+  );
+  if (modes.length > 1) {
+    throw new TypeError(
+      `Only one of nx, xx, gt and lt can be set, got ${modes.join(", ")}`
+    );
+  }
+  return modes.map((mode) => mode.toUpperCase());
+}
+
+/**
+ * Get the conditions of a ZADD as `@redis/client` takes them, if any.
+ * @param options The conditions.
+ */
+function zaddMode(
+  options: RedisZAddOptions = {}
+): { condition?: string; comparison?: string; CH?: boolean } | undefined {
+  if (options.nx && options.xx) {
+    throw new TypeError("Only one of nx and xx can be set");
+  }
+  if (options.gt && options.lt) {
+    throw new TypeError("Only one of gt and lt can be set");
+  }
+  if (options.nx && (options.gt || options.lt)) {
+    throw new TypeError("nx cannot be set with gt or lt");
+  }
+  if (!options.nx && !options.xx && !options.gt && !options.lt && !options.ch) {
+    return undefined;
+  }
+  return {
+    condition: options.nx ? "NX" : options.xx ? "XX" : undefined,
+    comparison: options.gt ? "GT" : options.lt ? "LT" : undefined,
+    CH: options.ch,
+  };
+}
+
+// What each command a server may reject as unknown needs: a later Redis
+// version or a module
+const COMMAND_REQUIREMENTS: Record<string, string> = {
+  HEXPIRE: "Redis 7.4 or later",
+  HTTL: "Redis 7.4 or later",
+  HPERSIST: "Redis 7.4 or later",
+  "FT.CREATE": "the RediSearch module",
+  "FT.SEARCH": "the RediSearch module",
+  "JSON.GET": "the RedisJSON module",
+  "JSON.SET": "the RedisJSON module",
+};
+
+/**
+ * Wrap a failed command in a RedisSchemaError. A command the server does
+ * not know becomes a RedisCapabilityError naming what it needs.
+ * @param context Where the command failed.
+ * @param cause The error the driver raised.
+ */
+function commandError(
+  context: RedisErrorContext,
+  cause: unknown
+): RedisSchemaError {
+  if (cause instanceof RedisSchemaError) return cause;
+  const unknown = /unknown command [`']([^`']+)[`']/i.exec(
+    cause instanceof Error ? cause.message : String(cause)
+  );
+  const name = unknown?.[1]!.toUpperCase();
+  if (name && COMMAND_REQUIREMENTS[name]) {
+    return new RedisCapabilityError(COMMAND_REQUIREMENTS[name]!, {
+      ...context,
+      command: name,
+      cause,
+    });
+  }
+  return new RedisCommandError({ ...context, cause });
+}
+
+/**
+ * Get the key of the index of a hash field. When the key of the entry
+ * declares a hash tag without placeholders, the index keys declare it too,
+ * so they share the slot of the hashes on Redis Cluster.
+ * @param schemaKey The schema entry.
+ * @param def The schema entry definition.
+ * @param field The indexed field.
+ */
+function indexKey(
+  schemaKey: string,
+  def: RedisDataType,
+  field: string
+): string {
+  const tag = def._key === undefined ? undefined : hashTagTemplate(def._key);
+  const prefix = tag && !/\{[^{}]+\}/.test(tag) ? `{${tag}}:` : "";
+  return `${prefix}${schemaKey}:index:${field}`;
+}
+
+/**
+ * Get the name of the RediSearch index of an entry.
+ * @param schemaKey The schema entry.
+ */
+function searchIndex(schemaKey: string): string {
+  return `${schemaKey}:search`;
+}
+
+// The most results RediSearch returns by default, and so the most hashes
+// findBy and findRange return when searching
+const SEARCH_MAX_RESULTS = 10000;
+
+/**
+ * Build the FT.CREATE command of the RediSearch index of an entry, over
+ * the keys that start like its key pattern.
+ * @param schemaKey The schema entry.
+ * @param def The entry.
+ * @param on What the keys hold.
+ * @param fields How each field is indexed.
+ */
+function createSearchIndex(
+  schemaKey: string,
+  def: RedisDataType,
+  on: "HASH" | "JSON",
+  fields: Record<string, RedisSearchFieldType>
+): RedisCommand {
+  if (!isKeyPattern(def._key)) {
+    throw new TypeError(
+      `Entry "${schemaKey}" needs a key pattern to be searched`
+    );
+  }
+  const prefix = def._key.pattern.split(/\{[^{}]+\}/)[0]!;
+  return command("sendCommand", [
+    "FT.CREATE",
+    searchIndex(schemaKey),
+    "ON",
+    on,
+    "PREFIX",
+    "1",
+    prefix,
+    "SCHEMA",
+    ...Object.entries(fields).flatMap(([field, type]) => [
+      // JSON properties are indexed by path, under their name
+      ...(on === "JSON" ? [`$.${field}`, "AS"] : []),
+      field,
+      type.toUpperCase(),
+      "SORTABLE",
+    ]),
+  ]);
+}
+
+/**
+ * Build the FT.SEARCH command of a query.
+ * @param index The RediSearch index.
+ * @param query The query.
+ * @param options Paging and ordering.
+ */
+function searchCommand(
+  index: string,
+  query: RedisSearchQuery<any>,
+  options: RedisSearchOptions<any> = {}
+): RedisCommand {
+  return command("sendCommand", [
+    "FT.SEARCH",
+    index,
+    query.toString(),
+    ...(options.sortBy
+      ? ["SORTBY", options.sortBy, (options.order ?? "asc").toUpperCase()]
+      : []),
+    "LIMIT",
+    String(options.offset ?? 0),
+    String(options.limit ?? 10),
+    "DIALECT",
+    "2",
+  ]);
+}
+
+/**
+ * Format a number as a sorted set score bound, where infinities are
+ * written as `-inf` and `+inf`.
+ * @param value The bound.
+ */
+function scoreBound(value: unknown): string {
+  if (value === Infinity) return "+inf";
+  if (value === -Infinity) return "-inf";
+  return String(value);
+}
+
+/**
+ * Create a Redis command.
+ * @param method The client method name.
+ * @param args The method arguments.
+ */
+function command(method: string, ...args: unknown[]): RedisCommand {
+  return { method, args };
+}
+
+/**
+ * Approximate the size in bytes of command arguments or replies.
+ * @param value The value to measure.
+ */
+function sizeOf(value: unknown): number {
+  if (typeof value === "string") return Buffer.byteLength(value);
+  if (typeof value === "number") return String(value).length;
+  if (Array.isArray(value)) {
+    return value.reduce((size: number, item) => size + sizeOf(item), 0);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).reduce(
+      (size, [k, v]) => size + Buffer.byteLength(k) + sizeOf(v),
+      0
+    );
+  }
+  return 0;
+}
+
+/**
+ * Split the arguments of a variadic write into its values and options.
+ * Values given as one list are followed by the options, e.g.
+ * `lpush(key, [a, b], { ttl: 60 })`; otherwise every argument is a value.
+ * @param args The arguments after the key.
+ */
+function writeArgs(args: any[]): [any[], RedisWriteOptions | undefined] {
+  const [values, options] = args;
+  return args.length === 2 &&
+    Array.isArray(values) &&
+    typeof options === "object" &&
+    options !== null &&
+    !Array.isArray(options)
+    ? [values, options]
+    : [args, undefined];
+}
+
+/**
+ * Check whether a connection argument is a driver rather than connection
+ * options.
+ * @param connection The connection argument.
+ */
+function isDriver(connection: RedisConnection): connection is RedisDriver {
+  return typeof connection === "object" && "send" in connection;
+}
+
+/**
+ * Check whether connection options describe a Redis Cluster.
+ * @param connection The connection options.
+ */
+function isClusterOptions(
+  connection: RedisConnection
+): connection is RedisClusterOptions {
+  return typeof connection === "object" && "nodes" in connection;
+}
+
+/**
+ * Check whether connection options describe Sentinels.
+ * @param connection The connection options.
+ */
+function isSentinelOptions(
+  connection: RedisConnection
+): connection is RedisSentinelOptions {
+  return typeof connection === "object" && "sentinels" in connection;
+}
+
+/**
+ * Map the options shared by every kind of connection to `@redis/client`
+ * options.
+ * @param connection The connection options.
+ */
+function sharedOptions(
+  connection:
+    | RedisConnectionOptions
+    | RedisClusterOptions
+    | RedisSentinelOptions
+) {
+  const {
+    tls,
+    backoff = (attempt: number) => Math.min(50 * 2 ** attempt, 5000),
+    maxRetries,
+  } = connection;
+  return {
+    username: connection.username,
+    password: connection.password,
+    disableOfflineQueue: connection.offlineQueue === false,
+    socket: {
+      connectTimeout: connection.connectTimeout,
+      ...(tls ? { tls: true as const, ...(tls === true ? {} : tls) } : {}),
+      // Give up with the last error once the retries are used up
+      reconnectStrategy: (retries: number, cause: Error) =>
+        maxRetries !== undefined && retries >= maxRetries
+          ? cause
+          : backoff(retries),
+    },
+  };
+}
+
+/**
+ * Map connection options to `@redis/client` options.
+ * @param connection A connection string or connection options.
+ */
+function clientOptions(connection: string | RedisConnectionOptions) {
+  if (typeof connection === "string") return { url: connection };
+  const shared = sharedOptions(connection);
+  return {
+    ...shared,
+    url: connection.url,
+    database: connection.database,
+    socket: { host: connection.host, port: connection.port, ...shared.socket },
+  };
+}
+
+/**
+ * Map cluster options to `@redis/client` cluster options.
+ * @param connection The cluster options.
+ */
+function clusterOptions(connection: RedisClusterOptions) {
+  return {
+    rootNodes: connection.nodes.map((node) =>
+      typeof node === "string"
+        ? { url: node }
+        : { socket: { host: node.host, port: node.port } }
+    ),
+    defaults: sharedOptions(connection),
+  };
+}
+
+/**
+ * Map Sentinel options to `@redis/client` Sentinel options.
+ * @param connection The Sentinel options.
+ * @param replicaPoolSize The connections to open to each replica, which
+ * read-only commands are sent to when above 0.
  */
-export interface RedisSortedSetOperations<T = any> {
-  zadd(key: string, score: number, member: any): Promise<number>;
-  zrem(key: string, ...members: any[]): Promise<number>;
-  zrange(key: string, start: number, stop: number): Promise<any[]>;
-  zrank(key: string, member: any): Promise<number | null>;
-  zscore(key: string, member: any): Promise<number | null>;
+function sentinelOptions(
+  connection: RedisSentinelOptions,
+  replicaPoolSize: number
+) {
+  return {
+    name: connection.name,
+    sentinelRootNodes: connection.sentinels.map(({ host, port }) => ({
+      host,
+      port,
+    })),
+    nodeClientOptions: {
+      ...sharedOptions(connection),
+      database: connection.database,
+    },
+    sentinelClientOptions:
+      connection.sentinelPassword === undefined
+        ? undefined
+        : { password: connection.sentinelPassword },
+    replicaPoolSize,
+  };
 }
 
-import { createClient, type RedisClientType } from "@redis/client";
+/**
+ * Create an `@redis/client` driver for connection options. The cluster and
+ * Sentinel clients type their pub/sub listeners for buffer replies too,
+ * hence the casts.
+ * @param connection The connection options.
+ * @param consistency Where read-only operations are sent by default.
+ */
+function connectionDriver(
+  connection: Exclude<RedisConnection, RedisDriver>,
+  consistency: RedisConsistency | undefined
+): RedisDriver {
+  if (isClusterOptions(connection)) {
+    return nodeRedisClusterDriver(
+      createCluster(
+        clusterOptions(connection)
+      ) as unknown as NodeRedisClientLike
+    );
+  }
+  if (isSentinelOptions(connection)) {
+    // Replica reads go through a second client, since one with replica
+    // connections sends every read-only command to them. Unless replicas
+    // are read by default, it is created on the first replica read.
+    const replicas = () =>
+      createSentinel(
+        sentinelOptions(connection, 1)
+      ) as unknown as NodeRedisSentinelLike;
+    return nodeRedisSentinelDriver(
+      createSentinel(
+        sentinelOptions(connection, 0)
+      ) as unknown as NodeRedisSentinelLike,
+      consistency === "replica" ? replicas() : replicas
+    );
+  }
+  return nodeRedisDriver(createClient(clientOptions(connection)));
+}
 
 /**
  * Create a type-safe Redis client for a given schema.
  * @template TSchema The schema definition.
- * @param connectionString The Redis connection string.
+ * @param connection Where to connect, see RedisConnection.
  * @param schema The schema definition.
+ * @param options Client options.
  */
 export function createRedisClient<
-  TSchema extends Record<string, RedisDataType>
+  TSchema extends Record<string, RedisDataType>,
+  TScripts extends Record<string, RedisScript<any, any, any>> = {}
 >(
-  connectionString: string,
-  schema: TSchema
+  connection: RedisConnection,
+  schema: TSchema,
+  options: RedisClientOptions<TScripts> = {}
 ): RedisClient<TSchema> & {
   /**
-   * Disconnect the Redis client.
+   * The scripts registered with the `scripts` option.
+   */
+  readonly scripts: { [N in keyof TScripts]: ScriptFunction<TScripts[N]> };
+  /**
+   * Connect now instead of on the first operation. Concurrent calls share
+   * one connection attempt.
+   */
+  connect(): Promise<void>;
+  /**
+   * Close the connection, and the pub/sub connection if one is open.
+   */
+  close(): Promise<void>;
+  /**
+   * Disconnect the Redis client. The same as `close()`.
    */
   quit(): Promise<void>;
   /**
@@ -597,51 +3647,270 @@ export function createRedisClient<
    * Check if the client is connected.
    */
   isConnected(): boolean;
+  /**
+   * The current connection state.
+   */
+  connectionState(): RedisConnectionState;
   /**
    * Reconnect the client.
    */
   reconnect(): Promise<void>;
+  /**
+   * Run schema operations atomically in one MULTI/EXEC. Operations called
+   * on `tx` are queued, including the TTL and size-limit commands they
+   * issue, and sent when the callback returns. Return the queued operations
+   * to receive their results as a typed tuple.
+   * @param fn Queues the operations.
+   */
+  transaction<const R extends readonly QueuedOperation[] | void>(
+    fn: (tx: QueuedSchemaOperations<TSchema>) => R
+  ): Promise<QueuedResults<R>>;
+  /**
+   * Create a pipeline. Operations called on its `schema` are queued and
+   * sent in one round trip by `exec()`, without the atomicity of a
+   * transaction.
+   */
+  pipeline(): RedisPipeline<TSchema>;
 } {
-  const client = createClient({ url: connectionString });
-  let connected = false;
+  const driver = isDriver(connection)
+    ? connection
+    : connectionDriver(connection, options.consistency);
+  const { logger } = options;
 
-  // Ensure connection on first operation
-  const ensureConnection = async () => {
-    if (!connected) {
+  // Call a user hook, reporting a throwing hook instead of failing the
+  // operation
+  const emit = <E>(hook: ((event: E) => void) | undefined, event: E) => {
+    if (!hook) return;
+    try {
+      hook(event);
+    } catch (err) {
+      logger?.error("Redis hook error:", err);
+    }
+  };
+
+  let state: RedisConnectionState = "disconnected";
+  const setState = (next: RedisConnectionState, error?: unknown) => {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    emit(options.onStateChange, { state, previous, error });
+  };
+
+  // The connection attempt, shared by concurrent callers. It is kept while
+  // connected and cleared when the connection closes or fails.
+  let connecting: Promise<void> | undefined;
+  const open = () =>
+    (connecting ??= (async () => {
+      setState("connecting");
+      const started = performance.now();
       try {
-        await client.connect();
-        connected = true;
+        await driver.connect();
       } catch (err) {
-        console.error("Redis connection error:", err);
+        connecting = undefined;
+        setState("disconnected", err);
         throw err;
       }
+      setState("ready");
+      emit(options.onConnect, { duration: performance.now() - started });
+    })());
+
+  // Ensure connection on first operation
+  const ensureConnection = async (context?: OperationContext) => {
+    try {
+      await open();
+    } catch (err) {
+      throw new RedisConnectionError({ ...context, cause: err });
+    }
+  };
+
+  // Close the connection and report it, waiting for a connection attempt
+  // in progress
+  const disconnect = async () => {
+    const pending = connecting;
+    if (!pending) return;
+    connecting = undefined;
+    try {
+      await pending;
+    } catch {
+      return;
+    }
+    const started = performance.now();
+    await driver.quit();
+    setState("disconnected");
+    emit(options.onDisconnect, { duration: performance.now() - started });
+  };
+
+  // Follow the reconnects the underlying client runs on its own. Events
+  // after the client was closed are ignored.
+  driver.watch?.((event) => {
+    if (!connecting) return;
+    switch (event.type) {
+      case "reconnecting":
+        if (state === "ready") setState("reconnecting");
+        break;
+      case "ready":
+        if (state === "reconnecting") setState("ready");
+        break;
+      case "end":
+        connecting = undefined;
+        setState("disconnected");
+        break;
+      case "error":
+        logger?.error("Redis connection error:", event.error);
+        break;
+    }
+  });
+
+  // The dedicated connection that pub/sub requires, opened on the first
+  // subscription
+  let subscriber: Promise<RedisDriver> | undefined;
+  const getSubscriber = (context: OperationContext) => {
+    subscriber ??= driver.duplicate().catch((err) => {
+      subscriber = undefined;
+      throw new RedisConnectionError({ ...context, cause: err });
+    });
+    return subscriber;
+  };
+
+  const closeSubscriber = async () => {
+    const sub = await subscriber;
+    subscriber = undefined;
+    await sub?.quit();
+  };
+
+  // The dedicated connections of blocking operations, which hold their
+  // connection while they wait. Each operation takes an idle connection or
+  // opens another, so it never holds up the rest of the client.
+  const blockingConnections = new Set<RedisDriver>();
+  const idleBlocking: RedisDriver[] = [];
+  const executeBlocking = async <R>(plan: OperationPlan<R>): Promise<R> => {
+    const connection = idleBlocking.pop() ?? (await driver.duplicate());
+    blockingConnections.add(connection);
+    try {
+      const result = await execute(plan, connection);
+      if (blockingConnections.has(connection)) idleBlocking.push(connection);
+      return result;
+    } catch (err) {
+      // A failed connection may still be waiting, so it is not reused
+      if (blockingConnections.delete(connection)) {
+        await connection.quit().catch(() => {});
+      }
+      throw err;
+    }
+  };
+
+  const closeBlocking = async () => {
+    const connections = [...blockingConnections];
+    blockingConnections.clear();
+    idleBlocking.length = 0;
+    await Promise.all(connections.map((connection) => connection.quit()));
+  };
+
+  // Run a command, wrapping failures in a RedisSchemaError and reporting
+  // them to the logger
+  const run = async <R>(
+    context: { command: string; schemaKey?: string; key?: string },
+    fn: () => Promise<R>
+  ): Promise<R> => {
+    try {
+      return await fn();
+    } catch (err) {
+      const error = commandError(context, err);
+      logger?.error(`Redis ${context.command} error:`, error);
+      throw error;
+    }
+  };
+
+  // On Redis Cluster, reject keys that must be sent together but are
+  // stored in different slots before anything is sent
+  const checkSlots = (
+    keys: readonly string[],
+    context: { schemaKey?: string; command: string }
+  ) => {
+    if (!driver.cluster || new Set(keys.map(hashSlot)).size <= 1) return;
+    throw new RedisCrossSlotError([...new Set(keys)], context);
+  };
+
+  // Send a single command to Redis
+  const send = (cmd: RedisCommand): Promise<unknown> => driver.send(cmd);
+
+  // The FT.CREATE commands of the searched entries, sent once before the
+  // first query. Indexes created by an earlier client are kept.
+  const searchIndexes: RedisCommand[] = [];
+  let indexing: Promise<void> | undefined;
+  const ensureSearchIndexes = () =>
+    (indexing ??= (async () => {
+      for (const cmd of searchIndexes) {
+        try {
+          await send(cmd);
+        } catch (err) {
+          if (!/index already exists/i.test(String(err))) throw err;
+        }
+      }
+    })().catch((err) => {
+      indexing = undefined;
+      throw err;
+    }));
+
+  // Read the result of a plan from its replies and send its follow-ups
+  const settle = async <R>(
+    plan: OperationPlan<R>,
+    replies: unknown[]
+  ): Promise<R> => {
+    const result = await plan.result(replies);
+    for (const cmd of plan.followUp?.(replies) ?? []) {
+      await send(cmd);
+    }
+    return result;
+  };
+
+  // Send the commands of a plan one after another and read its result.
+  // They go to the primary unless another connection is given.
+  const execute = async <R>(
+    plan: OperationPlan<R>,
+    target: RedisDriver = driver
+  ): Promise<R> => {
+    const replies: unknown[] = [];
+    for (const cmd of plan.commands) {
+      replies.push(await target.send(cmd));
     }
+    return settle(plan, replies);
   };
 
   // Expose connection state
-  const isConnected = () => connected;
+  const isConnected = () => state === "ready";
+
+  const close = async () => {
+    if (subscriber) {
+      await run({ command: "QUIT" }, closeSubscriber);
+    }
+    if (blockingConnections.size > 0) {
+      await run({ command: "QUIT" }, closeBlocking);
+    }
+    await run({ command: "QUIT" }, disconnect);
+  };
+
+  const connect = () => run({ command: "CONNECT" }, () => ensureConnection());
 
   // Reconnect logic
   const reconnect = async () => {
-    if (connected) {
-      client.quit();
-      connected = false;
-    }
-    await ensureConnection();
+    await close();
+    await connect();
   };
 
-  // Serialization helpers
-  const serialize = (value: any, dataType: RedisDataType): string => {
-    if (
-      dataType._redisType === "json" ||
-      (dataType._redisType === "hash-field" &&
-        dataType._runtimeType === "object")
-    ) {
+  // Serialization helpers, driven by the runtime type so that hash fields
+  // and collection elements share the same codecs
+  const serialize = (
+    value: any,
+    dataType: RedisDataType,
+    op: OperationContext,
+    field?: string
+  ): string => {
+    if (dataType._runtimeType === "object") {
       try {
         return JSON.stringify(value);
       } catch (err) {
-        console.error("Serialization error:", err);
-        throw err;
+        throw new RedisSerializationError({ ...op, field, cause: err });
       }
     }
     return String(value);
@@ -649,72 +3918,776 @@ export function createRedisClient<
 
   const deserialize = <T>(
     value: string | null,
-    dataType: RedisDataType<T>
+    dataType: RedisDataType<T>,
+    op: OperationContext,
+    field?: string
   ): T | null => {
     if (value === null) return null;
 
-    try {
+    if (dataType._runtimeType === "object") {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch (err) {
+        throw new RedisDeserializationError(value, {
+          ...op,
+          field,
+          cause: err,
+        });
+      }
       if (
-        dataType._redisType === "json" ||
-        (dataType._redisType === "hash-field" &&
-          dataType._runtimeType === "object")
+        typeof dataType.validator === "function" &&
+        !dataType.validator(parsed)
       ) {
-        const parsed = JSON.parse(value);
-        if (typeof dataType.validator === "function") {
-          if (!dataType.validator(parsed)) {
-            console.warn("Validation failed for JSON value:", parsed);
-            return null;
-          }
-        }
-        return parsed;
+        throw new RedisValidationError(parsed, { ...op, field });
       }
+      return parsed as T;
+    }
+
+    // Handle number conversion
+    if (dataType._runtimeType === "number") {
+      const num = Number(value);
+      return isNaN(num) ? (value as T) : (num as T);
+    }
+
+    // Handle boolean conversion
+    if (dataType._runtimeType === "boolean") {
+      return (value === "true") as T;
+    }
+
+    // Default: string
+    return value as T;
+  };
 
-      // Handle number conversion for hash fields
+  // Resolve the validation-failure policy of a value type within an entry
+  const policyFor = (
+    dataType: RedisDataType,
+    entry: RedisDataType
+  ): ValidationFailurePolicy =>
+    dataType._validationFailure ??
+    entry._validationFailure ??
+    options.validationFailure ??
+    "throw";
+
+  // Read a stored value, applying the validation-failure policy when it
+  // cannot be parsed or fails its validator. Resolves to undefined when the
+  // value should be treated as absent.
+  const decode = async <T>(
+    value: string,
+    dataType: RedisDataType<T>,
+    entry: RedisDataType,
+    op: OperationContext,
+    remove: RedisCommand | undefined,
+    field?: string
+  ): Promise<{ value: T } | undefined> => {
+    try {
+      return { value: deserialize(value, dataType, op, field) as T };
+    } catch (err) {
       if (
-        dataType._redisType === "hash-field" &&
-        dataType._runtimeType === "number"
+        !(err instanceof RedisDeserializationError) &&
+        !(err instanceof RedisValidationError)
       ) {
-        const num = Number(value);
-        return isNaN(num) ? (value as T) : (num as T);
+        throw err;
+      }
+      const policy = policyFor(dataType, entry);
+      emit(options.onInvalid, {
+        schemaKey: op.schemaKey,
+        key: op.key,
+        field,
+        value,
+        error: err,
+        policy,
+      });
+      if (policy !== "throw") {
+        logger?.warn(`Invalid value handled with "${policy}":`, err);
+      }
+      switch (policy) {
+        case "throw":
+          throw err;
+        case "null":
+          return undefined;
+        case "default":
+          return dataType._default !== undefined
+            ? { value: dataType._default }
+            : undefined;
+        case "delete":
+          if (remove) await send(remove);
+          return undefined;
+        case "passthrough":
+          return {
+            value: (err instanceof RedisValidationError
+              ? err.value
+              : value) as T,
+          };
       }
+    }
+  };
+
+  // Read the elements of a collection, dropping those the policy discards
+  const decodeAll = async <T>(
+    values: string[],
+    dataType: RedisDataType<T>,
+    entry: RedisDataType,
+    op: OperationContext,
+    remove: (value: string) => RedisCommand
+  ): Promise<T[]> => {
+    const result: T[] = [];
+    for (const value of values) {
+      const decoded = await decode(value, dataType, entry, op, remove(value));
+      if (decoded) result.push(decoded.value);
+    }
+    return result;
+  };
+
+  // Check a value against the constraints declared on its type before
+  // anything is sent to Redis
+  const validate = (
+    value: unknown,
+    dataType: RedisDataType,
+    op: OperationContext,
+    field?: string
+  ) => {
+    if (!dataType) return;
+    const config = (dataType as ChainableRedisType<any, any>).config ?? {};
+    const fail = (constraint: string) => {
+      throw new RedisConstraintError({ ...op, field, constraint, value });
+    };
+    if (typeof value === "string") {
+      if (config.minLength !== undefined && value.length < config.minLength) {
+        fail("minLength");
+      }
+      if (config.maxLength !== undefined && value.length > config.maxLength) {
+        fail("maxLength");
+      }
+    }
+    if (
+      typeof dataType.validator === "function" &&
+      !dataType.validator(value)
+    ) {
+      fail("validator");
+    }
+  };
 
-      // Handle boolean conversion for hash fields
+  // Reject a new hash or stream entry that is missing a field without a
+  // default that is not marked optional
+  const requireFields = (
+    values: Record<string, unknown>,
+    fields: Record<string, RedisHashField<any>>,
+    op: OperationContext
+  ) => {
+    for (const [field, fieldDef] of Object.entries(fields)) {
       if (
-        dataType._redisType === "hash-field" &&
-        dataType._runtimeType === "boolean"
+        values[field] === undefined &&
+        !fieldDef._optional &&
+        fieldDef._default === undefined
       ) {
-        return (value === "true") as T;
+        throw new RedisConstraintError({
+          ...op,
+          field,
+          constraint: "required",
+          value: undefined,
+        });
       }
+    }
+  };
 
-      // Default: string
-      return value as T;
-    } catch (err) {
-      console.error(
-        "Deserialization error:",
-        err,
-        "Value:",
-        value,
-        "Type:",
-        dataType
+  // Resolve the key argument of an operation to a concrete Redis key
+  const resolveKey = (def: RedisDataType, key: unknown): string => {
+    if (typeof key === "string") return key;
+    if (isKeyPattern(def._key) && typeof key === "object" && key !== null) {
+      return buildKey(def._key, key as Record<string, string | number>);
+    }
+    throw new TypeError(
+      `Invalid key argument: expected ${
+        isKeyPattern(def._key)
+          ? `parameters for pattern "${def._key.pattern}"`
+          : "a key string"
+      }`
+    );
+  };
+
+  // Run a planned operation: connect, send its commands and report it to
+  // the instrumentation hooks. Batched operations pass an executor that
+  // waits for their share of the batch replies.
+  const perform = async <R>(
+    op: OperationContext,
+    plan: () => OperationPlan<R>,
+    executor: <T>(plan: OperationPlan<T>) => Promise<T> = execute
+  ): Promise<R> => {
+    let event: RedisCommandEvent | undefined;
+    const started = performance.now();
+    try {
+      const planned = plan();
+      event = {
+        schemaKey: op.schemaKey,
+        operation: op.operation,
+        commands: planned.commands.map((cmd) => cmd.method.toUpperCase()),
+        key: op.key,
+        payloadSize: sizeOf(planned.commands.map((cmd) => cmd.args)),
+      };
+      emit(options.onCommand, event);
+      await ensureConnection(op);
+      if (options.search && INDEX_OPERATIONS.has(op.operation)) {
+        await ensureSearchIndexes();
+      }
+      let resultSize = 0;
+      const result = await executor({
+        ...planned,
+        result: (replies) => {
+          resultSize = sizeOf(replies);
+          return planned.result(replies);
+        },
+      });
+      const duration = performance.now() - started;
+      emit(options.onResult, { ...event, duration, resultSize });
+      logger?.debug?.(
+        `Redis ${op.command} ${op.key} (${duration.toFixed(1)}ms)`
       );
-      return null;
+      return result;
+    } catch (err) {
+      const error = commandError(op, err);
+      emit(options.onError, {
+        schemaKey: op.schemaKey,
+        operation: op.operation,
+        commands: [],
+        key: op.key,
+        payloadSize: 0,
+        ...event,
+        duration: performance.now() - started,
+        error,
+      });
+      throw error;
+    }
+  };
+
+  // Build the context of an operation on a concrete key
+  const operationContext = (
+    schemaKey: string,
+    def: RedisDataType,
+    operation: string,
+    key: string
+  ): OperationContext => ({
+    schemaKey,
+    operation,
+    command: operation.toUpperCase(),
+    key,
+    pattern: isKeyPattern(def._key) ? def._key.pattern : undefined,
+  });
+
+  // Run an operation inside its span
+  const spanned = <R>(op: OperationContext, fn: () => Promise<R>) =>
+    withSpan(
+      options.tracer,
+      `${op.schemaKey}.${op.operation}`,
+      {
+        [SpanAttributes.DB_OPERATION]: op.command,
+        [SpanAttributes.SCHEMA_KEY]: op.schemaKey,
+        [SpanAttributes.KEY_PATTERN]: op.pattern,
+      },
+      fn
+    );
+
+  // Run an operation inside its span, wrapping and logging failures
+  const traced = <R>(op: OperationContext, fn: () => Promise<R>) =>
+    run(op, () => spanned(op, fn));
+
+  // The operation implementations of each entry, for queueing them in
+  // transactions
+  const implementations: Record<
+    string,
+    {
+      def: RedisDataType;
+      operations: Record<
+        string,
+        (op: OperationContext, ...args: any[]) => OperationPlan
+      >;
+    }
+  > = {};
+
+  // The replicas a read is sent to, if any, from its read options and the
+  // client default. Replica reads are not auto-pipelined with the writes,
+  // and reads that refresh a sliding TTL write too.
+  const readsFrom = (
+    def: RedisDataType,
+    readOptions: RedisReadOptions | undefined
+  ): RedisDriver | undefined =>
+    !def._slidingTtl &&
+    (readOptions?.consistency ?? options.consistency) === "replica"
+      ? driver.replicas
+      : undefined;
+
+  // Plan an operation. Reads of an entry with a sliding TTL also refresh
+  // it.
+  const planOperation = (
+    def: RedisDataType,
+    op: OperationContext,
+    impl: (op: OperationContext, ...args: any[]) => OperationPlan,
+    args: any[]
+  ): OperationPlan => {
+    const plan = impl(op, ...args);
+    if (!def._slidingTtl || !def._ttl || !(op.operation in READ_OPERATIONS)) {
+      return plan;
+    }
+    const count = plan.commands.length;
+    return {
+      commands: [...plan.commands, command("expire", op.key, def._ttl)],
+      result: (replies) => plan.result(replies.slice(0, count)),
+      followUp:
+        plan.followUp && ((replies) => plan.followUp!(replies.slice(0, count))),
+    };
+  };
+
+  // Split the arguments of an operation call into its key and the rest.
+  // Index queries keep their arguments and run on the index of the field
+  // given first, or on the RediSearch index of the entry.
+  const splitKey = (
+    schemaKey: string,
+    def: RedisDataType,
+    operation: string,
+    args: any[]
+  ): [string, any[]] =>
+    INDEX_OPERATIONS.has(operation)
+      ? [
+          options.search || operation === "search"
+            ? searchIndex(schemaKey)
+            : indexKey(schemaKey, def, args[0]),
+          args,
+        ]
+      : [resolveKey(def, args[0]), args.slice(1)];
+
+  // Bind the operations of an entry: resolve the key argument and run the
+  // planned commands with the operation context
+  const bindOperations = (
+    schemaKey: string,
+    def: RedisDataType,
+    operations: Record<
+      string,
+      (op: OperationContext, ...args: any[]) => OperationPlan
+    >
+  ) => {
+    implementations[schemaKey] = { def, operations };
+    const bound: Record<string, (...args: any[]) => Promise<any>> = {};
+    for (const [operation, impl] of Object.entries(operations)) {
+      const readOptions = READ_OPERATIONS[operation];
+      bound[operation] = async (...callArgs: any[]) => {
+        const [key, args] = splitKey(schemaKey, def, operation, callArgs);
+        const blocking = BLOCKING_OPERATIONS[operation]?.(args) ?? false;
+        const replicas =
+          !blocking &&
+          readOptions !== undefined &&
+          readsFrom(def, args[readOptions]);
+        const op: OperationContext = {
+          ...operationContext(schemaKey, def, operation, key),
+          batched: !blocking && !replicas && options.autoPipeline,
+        };
+        return traced(op, () =>
+          perform(
+            op,
+            () => planOperation(def, op, impl, args),
+            blocking
+              ? executeBlocking
+              : replicas
+              ? (plan) => execute(plan, replicas)
+              : options.autoPipeline
+              ? autoPipeline
+              : execute
+          )
+        );
+      };
     }
+    return bound;
+  };
+
+  // Send the commands of several plans in one round trip, in a MULTI/EXEC
+  // when atomic, and split the replies per plan. In a pipeline, commands
+  // that fail are returned as their error replies.
+  const sendBatch = async (
+    plans: readonly OperationPlan[],
+    atomic: boolean
+  ): Promise<unknown[][]> => {
+    const replies = await driver.batch(
+      plans.flatMap((plan) => plan.commands),
+      atomic
+    );
+    let offset = 0;
+    return plans.map((plan) =>
+      replies.slice(offset, (offset += plan.commands.length))
+    );
   };
 
-  // Handle TTL setting
-  const setWithTTL = async (key: string, value: string, ttl?: number) => {
+  // Read the result of a plan from its share of batch replies
+  const settleBatched = async <R>(
+    plan: OperationPlan<R>,
+    replies: unknown[]
+  ): Promise<R> => {
+    const error = replies.find((reply) => reply instanceof Error);
+    if (error) throw error;
+    return settle(plan, replies);
+  };
+
+  // Perform queued operations together. Each operation is performed as
+  // usual, but waits for its share of the batch replies instead of sending
+  // its own commands.
+  const performBatch = async (
+    queue: readonly QueuedEntry[],
+    atomic: boolean
+  ): Promise<unknown[]> => {
+    await ensureConnection();
+    if (
+      options.search &&
+      queue.some((entry) => INDEX_OPERATIONS.has(entry.op.operation))
+    ) {
+      await ensureSearchIndexes();
+    }
+    let release!: (replies: unknown[][]) => void;
+    let fail!: (err: unknown) => void;
+    const sent = new Promise<unknown[][]>((resolve, reject) => {
+      release = resolve;
+      fail = reject;
+    });
+    const results = queue.map(({ op, plan }, i) =>
+      spanned(op, () =>
+        perform(
+          op,
+          () => plan,
+          async (planned) => settleBatched(planned, (await sent)[i]!)
+        )
+      )
+    );
     try {
-      if (ttl) {
-        await client.setEx(key, ttl, value);
-      } else {
-        await client.set(key, value);
+      release(
+        await sendBatch(
+          queue.map((entry) => entry.plan),
+          atomic
+        )
+      );
+    } catch (err) {
+      fail(
+        new RedisCommandError({
+          command: atomic ? "EXEC" : "PIPELINE",
+          cause: err,
+        })
+      );
+    }
+    return Promise.all(results);
+  };
+
+  // Build the schema operations of a transaction or pipeline: each call
+  // plans the operation and adds it to the queue
+  const queueOperations = (queue: QueuedEntry[]): any => {
+    const queued: Record<string, Record<string, Function>> = {};
+    for (const [schemaKey, { def, operations }] of Object.entries(
+      implementations
+    )) {
+      const entry: Record<string, Function> = (queued[schemaKey] = {});
+      for (const [operation, impl] of Object.entries(operations)) {
+        entry[operation] = (...callArgs: any[]) => {
+          const [key, args] = splitKey(schemaKey, def, operation, callArgs);
+          const op: OperationContext = {
+            ...operationContext(schemaKey, def, operation, key),
+            batched: true,
+          };
+          const token: QueuedOperation = { schemaKey, operation };
+          queue.push({ token, op, plan: planOperation(def, op, impl, args) });
+          return token;
+        };
+      }
+    }
+    return queued;
+  };
+
+  // Pick the results of the given queued operations, in their order
+  const pickResults = (
+    queue: readonly QueuedEntry[],
+    results: unknown[],
+    operations: readonly QueuedOperation[]
+  ) =>
+    operations.map((token) => {
+      const index = queue.findIndex((entry) => entry.token === token);
+      if (index === -1) {
+        throw new TypeError(
+          `Operation ${token.schemaKey}.${token.operation} was not queued in this batch`
+        );
       }
+      return results[index];
+    });
+
+  // Queue operations through the callback and send them in one MULTI/EXEC
+  const transaction = (fn: (tx: any) => unknown): Promise<unknown[]> =>
+    run({ command: "EXEC" }, async () => {
+      const queue: QueuedEntry[] = [];
+      const returned = fn(queueOperations(queue));
+      if (queue.length === 0) return [];
+      checkSlots(
+        queue.map((entry) => entry.op.key),
+        { command: "EXEC" }
+      );
+      return withSpan(
+        options.tracer,
+        "transaction",
+        { [SpanAttributes.DB_OPERATION]: "MULTI" },
+        async () => {
+          const results = await performBatch(queue, true);
+          return Array.isArray(returned)
+            ? pickResults(queue, results, returned)
+            : results;
+        }
+      );
+    });
+
+  // Queue operations and send them in one round trip on exec
+  const pipeline = () => {
+    const queue: QueuedEntry[] = [];
+    return {
+      schema: queueOperations(queue),
+      exec: (operations?: readonly QueuedOperation[]) =>
+        run({ command: "PIPELINE" }, async () => {
+          const batch = queue.splice(0);
+          if (batch.length === 0) return [];
+          return withSpan(
+            options.tracer,
+            "pipeline",
+            { [SpanAttributes.DB_OPERATION]: "PIPELINE" },
+            async () => {
+              const results = await performBatch(batch, false);
+              return operations
+                ? pickResults(batch, results, operations)
+                : results;
+            }
+          );
+        }),
+    };
+  };
+
+  // With auto-pipelining, operations wait here and are sent together once
+  // the current tick is done
+  let pending: {
+    plan: OperationPlan;
+    resolve: (replies: unknown[]) => void;
+    reject: (err: unknown) => void;
+  }[] = [];
+
+  const flushPending = async () => {
+    const batch = pending;
+    pending = [];
+    try {
+      const replies = await sendBatch(
+        batch.map((entry) => entry.plan),
+        false
+      );
+      batch.forEach((entry, i) => entry.resolve(replies[i]!));
     } catch (err) {
-      console.error("Redis set error:", err);
-      throw err;
+      batch.forEach((entry) => entry.reject(err));
+    }
+  };
+
+  const autoPipeline = <R>(plan: OperationPlan<R>): Promise<R> =>
+    new Promise<unknown[]>((resolve, reject) => {
+      if (pending.length === 0) process.nextTick(flushPending);
+      pending.push({ plan, resolve, reject });
+    }).then((replies) => settleBatched(plan, replies));
+
+  // Scripts already sent with SCRIPT LOAD on this client
+  const loadedScripts = new Set<RedisScript>();
+
+  // Call a script by SHA, loading it on first use and falling back to EVAL
+  // when the server no longer has it cached, e.g. after a restart or
+  // SCRIPT FLUSH. The next call loads it again.
+  const callScript = async <R>(
+    script: RedisScript,
+    plan: OperationPlan<R>
+  ): Promise<R> => {
+    if (!loadedScripts.has(script)) {
+      await send(command("scriptLoad", script.source));
+      loadedScripts.add(script);
+    }
+    try {
+      return await execute(plan);
+    } catch (err) {
+      if (!(err instanceof Error) || !err.message.startsWith("NOSCRIPT")) {
+        throw err;
+      }
+      loadedScripts.delete(script);
+      const [, evalOptions] = plan.commands[0]!.args;
+      const reply = await send(command("eval", script.source, evalOptions));
+      return settle(plan, [reply]);
+    }
+  };
+
+  // Bind the registered scripts: resolve their keys, serialize their
+  // arguments and decode the reply with the declared result type
+  const scripts: Record<string, Function> = {};
+  for (const [name, script] of Object.entries(options.scripts ?? {})) {
+    scripts[name] = async (
+      keys: unknown[],
+      args: Record<string, unknown> = {}
+    ) => {
+      const resolved = script.keys.map((def: RedisDataType, i: number) =>
+        resolveKey(def, keys[i])
+      );
+      const op: OperationContext = {
+        schemaKey: name,
+        operation: "evalsha",
+        command: "EVALSHA",
+        key: resolved.join(" "),
+      };
+      return traced(op, () =>
+        perform(
+          op,
+          (): OperationPlan => {
+            checkSlots(resolved, { schemaKey: name, command: "EVALSHA" });
+            const serialized = Object.entries(
+              script.args as Record<string, RedisDataType>
+            ).map(([arg, dataType]) => {
+              validate(args[arg], dataType, op, arg);
+              return serialize(args[arg], dataType, op, arg);
+            });
+            return {
+              commands: [
+                command("evalSha", script.sha, {
+                  keys: resolved,
+                  arguments: serialized,
+                }),
+              ],
+              result: async ([reply]) => {
+                // Only scalar replies are read through the result type
+                if (
+                  !script.returns ||
+                  (typeof reply !== "string" && typeof reply !== "number")
+                ) {
+                  return reply;
+                }
+                const decoded = await decode(
+                  String(reply),
+                  script.returns,
+                  script.returns,
+                  op,
+                  undefined
+                );
+                return decoded ? decoded.value : null;
+              },
+            };
+          },
+          (plan) => callScript(script, plan)
+        )
+      );
+    };
+  }
+
+  // Handle TTL setting. A TTL given for the write replaces the entry's,
+  // and keeping the current expiry takes precedence over both.
+  const setWithTTL = (
+    key: string,
+    value: string,
+    ttl?: number,
+    options: RedisSetOptions = {}
+  ) => {
+    if (options.keepTtl) {
+      return command("set", key, value, { expiration: "KEEPTTL" });
     }
+    const seconds = options.ttl ?? ttl;
+    return seconds
+      ? command("setEx", key, seconds, value)
+      : command("set", key, value);
   };
 
+  // Plan a search on the RediSearch index of an entry, reading each found
+  // key with `read`. Keys that only share the prefix of the entry's key
+  // pattern are skipped, as are values the read discards.
+  const searchPlan = <V>(
+    op: OperationContext,
+    def: RedisDataType,
+    fields: Record<string, RedisSearchFieldType>,
+    build: (q: RedisSearchBuilder<any>) => RedisSearchQuery<any>,
+    searchOptions: RedisSearchOptions<any> | undefined,
+    read: (
+      fields: Record<string, string>,
+      op: OperationContext
+    ) => Promise<V | null | undefined>
+  ): OperationPlan<RedisSearchResult<{ key: string; value: V }>> => {
+    if (!options.search) {
+      throw new TypeError(
+        `Searching "${op.schemaKey}" requires the search client option`
+      );
+    }
+    const query = build(searchBuilder(op.schemaKey, fields));
+    return {
+      commands: [searchCommand(op.key, query, searchOptions)],
+      result: async ([reply]) => {
+        const { total, documents } = parseSearchReply(reply);
+        const entries: { key: string; value: V }[] = [];
+        for (const { key, fields } of documents) {
+          if (isKeyPattern(def._key) && !parseKey(def._key, key)) continue;
+          const value = await read(fields, { ...op, key });
+          if (value !== null && value !== undefined) {
+            entries.push({ key, value });
+          }
+        }
+        return { total, entries };
+      },
+    };
+  };
+
+  // The expiry operations every entry shares
+  const expiryOperations = {
+    ttl(op) {
+      return {
+        commands: [command("ttl", op.key)],
+        result: ([seconds]) => seconds as number,
+      };
+    },
+
+    pttl(op) {
+      return {
+        commands: [command("pTTL", op.key)],
+        result: ([milliseconds]) => milliseconds as number,
+      };
+    },
+
+    expire(op, seconds: number, options?: RedisExpireOptions) {
+      return {
+        commands: [command("expire", op.key, seconds, ...expireMode(options))],
+        result: ([set]) => set === 1,
+      };
+    },
+
+    expireAt(op, at: Date, options?: RedisExpireOptions) {
+      return {
+        commands: [
+          command(
+            "expireAt",
+            op.key,
+            Math.floor(at.getTime() / 1000),
+            ...expireMode(options)
+          ),
+        ],
+        result: ([set]) => set === 1,
+      };
+    },
+
+    persist(op) {
+      return {
+        commands: [command("persist", op.key)],
+        result: ([removed]) => removed === 1,
+      };
+    },
+  } satisfies OperationImpl<RedisExpiryOperations<any>>;
+
+  // Follow-up commands that keep a list within its maximum length and
+  // refresh its TTL
+  const listWriteFollowUps = (
+    listDef: RedisListType<any>,
+    key: string,
+    ttl = listDef._ttl
+  ): RedisCommand[] => [
+    // Handle max length constraint (trim to last N elements)
+    ...(listDef.config?.maxLength
+      ? [command("lTrim", key, -listDef.config.maxLength, -1)]
+      : []),
+    // Set TTL if specified
+    ...(ttl ? [command("expire", key, ttl)] : []),
+  ];
+
   // Build schema operations
   const schemaOperations: any = {};
 
@@ -723,456 +4696,1775 @@ export function createRedisClient<
 
     if (def._redisType === "json") {
       const jsonDef = def as RedisJsonType<any>;
-      schemaOperations[schemaKey] = {
+      const searchFields: Record<string, RedisSearchFieldType> =
+        jsonDef.config.searchFields ?? {};
+      // Indexed values are stored as RedisJSON documents when searching,
+      // which RediSearch can index
+      const documents = options.search && Object.keys(searchFields).length > 0;
+      if (documents) {
+        searchIndexes.push(
+          createSearchIndex(schemaKey, def, "JSON", searchFields)
+        );
+      }
+
+      // Read a stored JSON value
+      const decodeJson = async (value: string, op: OperationContext) => {
+        const decoded = await decode(
+          value,
+          jsonDef,
+          jsonDef,
+          op,
+          command("del", op.key)
+        );
+        return decoded ? decoded.value : null;
+      };
+
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...expiryOperations,
+
         /**
          * Get the value of a JSON key.
          */
-        async get(key: string) {
-          await ensureConnection();
-          try {
-            const value = await client.get(key);
-            if (value === null && jsonDef._default !== undefined) {
-              return jsonDef._default;
-            }
-            return deserialize(value, jsonDef);
-          } catch (err) {
-            console.error("Redis JSON GET error:", err);
-            throw err;
-          }
+        get(op) {
+          return {
+            commands: [
+              documents
+                ? command("sendCommand", ["JSON.GET", op.key])
+                : command("get", op.key),
+            ],
+            result: async ([value]) => {
+              if (value === null) return jsonDef._default ?? null;
+              return decodeJson(value as string, op);
+            },
+          };
         },
 
         /**
          * Set the value of a JSON key.
          */
-        async set(key: string, value: any) {
-          await ensureConnection();
-          try {
-            const serialized = serialize(value, jsonDef);
-            await setWithTTL(key, serialized, jsonDef._ttl);
-          } catch (err) {
-            console.error("Redis JSON SET error:", err);
-            throw err;
+        set(op, value: any, options?: RedisSetOptions) {
+          validate(value, jsonDef, op);
+          const serialized = serialize(value, jsonDef, op);
+          if (!documents) {
+            return {
+              commands: [setWithTTL(op.key, serialized, jsonDef._ttl, options)],
+              result: () => undefined,
+            };
           }
+          // JSON.SET keeps the expiry of a document it replaces, so it is
+          // set or removed as SET would
+          const seconds = options?.ttl ?? jsonDef._ttl;
+          return {
+            commands: [
+              command("sendCommand", ["JSON.SET", op.key, "$", serialized]),
+              ...(options?.keepTtl
+                ? []
+                : seconds
+                ? [command("expire", op.key, seconds)]
+                : [command("persist", op.key)]),
+            ],
+            result: () => undefined,
+          };
         },
 
         /**
          * Delete a JSON key.
          */
-        async del(key: string) {
-          await ensureConnection();
-          try {
-            return await client.del(key);
-          } catch (err) {
-            console.error("Redis JSON DEL error:", err);
-            throw err;
-          }
+        del(op) {
+          return {
+            commands: [command("del", op.key)],
+            result: ([count]) => count as number,
+          };
         },
 
         /**
          * Check if a JSON key exists.
          */
-        async exists(key: string) {
-          await ensureConnection();
-          try {
-            return (await client.exists(key)) === 1;
-          } catch (err) {
-            console.error("Redis JSON EXISTS error:", err);
-            throw err;
-          }
+        exists(op) {
+          return {
+            commands: [command("exists", op.key)],
+            result: ([count]) => count === 1,
+          };
+        },
+
+        /**
+         * Search the JSON values with RediSearch.
+         */
+        search(
+          op,
+          build: (q: RedisSearchBuilder<any>) => RedisSearchQuery<any>,
+          searchOptions?: RedisSearchOptions<any>
+        ) {
+          // Documents are returned whole, as their root path
+          return searchPlan(
+            op,
+            jsonDef,
+            searchFields,
+            build,
+            searchOptions,
+            (fields, found) =>
+              fields["$"] === undefined
+                ? Promise.resolve(null)
+                : decodeJson(fields["$"], found)
+          );
         },
-      } satisfies RedisJsonOperations<any>;
+      } satisfies OperationImpl<RedisJsonOperations<any>>);
     }
     if (def._redisType === "string") {
       const stringDef = def as RedisStringType;
-      schemaOperations[schemaKey] = {
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...expiryOperations,
+
         /**
          * Get the value of a string key.
          */
-        async get(key: string) {
-          await ensureConnection();
-          try {
-            const value = await client.get(key);
-            if (value === null && stringDef._default !== undefined) {
-              return stringDef._default;
-            }
-            return deserialize(value, stringDef);
-          } catch (err) {
-            console.error("Redis GET error:", err);
-            throw err;
-          }
+        get(op) {
+          return {
+            commands: [command("get", op.key)],
+            result: ([value]) => {
+              if (value === null && stringDef._default !== undefined) {
+                return stringDef._default;
+              }
+              return deserialize(value as string | null, stringDef, op);
+            },
+          };
         },
 
-        async set(key: string, value: any) {
-          await ensureConnection();
-          try {
-            const serialized = serialize(value, stringDef);
-            await setWithTTL(key, serialized, stringDef._ttl);
-          } catch (err) {
-            console.error("Redis SET error:", err);
-            throw err;
-          }
+        set(op, value: any, options?: RedisSetOptions) {
+          validate(value, stringDef, op);
+          const serialized = serialize(value, stringDef, op);
+          return {
+            commands: [setWithTTL(op.key, serialized, stringDef._ttl, options)],
+            result: () => undefined,
+          };
         },
 
-        async del(key: string) {
-          await ensureConnection();
-          try {
-            return await client.del(key);
-          } catch (err) {
-            console.error("Redis DEL error:", err);
-            throw err;
-          }
+        del(op) {
+          return {
+            commands: [command("del", op.key)],
+            result: ([count]) => count as number,
+          };
         },
 
-        async exists(key: string) {
-          await ensureConnection();
-          try {
-            return (await client.exists(key)) === 1;
-          } catch (err) {
-            console.error("Redis EXISTS error:", err);
-            throw err;
-          }
+        exists(op) {
+          return {
+            commands: [command("exists", op.key)],
+            result: ([count]) => count === 1,
+          };
         },
-      } satisfies RedisStringOperations<any>;
+      } satisfies OperationImpl<RedisStringOperations<any>>);
     }
 
     if (def._redisType === "hash") {
       const hashDef = def as RedisHashBuilder<any>;
-      schemaOperations[schemaKey] = {
-        async hget<K extends keyof typeof hashDef.fields>(
-          key: string,
-          field: K
-        ) {
-          await ensureConnection();
-          try {
-            const value = await client.hGet(key, field as string);
-            const fieldDef = hashDef.fields[field] as RedisHashField<any>;
-            if (value === null && fieldDef?._default !== undefined) {
-              return fieldDef._default;
-            }
-            return deserialize(value, fieldDef);
-          } catch (err) {
-            console.error("Redis HGET error:", err);
-            throw err;
+      const indexed: string[] = hashDef.config.indexedFields ?? [];
+      // Number fields are indexed by range, the others by exact value
+      const indexKind = (field: string) => {
+        if (!indexed.includes(field)) {
+          throw new TypeError(
+            `Field "${field}" of "${schemaKey}" is not indexed`
+          );
+        }
+        return hashDef.fields[field]?._runtimeType === "number"
+          ? "range"
+          : "value";
+      };
+      const indexArgs = [
+        String(indexed.length),
+        ...indexed.flatMap((field) => [field, indexKind(field)]),
+      ];
+      // The keys of an index script on a hash: the hash, then the index of
+      // each indexed field. They must share a slot on Redis Cluster.
+      const indexScriptKeys = (op: OperationContext) => {
+        const keys = [
+          op.key,
+          ...indexed.map((field) => indexKey(schemaKey, def, field)),
+        ];
+        checkSlots(keys, { schemaKey, command: "EVAL" });
+        return keys;
+      };
+      // When searching, RediSearch indexes the hashes in place of the
+      // index scripts
+      const scripted = indexed.length > 0 && !options.search;
+      const searchFields: Record<string, RedisSearchFieldType> = {};
+      if (options.search) {
+        for (const field of indexed) {
+          const fieldDef = hashDef.fields[field] as RedisHashField<any>;
+          if (fieldDef._runtimeType === "object") {
+            throw new TypeError(
+              `Field "${field}" of "${schemaKey}" holds JSON and cannot be searched`
+            );
+          }
+          searchFields[field] =
+            fieldDef._runtimeType === "number"
+              ? "numeric"
+              : fieldDef.config.fullText
+              ? "text"
+              : "tag";
+        }
+        if (indexed.length > 0) {
+          searchIndexes.push(
+            createSearchIndex(schemaKey, def, "HASH", searchFields)
+          );
+        }
+      }
+
+      // Decode the fields of a hash, filling in defaults. Resolves to null
+      // for a missing hash.
+      const decodeHash = async (
+        hash: Record<string, string>,
+        op: OperationContext
+      ) => {
+        if (Object.keys(hash).length === 0) return null;
+
+        const result: any = {};
+        for (const [field, value] of Object.entries(hash)) {
+          const fieldDef = hashDef.fields[field];
+          // Fields outside the schema are not part of the result type
+          if (!fieldDef) continue;
+          const decoded = await decode(
+            value,
+            fieldDef,
+            hashDef,
+            op,
+            command("hDel", op.key, field),
+            field
+          );
+          if (decoded) result[field] = decoded.value;
+        }
+
+        // Fill in defaults for missing optional fields
+        for (const [field, fieldDef] of Object.entries(hashDef.fields)) {
+          const typedFieldDef = fieldDef as RedisHashField<any>;
+          if (!(field in result) && typedFieldDef._default !== undefined) {
+            result[field] = typedFieldDef._default;
+          }
+        }
+
+        return result;
+      };
+
+      // Read the hashes found by the index script, skipping those that
+      // turn out to be invalid
+      const decodeEntries = async (reply: unknown, op: OperationContext) => {
+        const entries: HashEntry<any>[] = [];
+        for (const [key, flat] of reply as [string, string[]][]) {
+          const hash: Record<string, string> = {};
+          for (let i = 0; i < flat.length; i += 2) {
+            hash[flat[i]!] = flat[i + 1]!;
           }
+          const value = await decodeHash(hash, { ...op, key });
+          if (value) entries.push({ key, value });
+        }
+        return entries;
+      };
+
+      // Search the hashes with RediSearch
+      const searchHashes = (
+        op: OperationContext,
+        build: (q: RedisSearchBuilder<any>) => RedisSearchQuery<any>,
+        searchOptions?: RedisSearchOptions<any>
+      ) =>
+        searchPlan(op, hashDef, searchFields, build, searchOptions, decodeHash);
+
+      // Find the hashes with RediSearch, as the index script would
+      const searchEntries = (
+        op: OperationContext,
+        build: (q: RedisSearchBuilder<any>) => RedisSearchQuery<any>,
+        sortBy?: string
+      ): OperationPlan<HashEntry<any>[]> => {
+        const plan = searchHashes(op, build, {
+          limit: SEARCH_MAX_RESULTS,
+          sortBy,
+        });
+        return {
+          commands: plan.commands,
+          result: async (replies) => (await plan.result(replies)).entries,
+        };
+      };
+
+      // Run the index script on the index of a field, for one value or a
+      // range of number values
+      const findCommand = (
+        op: OperationContext,
+        field: string,
+        mode: "fetch" | "count",
+        min: unknown,
+        max = min
+      ) => {
+        const kind = indexKind(field);
+        const fieldDef = hashDef.fields[field];
+        if (kind === "range") {
+          return command("eval", INDEX_FIND_SCRIPT, {
+            keys: [op.key],
+            arguments: [field, kind, mode, scoreBound(min), scoreBound(max)],
+          });
+        }
+        validate(min, fieldDef, op, field);
+        return command("eval", INDEX_FIND_SCRIPT, {
+          keys: [op.key],
+          arguments: [field, kind, mode, serialize(min, fieldDef, op, field)],
+        });
+      };
+
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...expiryOperations,
+
+        hget(op, field: string) {
+          const fieldDef = hashDef.fields[field] as RedisHashField<any>;
+          return {
+            commands: [command("hGet", op.key, field)],
+            result: async ([value]) => {
+              if (value === null) return fieldDef?._default ?? null;
+              const decoded = await decode(
+                value as string,
+                fieldDef,
+                hashDef,
+                op,
+                command("hDel", op.key, field),
+                field
+              );
+              return decoded ? decoded.value : null;
+            },
+          };
         },
 
-        async hset(
-          key: string,
+        hset(
+          op,
           fieldOrFields: string | Record<string, any>,
-          value?: any
+          valueOrOptions?: any,
+          options?: RedisHashSetOptions
         ) {
-          await ensureConnection();
-          try {
-            if (typeof fieldOrFields === "string") {
-              // Single field set
-              const fieldDef = hashDef.fields[fieldOrFields];
-              const serialized = serialize(value, fieldDef);
-              await client.hSet(key, fieldOrFields, serialized);
-            } else {
-              // Multiple fields set
-              const serializedFields: Record<string, string> = {};
-              for (const [field, val] of Object.entries(fieldOrFields)) {
-                const fieldDef = hashDef.fields[field];
-                serializedFields[field] = serialize(val, fieldDef);
-              }
-              await client.hSet(key, serializedFields);
+          // The options follow the value of a single field, or the fields
+          const single = typeof fieldOrFields === "string";
+          const value = single ? valueOrOptions : undefined;
+          const writeOptions: RedisHashSetOptions | undefined = single
+            ? options
+            : valueOrOptions;
+          const ttl = writeOptions?.ttl ?? hashDef._ttl;
+          const entries =
+            typeof fieldOrFields === "string"
+              ? [[fieldOrFields, value] as const]
+              : Object.entries(fieldOrFields);
+          if (!single && writeOptions?.create) {
+            requireFields(fieldOrFields, hashDef.fields, op);
+          }
+          for (const [field, val] of entries) {
+            validate(val, hashDef.fields[field], op, field);
+          }
+
+          let write: RedisCommand;
+          if (scripted) {
+            // The script moves the hash between indexes as it writes
+            write = command("eval", INDEX_HSET_SCRIPT, {
+              keys: indexScriptKeys(op),
+              arguments: [
+                ...indexArgs,
+                ...entries.flatMap(([field, val]) => [
+                  field,
+                  serialize(val, hashDef.fields[field], op, field),
+                ]),
+              ],
+            });
+          } else if (typeof fieldOrFields === "string") {
+            // Single field set
+            const fieldDef = hashDef.fields[fieldOrFields];
+            const serialized = serialize(value, fieldDef, op, fieldOrFields);
+            write = command("hSet", op.key, fieldOrFields, serialized);
+          } else {
+            // Multiple fields set
+            const serializedFields: Record<string, string> = {};
+            for (const [field, val] of entries) {
+              const fieldDef = hashDef.fields[field];
+              serializedFields[field] = serialize(val, fieldDef, op, field);
             }
+            write = command("hSet", op.key, serializedFields);
+          }
 
-            // Set TTL on the hash key if specified
-            if (hashDef._ttl) {
-              await client.expire(key, hashDef._ttl);
+          // Expire the written fields that declare a TTL, grouped by TTL
+          const fieldTtls = new Map<number, string[]>();
+          for (const [field] of entries) {
+            const fieldTtl = hashDef.fields[field]?._ttl;
+            if (fieldTtl) {
+              fieldTtls.set(fieldTtl, [
+                ...(fieldTtls.get(fieldTtl) ?? []),
+                field,
+              ]);
             }
-          } catch (err) {
-            console.error("Redis HSET error:", err);
-            throw err;
           }
+
+          return {
+            commands: [
+              write,
+              ...[...fieldTtls].map(([seconds, fields]) =>
+                command("hExpire", op.key, fields, seconds)
+              ),
+              // Set TTL on the hash key if specified
+              ...(ttl ? [command("expire", op.key, ttl)] : []),
+            ],
+            result: () => undefined,
+          };
         },
 
-        async hgetall(key: string) {
-          await ensureConnection();
-          try {
-            const hash = await client.hGetAll(key);
-            if (Object.keys(hash).length === 0) return null;
+        hgetall(op) {
+          return {
+            commands: [command("hGetAll", op.key)],
+            result: ([reply]) =>
+              decodeHash(reply as Record<string, string>, op),
+          };
+        },
 
-            const result: any = {};
-            for (const [field, value] of Object.entries(hash)) {
-              const fieldDef = hashDef.fields[field];
-              result[field] = deserialize(value, fieldDef);
-            }
+        hdel(op, ...fields: string[]) {
+          return {
+            commands: [
+              scripted
+                ? command("eval", INDEX_HDEL_SCRIPT, {
+                    keys: indexScriptKeys(op),
+                    arguments: [...indexArgs, ...fields],
+                  })
+                : command("hDel", op.key, fields),
+            ],
+            result: ([count]) => count as number,
+          };
+        },
 
-            // Fill in defaults for missing optional fields
-            for (const [field, fieldDef] of Object.entries(hashDef.fields)) {
-              const typedFieldDef = fieldDef as RedisHashField<any>;
-              if (!(field in result) && typedFieldDef._default !== undefined) {
-                result[field] = typedFieldDef._default;
-              }
-            }
+        del(op) {
+          return {
+            commands: [
+              scripted
+                ? command("eval", INDEX_DEL_SCRIPT, {
+                    keys: indexScriptKeys(op),
+                    arguments: indexArgs,
+                  })
+                : command("del", op.key),
+            ],
+            result: ([count]) => count as number,
+          };
+        },
 
-            return result;
-          } catch (err) {
-            console.error("Redis HGETALL error:", err);
-            throw err;
+        findBy(op, field: string, value: unknown) {
+          if (options.search) {
+            return searchEntries(op, (q) => q.where(field).eq(value as never));
           }
+          return {
+            commands: [findCommand(op, field, "fetch", value)],
+            result: ([reply]) => decodeEntries(reply, op),
+          };
         },
 
-        async hdel(key: string, ...fields: string[]) {
-          await ensureConnection();
-          try {
-            return await client.hDel(key, fields);
-          } catch (err) {
-            console.error("Redis HDEL error:", err);
-            throw err;
+        findRange(op, field: string, min: number, max: number) {
+          if (indexKind(field) !== "range") {
+            throw new TypeError(
+              `Field "${field}" of "${schemaKey}" is not a number field`
+            );
           }
+          if (options.search) {
+            return searchEntries(
+              op,
+              (q) =>
+                (
+                  q.where(field) as RedisNumberCondition<RedisSearchQuery<any>>
+                ).between(min, max),
+              field
+            );
+          }
+          return {
+            commands: [findCommand(op, field, "fetch", min, max)],
+            result: ([reply]) => decodeEntries(reply, op),
+          };
         },
 
-        async hexists<K extends keyof typeof hashDef.fields>(
-          key: string,
-          field: K
-        ): Promise<boolean> {
-          await ensureConnection();
-          try {
-            return (await client.hExists(key, field as string)) === 1;
-          } catch (err) {
-            console.error("Redis HEXISTS error:", err);
-            throw err;
+        countBy(op, field: string, value: unknown) {
+          if (options.search) {
+            const plan = searchHashes(
+              op,
+              (q) => q.where(field).eq(value as never),
+              {
+                limit: 0,
+              }
+            );
+            return {
+              commands: plan.commands,
+              result: async (replies) => (await plan.result(replies)).total,
+            };
           }
+          return {
+            commands: [findCommand(op, field, "count", value)],
+            result: ([count]) => count as number,
+          };
+        },
+
+        search(
+          op,
+          build: (q: RedisSearchBuilder<any>) => RedisSearchQuery<any>,
+          searchOptions?: RedisSearchOptions<any>
+        ) {
+          return searchHashes(op, build, searchOptions);
+        },
+
+        hexists(op, field: string) {
+          return {
+            commands: [command("hExists", op.key, field)],
+            result: ([exists]) => exists === 1,
+          };
+        },
+
+        hexpire(
+          op,
+          fields: string[],
+          seconds: number,
+          options?: RedisExpireOptions
+        ) {
+          return {
+            commands: [
+              command(
+                "hExpire",
+                op.key,
+                fields,
+                seconds,
+                ...expireMode(options)
+              ),
+            ],
+            // 1 when set, 2 when the field was deleted right away
+            result: ([codes]) =>
+              (codes as number[]).map((code) => code === 1 || code === 2),
+          };
+        },
+
+        httl(op, ...fields: string[]) {
+          return {
+            commands: [command("hTTL", op.key, fields)],
+            // Redis replies with null rather than -2s for a missing hash
+            result: ([seconds]) =>
+              (seconds as number[] | null) ?? fields.map(() => -2),
+          };
         },
-      } satisfies RedisHashOperations<any>;
+
+        hpersist(op, ...fields: string[]) {
+          return {
+            commands: [command("hPersist", op.key, fields)],
+            result: ([codes]) =>
+              ((codes as number[] | null) ?? fields.map(() => -2)).map(
+                (code) => code === 1
+              ),
+          };
+        },
+      } satisfies HashOperationsImpl);
     }
 
     if (def._redisType === "list") {
       const listDef = def as RedisListType<any>;
-      schemaOperations[schemaKey] = {
-        async lpush(key: string, ...values: any[]) {
-          await ensureConnection();
-          const serialized = values.map((v) =>
-            serialize(v, listDef.elementType)
-          );
-          if (serialized.length === 0) return 0;
-          const length = await client.lPush.apply(client, [
-            key,
-            ...serialized,
-          ] as any);
-
-          // Handle max length constraint (trim to last N elements)
-          if (listDef.config?.maxLength) {
-            await client.lTrim(key, -listDef.config.maxLength, -1);
-          }
+      const mode: RedisListMode | undefined = listDef.config?.mode;
+      const visibilityTimeout: number | undefined =
+        listDef.config?.visibilityTimeout;
+      // Queues are pushed to the right, so trimming to the maximum length
+      // drops the oldest values, and popped from the left when FIFO
+      const popEnd = mode === "fifo" ? "LEFT" : "RIGHT";
+      // The companion keys of a queue hash like the queue: by its own
+      // hash tag, or by the whole key braced as one
+      const queueKeys = (key: string) => {
+        const base = hashTagOf(key) === undefined ? `{${key}}` : key;
+        return [
+          key,
+          `${base}:processing`,
+          `${base}:reservations`,
+          `${base}:reserved`,
+        ];
+      };
 
-          // Set TTL if specified
-          if (listDef._ttl) {
-            await client.expire(key, listDef._ttl);
-          }
+      // The element is already removed by a pop, so there is nothing to
+      // delete when it turns out to be invalid
+      const decodePopped = async (
+        op: OperationContext,
+        value: unknown
+      ): Promise<any> => {
+        if (value === null || value === undefined) return null;
+        const decoded = await decode(
+          value as string,
+          listDef.elementType,
+          listDef,
+          op,
+          undefined
+        );
+        return decoded ? decoded.value : null;
+      };
+      const pop = (
+        op: OperationContext,
+        method: "lPop" | "rPop",
+        count?: number
+      ): OperationPlan => {
+        if (count === undefined) {
+          return {
+            commands: [command(method, op.key)],
+            result: ([value]) => decodePopped(op, value),
+          };
+        }
+        return {
+          commands: [command(`${method}Count`, op.key, count)],
+          result: async ([values]) => {
+            const popped = await Promise.all(
+              ((values ?? []) as string[]).map((v) => decodePopped(op, v))
+            );
+            return popped.filter((v) => v !== null);
+          },
+        };
+      };
+      const blockingPop = (
+        op: OperationContext,
+        method: "blPop" | "brPop",
+        timeout: number
+      ): OperationPlan => ({
+        commands: [command(method, op.key, timeout)],
+        result: ([popped]) =>
+          decodePopped(op, (popped as { element: string } | null)?.element),
+      });
+      const push = (
+        op: OperationContext,
+        method: string,
+        args: any[]
+      ): OperationPlan<number> => {
+        const [values, options] = writeArgs(args);
+        values.forEach((v) => validate(v, listDef.elementType, op));
+        const serialized = values.map((v) =>
+          serialize(v, listDef.elementType, op)
+        );
+        if (serialized.length === 0) return { commands: [], result: () => 0 };
+        return {
+          commands: [
+            command(method, op.key, serialized),
+            ...listWriteFollowUps(listDef, op.key, options?.ttl),
+          ],
+          result: ([length]) => length as number,
+        };
+      };
 
-          return length;
+      const listOperations = {
+        ...expiryOperations,
+
+        lpush(op, ...args: any[]) {
+          return push(op, "lPush", args);
         },
 
-        async rpush(key: string, ...values: any[]) {
-          await ensureConnection();
-          const serialized = values.map((v) =>
-            serialize(v, listDef.elementType)
-          );
-          if (serialized.length === 0) return 0;
-          const length = await client.rPush.apply(client, [
-            key,
-            ...serialized,
-          ] as any);
-
-          // Handle max length constraint
-          if (listDef.config?.maxLength) {
-            await client.lTrim(key, -listDef.config.maxLength, -1);
-          }
+        rpush(op, ...args: any[]) {
+          return push(op, "rPush", args);
+        },
+
+        lpushx(op, ...args: any[]) {
+          return push(op, "lPushX", args);
+        },
+
+        rpushx(op, ...args: any[]) {
+          return push(op, "rPushX", args);
+        },
+
+        lpop(op, count?: number) {
+          return pop(op, "lPop", count);
+        },
+
+        rpop(op, count?: number) {
+          return pop(op, "rPop", count);
+        },
+
+        lrange(op, start: number, stop: number) {
+          return {
+            commands: [command("lRange", op.key, start, stop)],
+            result: ([values]) =>
+              decodeAll(
+                values as string[],
+                listDef.elementType,
+                listDef,
+                op,
+                (v) => command("lRem", op.key, 0, v)
+              ),
+          };
+        },
 
-          if (listDef._ttl) {
-            await client.expire(key, listDef._ttl);
+        llen(op) {
+          return {
+            commands: [command("lLen", op.key)],
+            result: ([length]) => length as number,
+          };
+        },
+
+        lindex(op, index: number) {
+          return {
+            commands: [command("lIndex", op.key, index)],
+            result: async ([value]) => {
+              if (value === null) return null;
+              const decoded = await decode(
+                value as string,
+                listDef.elementType,
+                listDef,
+                op,
+                command("lRem", op.key, 0, value)
+              );
+              return decoded ? decoded.value : null;
+            },
+          };
+        },
+
+        lset(op, index: number, value: any, options?: RedisWriteOptions) {
+          validate(value, listDef.elementType, op);
+          return {
+            commands: [
+              command(
+                "lSet",
+                op.key,
+                index,
+                serialize(value, listDef.elementType, op)
+              ),
+              ...listWriteFollowUps(listDef, op.key, options?.ttl),
+            ],
+            result: () => undefined,
+          };
+        },
+
+        linsert(
+          op,
+          position: "before" | "after",
+          pivot: any,
+          value: any,
+          options?: RedisWriteOptions
+        ) {
+          validate(value, listDef.elementType, op);
+          return {
+            commands: [
+              command(
+                "lInsert",
+                op.key,
+                position.toUpperCase(),
+                serialize(pivot, listDef.elementType, op),
+                serialize(value, listDef.elementType, op)
+              ),
+              ...listWriteFollowUps(listDef, op.key, options?.ttl),
+            ],
+            result: ([length]) => length as number,
+          };
+        },
+
+        lrem(op, count: number, value: any) {
+          return {
+            commands: [
+              command(
+                "lRem",
+                op.key,
+                count,
+                serialize(value, listDef.elementType, op)
+              ),
+              ...listWriteFollowUps(listDef, op.key),
+            ],
+            result: ([removed]) => removed as number,
+          };
+        },
+
+        ltrim(op, start: number, stop: number) {
+          return {
+            commands: [
+              command("lTrim", op.key, start, stop),
+              ...listWriteFollowUps(listDef, op.key),
+            ],
+            result: () => undefined,
+          };
+        },
+
+        lpos(op, value: any, options: RedisLPosOptions = {}) {
+          const serialized = serialize(value, listDef.elementType, op);
+          const lposOptions = {
+            RANK: options.rank,
+            MAXLEN: options.maxLength,
+          };
+          if (options.count === undefined) {
+            return {
+              commands: [command("lPos", op.key, serialized, lposOptions)],
+              result: ([index]) => index as number | null,
+            };
           }
+          return {
+            commands: [
+              command(
+                "lPosCount",
+                op.key,
+                serialized,
+                options.count,
+                lposOptions
+              ),
+            ],
+            result: ([indexes]) => indexes as number[],
+          };
+        },
+
+        lmove(op, destination: unknown, from: RedisListEnd, to: RedisListEnd) {
+          const target = resolveKey(listDef, destination);
+          return {
+            commands: [
+              command(
+                "lMove",
+                op.key,
+                target,
+                from.toUpperCase(),
+                to.toUpperCase()
+              ),
+              ...listWriteFollowUps(listDef, target),
+            ],
+            result: ([value]) => decodePopped(op, value),
+          };
+        },
 
-          return length;
+        blpop(op, timeout: number) {
+          return blockingPop(op, "blPop", timeout);
         },
 
-        async lpop(key: string) {
-          await ensureConnection();
-          const value = await client.lPop(key);
-          return deserialize(value, listDef.elementType);
+        brpop(op, timeout: number) {
+          return blockingPop(op, "brPop", timeout);
         },
 
-        async rpop(key: string) {
-          await ensureConnection();
-          const value = await client.rPop(key);
-          return deserialize(value, listDef.elementType);
+        blmove(
+          op,
+          destination: unknown,
+          from: RedisListEnd,
+          to: RedisListEnd,
+          timeout: number
+        ) {
+          const target = resolveKey(listDef, destination);
+          return {
+            commands: [
+              command(
+                "blMove",
+                op.key,
+                target,
+                from.toUpperCase(),
+                to.toUpperCase(),
+                timeout
+              ),
+              ...listWriteFollowUps(listDef, target),
+            ],
+            result: ([value]) => decodePopped(op, value),
+          };
+        },
+      } satisfies OperationImpl<RedisListOperations<any>>;
+
+      const queueOperations = {
+        enqueue(op, ...args: any[]) {
+          return push(op, "rPush", args);
+        },
+
+        dequeue(op, timeout?: number) {
+          if (timeout !== undefined) {
+            return blockingPop(
+              op,
+              popEnd === "LEFT" ? "blPop" : "brPop",
+              timeout
+            );
+          }
+          return pop(op, popEnd === "LEFT" ? "lPop" : "rPop");
+        },
+      } satisfies OperationImpl<RedisQueueOperations<any>>;
+
+      const reliableOperations = {
+        reserve(op, timeout?: number) {
+          const id = randomUUID();
+          const keys = queueKeys(op.key);
+          const reserve = (take: string, ...moved: string[]) =>
+            command("eval", QUEUE_RESERVE_SCRIPT, {
+              keys,
+              arguments: [
+                take,
+                String(visibilityTimeout! * 1000),
+                id,
+                ...moved,
+              ],
+            });
+          const reservation = async (value: unknown) => {
+            const decoded = await decodePopped(op, value);
+            return decoded === null ? null : { id, value: decoded };
+          };
+          // A batch cannot wait, so a reserve queued in a transaction or
+          // pipeline takes the next value without blocking
+          if (timeout === undefined || op.batched) {
+            return {
+              commands: [reserve(popEnd === "LEFT" ? "LPOP" : "RPOP")],
+              result: ([value]) => reservation(value),
+            };
+          }
+          // A blocked move cannot run in a script, so the value waits in
+          // the processing list until the script reserves it, and `recover`
+          // returns it to the queue should the script never run
+          return {
+            commands: [
+              command("blMove", op.key, keys[1]!, popEnd, "RIGHT", timeout),
+            ],
+            result: async ([moved]) =>
+              moved === null
+                ? null
+                : reservation(await send(reserve("LREM", moved as string))),
+          };
         },
 
-        async lrange(key: string, start: number, stop: number) {
-          await ensureConnection();
-          const values = await client.lRange(key, start, stop);
-          return values.map((v) => deserialize(v, listDef.elementType));
+        ack(op, id: string) {
+          const [, , reservations, reserved] = queueKeys(op.key);
+          return {
+            commands: [
+              command("hDel", reservations!, id),
+              command("zRem", reserved!, id),
+            ],
+            result: ([removed]) => (removed as number) > 0,
+          };
         },
 
-        async llen(key: string) {
-          await ensureConnection();
-          return await client.lLen(key);
+        recover(op) {
+          return {
+            commands: [
+              command("eval", QUEUE_RECOVER_SCRIPT, {
+                keys: queueKeys(op.key),
+                arguments: [popEnd === "LEFT" ? "LPUSH" : "RPUSH"],
+              }),
+            ],
+            result: ([recovered]) => Number(recovered),
+          };
         },
-      } satisfies RedisListOperations<any>;
+      } satisfies OperationImpl<RedisReliableQueueOperations<any>>;
+
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...listOperations,
+        ...(mode ? queueOperations : {}),
+        ...(mode && visibilityTimeout !== undefined ? reliableOperations : {}),
+      });
     }
 
     if (def._redisType === "set") {
       const setDef = def as RedisSetType<any>;
-      schemaOperations[schemaKey] = {
-        async sadd(key: string, ...members: any[]) {
-          await ensureConnection();
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...expiryOperations,
+
+        sadd(op, ...args: any[]) {
+          const [members, options] = writeArgs(args);
+          const ttl = options?.ttl ?? setDef._ttl;
+          members.forEach((m) => validate(m, setDef.elementType, op));
           const serialized = members.map((m) =>
-            serialize(m, setDef.elementType)
+            serialize(m, setDef.elementType, op)
           );
-          if (serialized.length === 0) return 0;
-          const count = await client.sAdd.apply(client, [
-            key,
-            ...serialized,
-          ] as any);
-
-          // Handle max size constraint (batch removal)
-          if (setDef.config?.maxSize) {
-            const currentSize = await client.sCard(key);
-            if (currentSize > setDef.config.maxSize) {
-              const excess = currentSize - setDef.config.maxSize;
-              // Batch sPop if supported (Redis >= 3.2)
-              if (excess > 0) {
+          if (serialized.length === 0) return { commands: [], result: () => 0 };
+          const maxSize: number | undefined = setDef.config?.maxSize;
+          if (op.batched) {
+            // Trimming depends on the set size, so in a batch it runs as a
+            // script
+            return {
+              commands: [
+                command("sAdd", op.key, serialized),
+                ...(maxSize
+                  ? [
+                      command("eval", TRIM_SET_SCRIPT, {
+                        keys: [op.key],
+                        arguments: [String(maxSize)],
+                      }),
+                    ]
+                  : []),
+                ...(ttl ? [command("expire", op.key, ttl)] : []),
+              ],
+              result: ([count]) => count as number,
+            };
+          }
+          return {
+            commands: [
+              command("sAdd", op.key, serialized),
+              ...(maxSize ? [command("sCard", op.key)] : []),
+            ],
+            result: ([count]) => count as number,
+            followUp: (replies) => {
+              const followUps: RedisCommand[] = [];
+              // Handle max size constraint (batch removal)
+              if (maxSize) {
+                const excess = (replies[1] as number) - maxSize;
                 for (let i = 0; i < excess; i++) {
-                  await client.sPop(key);
+                  followUps.push(command("sPop", op.key));
                 }
               }
-            }
-          }
-
-          if (setDef._ttl) {
-            await client.expire(key, setDef._ttl);
-          }
-
-          return count;
+              if (ttl) {
+                followUps.push(command("expire", op.key, ttl));
+              }
+              return followUps;
+            },
+          };
         },
 
-        async srem(key: string, ...members: any[]) {
-          await ensureConnection();
+        srem(op, ...members: any[]) {
           const serialized = members.map((m) =>
-            serialize(m, setDef.elementType)
+            serialize(m, setDef.elementType, op)
           );
-          return await client.sRem(key, serialized);
+          return {
+            commands: [command("sRem", op.key, serialized)],
+            result: ([count]) => count as number,
+          };
         },
 
-        async smembers(key: string) {
-          await ensureConnection();
-          const members = await client.sMembers(key);
-          return members.map((m) => deserialize(m, setDef.elementType));
+        smembers(op) {
+          return {
+            commands: [command("sMembers", op.key)],
+            result: ([members]) =>
+              decodeAll(
+                members as string[],
+                setDef.elementType,
+                setDef,
+                op,
+                (m) => command("sRem", op.key, m)
+              ),
+          };
         },
 
-        async sismember(key: string, member: any): Promise<boolean> {
-          await ensureConnection();
-          const serialized = serialize(member, setDef.elementType);
-          return (await client.sIsMember(key, serialized)) === 1;
+        sismember(op, member: any) {
+          const serialized = serialize(member, setDef.elementType, op);
+          return {
+            commands: [command("sIsMember", op.key, serialized)],
+            result: ([isMember]) => isMember === 1,
+          };
         },
 
-        async scard(key: string) {
-          await ensureConnection();
-          return await client.sCard(key);
+        scard(op) {
+          return {
+            commands: [command("sCard", op.key)],
+            result: ([count]) => count as number,
+          };
         },
-      } satisfies RedisSetOperations<any>;
+      } satisfies OperationImpl<RedisSetOperations<any>>);
     }
 
     if (def._redisType === "zset") {
       const zsetDef = def as RedisSortedSetType<any>;
-      schemaOperations[schemaKey] = {
-        async zadd(key: string, score: number, member: any) {
-          await ensureConnection();
-          const serialized = serialize(member, zsetDef.elementType);
-          const count = await client.zAdd(key, [{ score, value: serialized }]);
-
-          // Handle max size constraint (batch removal)
-          if (zsetDef.config?.maxSize) {
-            const currentSize = await client.zCard(key);
-            if (currentSize > zsetDef.config.maxSize) {
-              const excess = currentSize - zsetDef.config.maxSize;
-              if (excess > 0) {
-                // Remove all excess in one call
-                await client.zRemRangeByRank(key, 0, excess - 1);
-              }
-            }
-          }
+      const maxSize: number | undefined = zsetDef.config?.maxSize;
+      // Commands that keep a sorted set within its maximum size, keeping
+      // the highest-scored members, and refresh its TTL
+      const zsetWriteFollowUps = (key: string, ttl?: number) => [
+        ...(maxSize
+          ? [command("zRemRangeByRank", key, 0, -(maxSize + 1))]
+          : []),
+        ...(ttl ? [command("expire", key, ttl)] : []),
+      ];
 
-          if (zsetDef._ttl) {
-            await client.expire(key, zsetDef._ttl);
-          }
+      // Read members with their scores, dropping those the policy
+      // discards. Popped members are already removed, so there is nothing
+      // to delete when they turn out to be invalid.
+      const decodeScored = async (
+        op: OperationContext,
+        members: { value: string; score: number }[],
+        popped = false
+      ): Promise<ScoredMember<any>[]> => {
+        const result: ScoredMember<any>[] = [];
+        for (const { value, score } of members) {
+          const decoded = await decode(
+            value,
+            zsetDef.elementType,
+            zsetDef,
+            op,
+            popped ? undefined : command("zRem", op.key, value)
+          );
+          if (decoded) result.push({ member: decoded.value, score });
+        }
+        return result;
+      };
+
+      // Read a range, with scores when asked
+      const readRange = (
+        op: OperationContext,
+        args: unknown[],
+        withScores?: boolean
+      ): OperationPlan => ({
+        commands: [
+          command(withScores ? "zRangeWithScores" : "zRange", op.key, ...args),
+        ],
+        result: ([members]) =>
+          withScores
+            ? decodeScored(op, members as { value: string; score: number }[])
+            : decodeAll(
+                members as string[],
+                zsetDef.elementType,
+                zsetDef,
+                op,
+                (m) => command("zRem", op.key, m)
+              ),
+      });
+
+      // Read a range by score or member, from max down to min with `rev`
+      const readRangeBy = (
+        op: OperationContext,
+        by: "SCORE" | "LEX",
+        min: string,
+        max: string,
+        options: RedisZRangeByOptions = {}
+      ) =>
+        readRange(
+          op,
+          [
+            ...(options.rev ? [max, min] : [min, max]),
+            { BY: by, REV: options.rev || undefined, LIMIT: options.limit },
+          ],
+          options.withScores
+        );
+
+      const pop = (
+        op: OperationContext,
+        method: "zPopMin" | "zPopMax",
+        count?: number
+      ): OperationPlan => {
+        if (count !== undefined) {
+          return {
+            commands: [command(`${method}Count`, op.key, count)],
+            result: ([members]) =>
+              decodeScored(
+                op,
+                members as { value: string; score: number }[],
+                true
+              ),
+          };
+        }
+        return {
+          commands: [command(method, op.key)],
+          result: async ([member]) =>
+            member === null
+              ? null
+              : (
+                  await decodeScored(
+                    op,
+                    [member as { value: string; score: number }],
+                    true
+                  )
+                )[0] ?? null,
+        };
+      };
+
+      const blockingPop = (
+        op: OperationContext,
+        method: "bzPopMin" | "bzPopMax",
+        timeout: number
+      ): OperationPlan => ({
+        commands: [command(method, op.key, timeout)],
+        result: async ([member]) =>
+          member === null
+            ? null
+            : (
+                await decodeScored(
+                  op,
+                  [member as { value: string; score: number }],
+                  true
+                )
+              )[0] ?? null,
+      });
+
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...expiryOperations,
+
+        zadd(
+          op,
+          scoreOrMembers: number | ScoredMember<any>[],
+          memberOrOptions?: any,
+          options?: RedisZAddOptions
+        ) {
+          // The options follow the member of a single score, or the members
+          const single = typeof scoreOrMembers === "number";
+          const members: ScoredMember<any>[] = single
+            ? [{ score: scoreOrMembers, member: memberOrOptions }]
+            : scoreOrMembers;
+          const addOptions: RedisZAddOptions | undefined = single
+            ? options
+            : memberOrOptions;
+          const mode = zaddMode(addOptions);
+          members.forEach((m) => validate(m.member, zsetDef.elementType, op));
+          const serialized = members
+            .filter((m) => m.member !== undefined)
+            .map((m) => ({
+              score: m.score,
+              value: serialize(m.member, zsetDef.elementType, op),
+            }));
+          if (serialized.length === 0) return { commands: [], result: () => 0 };
+          return {
+            commands: [
+              command("zAdd", op.key, serialized, ...(mode ? [mode] : [])),
+              ...zsetWriteFollowUps(op.key, addOptions?.ttl ?? zsetDef._ttl),
+            ],
+            result: ([count]) => count as number,
+          };
+        },
+
+        zincrby(
+          op,
+          increment: number,
+          member: any,
+          options?: RedisWriteOptions
+        ) {
+          validate(member, zsetDef.elementType, op);
+          const serialized = serialize(member, zsetDef.elementType, op);
+          return {
+            commands: [
+              command("zIncrBy", op.key, increment, serialized),
+              ...zsetWriteFollowUps(op.key, options?.ttl ?? zsetDef._ttl),
+            ],
+            result: ([score]) => Number(score),
+          };
+        },
+
+        zrem(op, ...members: any[]) {
+          const serialized = members.map((m) =>
+            serialize(m, zsetDef.elementType, op)
+          );
+          return {
+            commands: [command("zRem", op.key, serialized)],
+            result: ([count]) => count as number,
+          };
+        },
+
+        zrange(op, start: number, stop: number, options?: RedisZRangeOptions) {
+          return readRange(
+            op,
+            [start, stop, ...(options?.rev ? [{ REV: true }] : [])],
+            options?.withScores
+          );
+        },
+
+        zrangeByScore(
+          op,
+          min: RedisScoreBound,
+          max: RedisScoreBound,
+          options?: RedisZRangeByOptions
+        ) {
+          return readRangeBy(
+            op,
+            "SCORE",
+            scoreBound(min),
+            scoreBound(max),
+            options
+          );
+        },
+
+        zrangeByLex(
+          op,
+          min: RedisLexBound,
+          max: RedisLexBound,
+          options?: Omit<RedisZRangeByOptions, "withScores">
+        ) {
+          return readRangeBy(op, "LEX", min, max, options);
+        },
+
+        zcount(op, min: RedisScoreBound, max: RedisScoreBound) {
+          return {
+            commands: [
+              command("zCount", op.key, scoreBound(min), scoreBound(max)),
+            ],
+            result: ([count]) => count as number,
+          };
+        },
+
+        zcard(op) {
+          return {
+            commands: [command("zCard", op.key)],
+            result: ([count]) => count as number,
+          };
+        },
+
+        zrank(op, member: any) {
+          const serialized = serialize(member, zsetDef.elementType, op);
+          return {
+            commands: [command("zRank", op.key, serialized)],
+            result: ([rank]) => rank as number | null,
+          };
+        },
 
-          return count;
+        zrevrank(op, member: any) {
+          const serialized = serialize(member, zsetDef.elementType, op);
+          return {
+            commands: [command("zRevRank", op.key, serialized)],
+            result: ([rank]) => rank as number | null,
+          };
         },
 
-        async zrem(key: string, ...members: any[]) {
-          await ensureConnection();
+        zscore(op, member: any) {
+          const serialized = serialize(member, zsetDef.elementType, op);
+          return {
+            commands: [command("zScore", op.key, serialized)],
+            result: ([score]) => score as number | null,
+          };
+        },
+
+        zmscore(op, ...members: any[]) {
+          if (members.length === 0) return { commands: [], result: () => [] };
           const serialized = members.map((m) =>
-            serialize(m, zsetDef.elementType)
+            serialize(m, zsetDef.elementType, op)
+          );
+          return {
+            commands: [command("zmScore", op.key, serialized)],
+            result: ([scores]) => scores as (number | null)[],
+          };
+        },
+
+        zpopmin(op, count?: number) {
+          return pop(op, "zPopMin", count);
+        },
+
+        zpopmax(op, count?: number) {
+          return pop(op, "zPopMax", count);
+        },
+
+        bzpopmin(op, timeout: number) {
+          return blockingPop(op, "bzPopMin", timeout);
+        },
+
+        bzpopmax(op, timeout: number) {
+          return blockingPop(op, "bzPopMax", timeout);
+        },
+      } satisfies OperationImpl<RedisSortedSetOperations<any>>);
+    }
+
+    if (def._redisType === "stream") {
+      const streamDef = def as RedisStreamType<any>;
+      type RawEntry = { id: string; message: Record<string, string> };
+
+      // Decode an entry through the field codecs. An entry with a field
+      // removed by the "delete" policy is deleted from the stream and
+      // dropped from the result.
+      const decodeEntry = async (
+        op: OperationContext,
+        raw: RawEntry
+      ): Promise<StreamEntry<any> | undefined> => {
+        const message: any = {};
+        for (const [field, value] of Object.entries(raw.message)) {
+          const fieldDef = streamDef.fields[field] as RedisHashField<any>;
+          // Fields outside the schema are not part of the result type
+          if (!fieldDef) continue;
+          const remove = command("xDel", op.key, raw.id);
+          const decoded = await decode(
+            value,
+            fieldDef,
+            streamDef,
+            op,
+            remove,
+            field
           );
-          return await client.zRem(key, serialized);
+          if (decoded) {
+            message[field] = decoded.value;
+          } else if (policyFor(fieldDef, streamDef) === "delete") {
+            return undefined;
+          }
+        }
+        for (const [field, fieldDef] of Object.entries(streamDef.fields)) {
+          const typedFieldDef = fieldDef as RedisHashField<any>;
+          if (!(field in message) && typedFieldDef._default !== undefined) {
+            message[field] = typedFieldDef._default;
+          }
+        }
+        return { id: raw.id, message };
+      };
+
+      const decodeEntries = async (
+        op: OperationContext,
+        raw: (RawEntry | null)[]
+      ): Promise<StreamEntry<any>[]> => {
+        const entries: StreamEntry<any>[] = [];
+        for (const entry of raw) {
+          // XAUTOCLAIM reports entries deleted while pending as null
+          if (entry === null) continue;
+          const decoded = await decodeEntry(op, entry);
+          if (decoded) entries.push(decoded);
+        }
+        return entries;
+      };
+
+      // XREAD and XREADGROUP reply with the entries grouped per stream
+      const decodeStreams = (op: OperationContext, reply: unknown) => {
+        const streams = reply as { messages: RawEntry[] }[] | null;
+        return decodeEntries(op, streams?.[0]?.messages ?? []);
+      };
+
+      const trimArgs = (trim: StreamTrimOptions) => ({
+        strategy: trim.strategy,
+        strategyModifier: trim.approximate ? "~" : undefined,
+        threshold: trim.threshold,
+        limit: trim.limit,
+      });
+
+      schemaOperations[schemaKey] = bindOperations(schemaKey, def, {
+        ...expiryOperations,
+
+        xadd(op, message: Record<string, any>, options = {}) {
+          const ttl = options.ttl ?? streamDef._ttl;
+          requireFields(message, streamDef.fields, op);
+          const serialized: Record<string, string> = {};
+          for (const [field, value] of Object.entries(message)) {
+            const fieldDef = streamDef.fields[field];
+            validate(value, fieldDef, op, field);
+            serialized[field] = serialize(value, fieldDef, op, field);
+          }
+          return {
+            commands: [
+              command(
+                "xAdd",
+                op.key,
+                options.id ?? "*",
+                serialized,
+                options.trim ? { TRIM: trimArgs(options.trim) } : undefined
+              ),
+              ...(ttl ? [command("expire", op.key, ttl)] : []),
+            ],
+            result: ([id]) => id as string,
+          };
+        },
+
+        xrange(op, start = "-", end = "+", options = {}) {
+          return {
+            commands: [
+              command("xRange", op.key, start, end, { COUNT: options.count }),
+            ],
+            result: ([entries]) => decodeEntries(op, entries as RawEntry[]),
+          };
+        },
+
+        xrevrange(op, end = "+", start = "-", options = {}) {
+          return {
+            commands: [
+              command("xRevRange", op.key, end, start, {
+                COUNT: options.count,
+              }),
+            ],
+            result: ([entries]) => decodeEntries(op, entries as RawEntry[]),
+          };
+        },
+
+        xread(op, id: string, options = {}) {
+          return {
+            commands: [
+              command(
+                "xRead",
+                { key: op.key, id },
+                { COUNT: options.count, BLOCK: options.block }
+              ),
+            ],
+            result: ([reply]) => decodeStreams(op, reply),
+          };
+        },
+
+        xlen(op) {
+          return {
+            commands: [command("xLen", op.key)],
+            result: ([length]) => length as number,
+          };
+        },
+
+        xtrim(op, trim: StreamTrimOptions) {
+          const { strategy, threshold, strategyModifier, limit } =
+            trimArgs(trim);
+          return {
+            commands: [
+              command("xTrim", op.key, strategy, threshold, {
+                strategyModifier,
+                LIMIT: limit,
+              }),
+            ],
+            result: ([count]) => count as number,
+          };
+        },
+
+        xgroupCreate(op, group: string, id = "$", options = {}) {
+          return {
+            commands: [
+              command("xGroupCreate", op.key, group, id, {
+                MKSTREAM: options.mkStream,
+              }),
+            ],
+            result: () => undefined,
+          };
+        },
+
+        xreadgroup(op, group: string, consumer: string, options = {}) {
+          return {
+            commands: [
+              command(
+                "xReadGroup",
+                group,
+                consumer,
+                { key: op.key, id: options.id ?? ">" },
+                {
+                  COUNT: options.count,
+                  BLOCK: options.block,
+                  NOACK: options.noAck,
+                }
+              ),
+            ],
+            result: ([reply]) => decodeStreams(op, reply),
+          };
         },
 
-        async zrange(key: string, start: number, stop: number) {
-          await ensureConnection();
-          const members = await client.zRange(key, start, stop);
-          return members.map((m) => deserialize(m, zsetDef.elementType));
+        xack(op, group: string, ...ids: string[]) {
+          if (ids.length === 0) return { commands: [], result: () => 0 };
+          return {
+            commands: [command("xAck", op.key, group, ids)],
+            result: ([count]) => count as number,
+          };
         },
 
-        async zrank(key: string, member: any) {
-          await ensureConnection();
-          const serialized = serialize(member, zsetDef.elementType);
-          return await client.zRank(key, serialized);
+        xpending(op, group: string) {
+          return {
+            commands: [command("xPending", op.key, group)],
+            result: ([reply]) => {
+              const summary = reply as {
+                pending: number;
+                firstId: string | null;
+                lastId: string | null;
+                consumers: { name: string; deliveriesCounter: number }[] | null;
+              };
+              return {
+                pending: summary.pending,
+                firstId: summary.firstId,
+                lastId: summary.lastId,
+                consumers: (summary.consumers ?? []).map((consumer) => ({
+                  name: consumer.name,
+                  pending: consumer.deliveriesCounter,
+                })),
+              };
+            },
+          };
         },
 
-        async zscore(key: string, member: any) {
-          await ensureConnection();
-          const serialized = serialize(member, zsetDef.elementType);
-          return await client.zScore(key, serialized);
+        xautoclaim(
+          op,
+          group: string,
+          consumer: string,
+          minIdleTime: number,
+          start = "0-0",
+          options = {}
+        ) {
+          return {
+            commands: [
+              command(
+                "xAutoClaim",
+                op.key,
+                group,
+                consumer,
+                minIdleTime,
+                start,
+                { COUNT: options.count }
+              ),
+            ],
+            result: async ([reply]) => {
+              const claimed = reply as {
+                nextId: string;
+                messages: (RawEntry | null)[];
+                deletedMessages: string[] | null;
+              };
+              return {
+                nextId: claimed.nextId,
+                entries: await decodeEntries(op, claimed.messages),
+                deletedIds: claimed.deletedMessages ?? [],
+              };
+            },
+          };
         },
-      } satisfies RedisSortedSetOperations<any>;
+      } satisfies StreamOperationsImpl);
+    }
+
+    if (def._redisType === "channel") {
+      const channelDef = def as RedisChannelType<any, RedisKey>;
+      const { payloadType } = channelDef;
+
+      const publish = (channel: string, payload: any) => {
+        const op = operationContext(schemaKey, def, "publish", channel);
+        return traced(op, () =>
+          perform(op, () => {
+            validate(payload, payloadType, op);
+            const serialized = serialize(payload, payloadType, op);
+            return {
+              commands: [command("publish", channel, serialized)],
+              result: ([count]) => count as number,
+            };
+          })
+        );
+      };
+
+      // Subscribe on the subscriber connection. Messages are decoded like
+      // stored values; failures are reported to the logger, as there is no
+      // caller to throw to.
+      const listen = (
+        operation: "subscribe" | "psubscribe",
+        target: string,
+        handler: (payload: any, channel: string) => unknown
+      ): Promise<RedisUnsubscribe> => {
+        const op = operationContext(schemaKey, def, operation, target);
+        const listener = async (message: string, channel: string) => {
+          const received = { ...op, key: channel };
+          try {
+            const decoded = await decode(
+              message,
+              payloadType,
+              channelDef,
+              received,
+              undefined
+            );
+            if (decoded) await handler(decoded.value, channel);
+          } catch (err) {
+            logger?.error(`Redis ${op.command} handler error:`, err);
+          }
+        };
+        return traced(op, async () => {
+          const sub = await getSubscriber(op);
+          if (operation === "subscribe") {
+            await sub.subscribe(target, listener);
+          } else {
+            await sub.psubscribe(target, listener);
+          }
+          let active = true;
+          return async () => {
+            if (!active) return;
+            active = false;
+            const command =
+              operation === "subscribe" ? "UNSUBSCRIBE" : "PUNSUBSCRIBE";
+            await run({ ...op, command }, () =>
+              operation === "subscribe"
+                ? sub.unsubscribe(target, listener)
+                : sub.punsubscribe(target, listener)
+            );
+          };
+        });
+      };
+
+      const pattern = channelDef.key;
+      schemaOperations[schemaKey] = isKeyPattern(pattern)
+        ? ({
+            async publish(params: unknown, payload: any) {
+              return publish(resolveKey(def, params), payload);
+            },
+            async subscribe(params: unknown, handler: (payload: any) => void) {
+              return listen("subscribe", resolveKey(def, params), (payload) =>
+                handler(payload)
+              );
+            },
+            async psubscribe(
+              handler: (payload: any, params: any, channel: string) => void
+            ) {
+              return listen(
+                "psubscribe",
+                patternToGlob(pattern),
+                (payload, channel) =>
+                  handler(payload, parseKey(pattern, channel), channel)
+              );
+            },
+          } satisfies RedisPatternChannelOperations<any, string>)
+        : ({
+            publish: (payload: any) => publish(pattern, payload),
+            subscribe: (handler: (payload: any) => void) =>
+              listen("subscribe", pattern, (payload) => handler(payload)),
+          } satisfies RedisChannelOperations<any>);
     }
   }
 
   return {
     schema: schemaOperations,
+    scripts,
+    /**
+     * Connect the Redis client.
+     */
+    connect,
+    /**
+     * Close the Redis client.
+     */
+    close,
     /**
      * Quit the Redis client.
      */
-    async quit() {
-      if (connected) {
-        try {
-          await client.quit();
-          connected = false;
-        } catch (err) {
-          console.error("Redis disconnect error:", err);
-          throw err;
-        }
-      }
-    },
+    quit: close,
     /**
      * Ping the Redis server.
      */
     async ping() {
-      await ensureConnection();
-      try {
-        return await client.ping();
-      } catch (err) {
-        console.error("Redis ping error:", err);
-        throw err;
-      }
+      return run({ command: "PING" }, async () => {
+        await ensureConnection();
+        return (await send(command("ping"))) as string;
+      });
     },
     /**
      * Check if the client is connected.
      */
     isConnected,
+    /**
+     * The current connection state.
+     */
+    connectionState: () => state,
     /**
      * Reconnect the client.
      */
     reconnect,
+    /**
+     * Run schema operations atomically in one MULTI/EXEC.
+     */
+    transaction,
+    /**
+     * Create a pipeline.
+     */
+    pipeline,
   } as RedisClient<TSchema> & {
+    readonly scripts: { [N in keyof TScripts]: ScriptFunction<TScripts[N]> };
+    connect(): Promise<void>;
+    close(): Promise<void>;
     quit(): Promise<void>;
     ping(): Promise<string>;
     isConnected(): boolean;
+    connectionState(): RedisConnectionState;
     reconnect(): Promise<void>;
+    transaction<const R extends readonly QueuedOperation[] | void>(
+      fn: (tx: QueuedSchemaOperations<TSchema>) => R
+    ): Promise<QueuedResults<R>>;
+    pipeline(): RedisPipeline<TSchema>;
   };
 }
+
+/**
+ * Options for a schema client backed by an in-process store.
+ * @template TScripts The scripts registered on the client.
+ */
+export interface MemoryRedisClientOptions<
+  TScripts extends Record<string, RedisScript<any, any, any>> = {}
+> extends RedisClientOptions<TScripts> {
+  /**
+   * JavaScript implementations of the registered scripts, by script name,
+   * run in place of their Lua source. Calling a registered script without
+   * one fails, since the store cannot run Lua.
+   */
+  memoryScripts?: { [N in keyof TScripts]?: MemoryScript };
+}
+
+/**
+ * Create a schema client backed by an in-process store instead of a Redis
+ * server, for tests. Keys expire and blocked reads time out on the
+ * returned `clock`, which only moves when advanced.
+ * @template TSchema The schema definition.
+ * @param schema The schema definition.
+ * @param options Client options.
+ */
+export function createMemoryRedisClient<
+  TSchema extends Record<string, RedisDataType>,
+  TScripts extends Record<string, RedisScript<any, any, any>> = {}
+>(
+  schema: TSchema,
+  options: MemoryRedisClientOptions<TScripts> = {}
+): ReturnType<typeof createRedisClient<TSchema, TScripts>> & {
+  /**
+   * The clock that expires keys and times out blocked reads.
+   */
+  readonly clock: MemoryClock;
+} {
+  const clock = createMemoryClock();
+  const driver = memoryDriver({
+    clock,
+    scripts: {
+      [TRIM_SET_SCRIPT]: trimSet,
+      [INDEX_HSET_SCRIPT]: indexHset,
+      [INDEX_HDEL_SCRIPT]: indexHdel,
+      [INDEX_DEL_SCRIPT]: indexDel,
+      [INDEX_FIND_SCRIPT]: indexFind,
+      [QUEUE_RESERVE_SCRIPT]: queueReserve,
+      [QUEUE_RECOVER_SCRIPT]: queueRecover,
+      ...Object.fromEntries(
+        Object.entries(options.memoryScripts ?? {}).map(([name, script]) => [
+          options.scripts![name]!.source,
+          script,
+        ])
+      ),
+    },
+  });
+  return Object.assign(createRedisClient(driver, schema, options), { clock });
+}
@@ -0,0 +1,1309 @@
+import { createHash } from "node:crypto";
+import type {
+  RedisCommand,
+  RedisDriver,
+  RedisMessageListener,
+} from "./drivers";
+
+/**
+ * The clock that expires keys and times out blocked reads in memory. Time
+ * only moves when advanced, so tests control exactly when keys expire and
+ * blocked reads give up.
+ */
+export interface MemoryClock {
+  /**
+   * The current time in milliseconds.
+   */
+  now(): number;
+  /**
+   * Move the clock forward.
+   * @param ms The milliseconds to advance by.
+   */
+  advance(ms: number): void;
+  /**
+   * Listen for the clock moving forward.
+   * @param listener Called after each advance.
+   */
+  onAdvance(listener: () => void): void;
+}
+
+/**
+ * Create a clock for the memory driver.
+ * @param start The start time in milliseconds. Defaults to now.
+ */
+export function createMemoryClock(start = Date.now()): MemoryClock {
+  let time = start;
+  const listeners: (() => void)[] = [];
+  return {
+    now: () => time,
+    advance(ms) {
+      time += ms;
+      listeners.forEach((listener) => listener());
+    },
+    onAdvance(listener) {
+      listeners.push(listener);
+    },
+  };
+}
+
+/**
+ * A JavaScript implementation of a Lua script, run by the memory driver in
+ * place of the script. Like `redis.call`, `call` runs a command and returns
+ * its reply.
+ */
+export type MemoryScript = (
+  call: (method: string, ...args: unknown[]) => unknown,
+  keys: string[],
+  args: string[]
+) => unknown;
+
+/**
+ * Options for the memory driver.
+ */
+export interface MemoryDriverOptions {
+  /**
+   * The clock that expires keys and times out blocked reads. Defaults to a
+   * clock frozen at the current time.
+   */
+  clock?: MemoryClock;
+  /**
+   * Implementations of the Lua scripts the driver can run, keyed by script
+   * source.
+   */
+  scripts?: Record<string, MemoryScript>;
+}
+
+type StreamEntryValue = { id: string; message: Record<string, string> };
+
+interface PendingEntry {
+  consumer: string;
+  deliveredAt: number;
+  deliveries: number;
+}
+
+interface ConsumerGroup {
+  lastId: string;
+  pending: Map<string, PendingEntry>;
+}
+
+interface StreamValue {
+  entries: StreamEntryValue[];
+  lastId: string;
+  groups: Map<string, ConsumerGroup>;
+}
+
+/**
+ * The stored value of each Redis type.
+ */
+interface StoredValues {
+  string: string;
+  hash: Map<string, string>;
+  list: string[];
+  set: Set<string>;
+  zset: Map<string, number>;
+  stream: StreamValue;
+}
+
+type StoredEntry = {
+  [T in keyof StoredValues]: { type: T; value: StoredValues[T] };
+}[keyof StoredValues] & {
+  expiresAt?: number;
+  // When each hash field with an expiry expires
+  fieldExpiresAt?: Map<string, number>;
+};
+
+// The position of the timeout argument of each blocking pop
+const BLOCKING_TIMEOUTS: Record<string, number> = {
+  blPop: 1,
+  brPop: 1,
+  blMove: 4,
+  bzPopMin: 1,
+  bzPopMax: 1,
+};
+
+interface ZRangeOptions {
+  BY?: "SCORE" | "LEX";
+  REV?: boolean;
+  LIMIT?: { offset: number; count: number };
+}
+
+interface Subscription {
+  readonly connection: object;
+  readonly target: string;
+  readonly pattern?: RegExp;
+  readonly listener: RedisMessageListener;
+}
+
+const WRONGTYPE =
+  "WRONGTYPE Operation against a key holding the wrong kind of value";
+
+// Resolve a start and stop index, either of which may count from the end,
+// to an inclusive range within a sequence
+const range = (length: number, start: number, stop: number) => {
+  const from = Math.max(start < 0 ? length + start : start, 0);
+  const to = Math.min(stop < 0 ? length + stop : stop, length - 1);
+  return [from, to] as const;
+};
+
+// Test scores against a ZRANGEBYSCORE range, where a bound starting with
+// "(" is exclusive and infinities are "-inf" and "+inf"
+const scoreRange = (min: string, max: string) => {
+  const parse = (bound: string) => {
+    const exclusive = bound.startsWith("(");
+    const value = exclusive ? bound.slice(1) : bound;
+    return {
+      exclusive,
+      value: Number(value.replace(/^([+-]?)inf$/, "$1Infinity")),
+    };
+  };
+  const lo = parse(min);
+  const hi = parse(max);
+  return (score: number) =>
+    (lo.exclusive ? score > lo.value : score >= lo.value) &&
+    (hi.exclusive ? score < hi.value : score <= hi.value);
+};
+
+// Test members against a ZRANGEBYLEX range, where bounds start with "["
+// or "(" and "-" and "+" are the lowest and highest members
+const lexRange = (min: string, max: string) => (member: string) =>
+  (min === "-" ||
+    (min !== "+" &&
+      (min.startsWith("(")
+        ? member > min.slice(1)
+        : member >= min.slice(1)))) &&
+  (max === "+" ||
+    (max !== "-" &&
+      (max.startsWith("(") ? member < max.slice(1) : member <= max.slice(1))));
+
+// Convert a glob pattern, as used by PSUBSCRIBE, to a regular expression
+const globToRegExp = (glob: string) =>
+  new RegExp(
+    `^${glob
+      .split("")
+      .map((char) =>
+        char === "*"
+          ? ".*"
+          : char === "?"
+          ? "."
+          : char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      )
+      .join("")}$`
+  );
+
+// Stream IDs compare by milliseconds, then sequence
+const parseId = (id: string, missingSequence: number): [number, number] => {
+  const [ms, seq] = id.split("-");
+  return [Number(ms), seq === undefined ? missingSequence : Number(seq)];
+};
+
+const compareIds = (a: string, b: string) => {
+  const [aMs, aSeq] = parseId(a, 0);
+  const [bMs, bSeq] = parseId(b, 0);
+  return aMs - bMs || aSeq - bSeq;
+};
+
+// Whether an entry ID is within a range bound: `-` and `+` are open, a
+// `(` prefix excludes the bound and an ID without a sequence covers all of
+// its sequences
+const afterStart = (id: string, start: string) => {
+  if (start === "-") return true;
+  const exclusive = start.startsWith("(");
+  const [ms, seq] = parseId(exclusive ? start.slice(1) : start, 0);
+  const order = compareIds(id, `${ms}-${seq}`);
+  return exclusive ? order > 0 : order >= 0;
+};
+
+const beforeEnd = (id: string, end: string) => {
+  if (end === "+") return true;
+  const exclusive = end.startsWith("(");
+  const [ms, seq] = parseId(
+    exclusive ? end.slice(1) : end,
+    Number.MAX_SAFE_INTEGER
+  );
+  const order = compareIds(id, `${ms}-${seq}`);
+  return exclusive ? order < 0 : order <= 0;
+};
+
+/**
+ * Create a driver backed by an in-process store, for tests that run
+ * without a Redis server. Connections from `duplicate()` share the store,
+ * so pub/sub messages are delivered between them.
+ * @param options Driver options.
+ */
+export function memoryDriver(options: MemoryDriverOptions = {}): RedisDriver {
+  const clock = options.clock ?? createMemoryClock();
+  const scripts = options.scripts ?? {};
+  const data = new Map<string, StoredEntry>();
+  const loadedScripts = new Map<string, string>();
+  const subscriptions = new Set<Subscription>();
+  // Blocked reads waiting for a write or for the clock to advance
+  const waiters = new Set<() => void>();
+
+  // Read a key, dropping it once expired along with the expired fields of
+  // a hash. A hash whose fields have all expired is removed.
+  const lookup = (key: string): StoredEntry | undefined => {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= clock.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    if (entry?.type === "hash" && entry.fieldExpiresAt) {
+      for (const [field, at] of entry.fieldExpiresAt) {
+        if (at > clock.now()) continue;
+        entry.value.delete(field);
+        entry.fieldExpiresAt.delete(field);
+      }
+      if (entry.value.size === 0) {
+        data.delete(key);
+        return undefined;
+      }
+    }
+    return entry;
+  };
+
+  // Read a value, failing like Redis when the key holds another type
+  const read = <T extends keyof StoredValues>(
+    key: string,
+    type: T
+  ): StoredValues[T] | undefined => {
+    const entry = lookup(key);
+    if (!entry) return undefined;
+    if (entry.type !== type) throw new Error(WRONGTYPE);
+    return entry.value as StoredValues[T];
+  };
+
+  // Read a value for writing, creating it when missing
+  const write = <T extends keyof StoredValues>(
+    key: string,
+    type: T,
+    create: () => StoredValues[T]
+  ): StoredValues[T] => {
+    const value = read(key, type);
+    if (value !== undefined) return value;
+    const created = create();
+    data.set(key, { type, value: created } as StoredEntry);
+    return created;
+  };
+
+  // Set when a key expires, if the EXPIRE condition holds. A key without
+  // an expiry counts as never expiring.
+  const expireKey = (key: string, at: number, mode?: string) => {
+    const entry = lookup(key);
+    if (!entry) return 0;
+    const current = entry.expiresAt ?? Infinity;
+    if (
+      (mode === "NX" && entry.expiresAt !== undefined) ||
+      (mode === "XX" && entry.expiresAt === undefined) ||
+      (mode === "GT" && at <= current) ||
+      (mode === "LT" && at >= current)
+    ) {
+      return 0;
+    }
+    if (at <= clock.now()) data.delete(key);
+    else entry.expiresAt = at;
+    return 1;
+  };
+
+  // The milliseconds until a key expires, -1 without an expiry and -2
+  // when it does not exist
+  const timeToLive = (key: string) => {
+    const entry = lookup(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return entry.expiresAt - clock.now();
+  };
+
+  const createStream = (): StreamValue => ({
+    entries: [],
+    lastId: "0-0",
+    groups: new Map(),
+  });
+
+  // Collections other than streams are removed once empty
+  const prune = (key: string, size: number) => {
+    if (size === 0) data.delete(key);
+  };
+
+  const notify = () => {
+    const blocked = [...waiters];
+    waiters.clear();
+    blocked.forEach((wake) => wake());
+  };
+  clock.onAdvance(notify);
+
+  const stream = (key: string) => read(key, "stream");
+
+  const group = (key: string, name: string) => {
+    const found = stream(key)?.groups.get(name);
+    if (!found) {
+      throw new Error(
+        `NOGROUP No such key '${key}' or consumer group '${name}'`
+      );
+    }
+    return found;
+  };
+
+  const trimStream = (
+    value: StreamValue,
+    strategy: string,
+    threshold: number | string,
+    limit?: number
+  ) => {
+    let remove =
+      strategy === "MAXLEN"
+        ? Math.max(value.entries.length - Number(threshold), 0)
+        : value.entries.findIndex(
+            (entry) => compareIds(entry.id, String(threshold)) >= 0
+          );
+    if (remove === -1) remove = value.entries.length;
+    if (limit !== undefined) remove = Math.min(remove, limit);
+    value.entries.splice(0, remove);
+    return remove;
+  };
+
+  const streamEntries = (
+    key: string,
+    start: string,
+    end: string,
+    count?: number
+  ) => {
+    const entries = (stream(key)?.entries ?? []).filter(
+      (entry) => afterStart(entry.id, start) && beforeEnd(entry.id, end)
+    );
+    return count === undefined ? entries : entries.slice(0, count);
+  };
+
+  const readStreams = (
+    streams: { key: string; id: string } | { key: string; id: string }[],
+    read: (stream: { key: string; id: string }) => StreamEntryValue[]
+  ) => {
+    const replies = (Array.isArray(streams) ? streams : [streams])
+      .map((stream) => ({ name: stream.key, messages: read(stream) }))
+      .filter((reply) => reply.messages.length > 0);
+    return replies.length > 0 ? replies : null;
+  };
+
+  // Resolve `$`, the last ID at the time of the call, before blocking
+  const resolveIds = (
+    streams: { key: string; id: string } | { key: string; id: string }[]
+  ) =>
+    (Array.isArray(streams) ? streams : [streams]).map((s) => ({
+      key: s.key,
+      id: s.id === "$" ? stream(s.key)?.lastId ?? "0-0" : s.id,
+    }));
+
+  const commands: Record<string, (...args: any[]) => unknown> = {
+    ping: () => "PONG",
+
+    // Seconds and microseconds since the epoch, by the clock
+    time: () => [
+      String(Math.floor(clock.now() / 1000)),
+      String((clock.now() % 1000) * 1000),
+    ],
+
+    get(key: string) {
+      const entry = lookup(key);
+      if (!entry) return null;
+      if (entry.type !== "string") throw new Error(WRONGTYPE);
+      return entry.value;
+    },
+
+    set(key: string, value: string, options?: { expiration?: string }) {
+      const expiresAt =
+        options?.expiration === "KEEPTTL" ? lookup(key)?.expiresAt : undefined;
+      data.set(key, { type: "string", value: String(value), expiresAt });
+      return "OK";
+    },
+
+    setEx(key: string, seconds: number, value: string) {
+      data.set(key, {
+        type: "string",
+        value: String(value),
+        expiresAt: clock.now() + seconds * 1000,
+      });
+      return "OK";
+    },
+
+    del(keys: string | string[]) {
+      let count = 0;
+      for (const key of [keys].flat()) {
+        if (lookup(key)) count++;
+        data.delete(key);
+      }
+      return count;
+    },
+
+    exists(keys: string | string[]) {
+      return [keys].flat().filter((key) => lookup(key)).length;
+    },
+
+    expire: (key: string, seconds: number, mode?: string) =>
+      expireKey(key, clock.now() + seconds * 1000, mode),
+
+    expireAt: (key: string, timestamp: number, mode?: string) =>
+      expireKey(key, timestamp * 1000, mode),
+
+    ttl(key: string) {
+      const remaining = timeToLive(key);
+      return remaining < 0 ? remaining : Math.round(remaining / 1000);
+    },
+
+    pTTL: (key: string) => timeToLive(key),
+
+    persist(key: string) {
+      const entry = lookup(key);
+      if (entry?.expiresAt === undefined) return 0;
+      delete entry.expiresAt;
+      return 1;
+    },
+
+    hGet: (key: string, field: string) => read(key, "hash")?.get(field) ?? null,
+
+    hSet(
+      key: string,
+      fieldOrFields: string | Record<string, string>,
+      value?: string
+    ) {
+      const hash = write(key, "hash", () => new Map<string, string>());
+      const fields =
+        typeof fieldOrFields === "object"
+          ? Object.entries(fieldOrFields)
+          : [[fieldOrFields, value]];
+      // Overwriting a field clears its expiry
+      const expiries = lookup(key)!.fieldExpiresAt;
+      let added = 0;
+      for (const [field, fieldValue] of fields) {
+        if (!hash.has(field!)) added++;
+        hash.set(field!, String(fieldValue));
+        expiries?.delete(field!);
+      }
+      return added;
+    },
+
+    hGetAll: (key: string) =>
+      Object.fromEntries(read(key, "hash") ?? new Map<string, string>()),
+
+    hDel(key: string, fields: string | string[]) {
+      const hash = read(key, "hash");
+      if (!hash) return 0;
+      const count = [fields]
+        .flat()
+        .filter((field) => hash.delete(field)).length;
+      prune(key, hash.size);
+      return count;
+    },
+
+    hExists: (key: string, field: string) =>
+      read(key, "hash")?.has(field) ? 1 : 0,
+
+    // Reply per field: -2 when missing, 0 when the condition is not met, 1
+    // when set and 2 when deleted right away
+    hExpire(
+      key: string,
+      fields: string | string[],
+      seconds: number,
+      mode?: string
+    ) {
+      const hash = read(key, "hash");
+      const at = clock.now() + seconds * 1000;
+      const codes = [fields].flat().map((field) => {
+        if (!hash?.has(field)) return -2;
+        const expiries = (lookup(key)!.fieldExpiresAt ??= new Map());
+        const current = expiries.get(field);
+        if (
+          (mode === "NX" && current !== undefined) ||
+          (mode === "XX" && current === undefined) ||
+          (mode === "GT" && at <= (current ?? Infinity)) ||
+          (mode === "LT" && at >= (current ?? Infinity))
+        ) {
+          return 0;
+        }
+        if (at > clock.now()) {
+          expiries.set(field, at);
+          return 1;
+        }
+        hash.delete(field);
+        expiries.delete(field);
+        return 2;
+      });
+      if (hash) prune(key, hash.size);
+      return codes;
+    },
+
+    hTTL(key: string, fields: string | string[]) {
+      const hash = read(key, "hash");
+      const expiries = lookup(key)?.fieldExpiresAt;
+      return [fields].flat().map((field) => {
+        if (!hash?.has(field)) return -2;
+        const at = expiries?.get(field);
+        return at === undefined ? -1 : Math.round((at - clock.now()) / 1000);
+      });
+    },
+
+    hPersist(key: string, fields: string | string[]) {
+      const hash = read(key, "hash");
+      const expiries = lookup(key)?.fieldExpiresAt;
+      return [fields].flat().map((field) => {
+        if (!hash?.has(field)) return -2;
+        return expiries?.delete(field) ? 1 : -1;
+      });
+    },
+
+    lPush(key: string, elements: string | string[]) {
+      const list = write(key, "list", () => [] as string[]);
+      for (const element of [elements].flat()) list.unshift(element);
+      notify();
+      return list.length;
+    },
+
+    rPush(key: string, elements: string | string[]) {
+      const list = write(key, "list", () => [] as string[]);
+      list.push(...[elements].flat());
+      notify();
+      return list.length;
+    },
+
+    lPushX: (key: string, elements: string | string[]) =>
+      read(key, "list") ? commands.lPush!(key, elements) : 0,
+
+    rPushX: (key: string, elements: string | string[]) =>
+      read(key, "list") ? commands.rPush!(key, elements) : 0,
+
+    lPop(key: string) {
+      const list = read(key, "list");
+      if (!list) return null;
+      const value = list.shift() ?? null;
+      prune(key, list.length);
+      return value;
+    },
+
+    rPop(key: string) {
+      const list = read(key, "list");
+      if (!list) return null;
+      const value = list.pop() ?? null;
+      prune(key, list.length);
+      return value;
+    },
+
+    lPopCount(key: string, count: number) {
+      const list = read(key, "list");
+      if (!list) return null;
+      const values = list.splice(0, count);
+      prune(key, list.length);
+      return values;
+    },
+
+    rPopCount(key: string, count: number) {
+      const list = read(key, "list");
+      if (!list) return null;
+      const values = list.splice(Math.max(list.length - count, 0)).reverse();
+      prune(key, list.length);
+      return values;
+    },
+
+    lIndex(key: string, index: number) {
+      const list = read(key, "list") ?? [];
+      return list[index < 0 ? list.length + index : index] ?? null;
+    },
+
+    lSet(key: string, index: number, element: string) {
+      const list = read(key, "list");
+      if (!list) throw new Error("ERR no such key");
+      const i = index < 0 ? list.length + index : index;
+      if (i < 0 || i >= list.length) throw new Error("ERR index out of range");
+      list[i] = element;
+      return "OK";
+    },
+
+    lInsert(
+      key: string,
+      position: "BEFORE" | "AFTER",
+      pivot: string,
+      element: string
+    ) {
+      const list = read(key, "list");
+      if (!list) return 0;
+      const i = list.indexOf(pivot);
+      if (i === -1) return -1;
+      list.splice(position === "BEFORE" ? i : i + 1, 0, element);
+      notify();
+      return list.length;
+    },
+
+    lPos: (
+      key: string,
+      element: string,
+      options?: { RANK?: number; MAXLEN?: number }
+    ) => listPositions(key, element, 1, options)[0] ?? null,
+
+    lPosCount: (
+      key: string,
+      element: string,
+      count: number,
+      options?: { RANK?: number; MAXLEN?: number }
+    ) => listPositions(key, element, count, options),
+
+    lMove(
+      source: string,
+      destination: string,
+      from: "LEFT" | "RIGHT",
+      to: "LEFT" | "RIGHT"
+    ) {
+      const list = read(source, "list");
+      if (!list || list.length === 0) return null;
+      const element = (from === "LEFT" ? list.shift() : list.pop())!;
+      prune(source, list.length);
+      const target = write(destination, "list", () => [] as string[]);
+      if (to === "LEFT") target.unshift(element);
+      else target.push(element);
+      notify();
+      return element;
+    },
+
+    blPop(keys: string | string[]) {
+      for (const key of [keys].flat()) {
+        const element = commands.lPop!(key) as string | null;
+        if (element !== null) return { key, element };
+      }
+      return null;
+    },
+
+    brPop(keys: string | string[]) {
+      for (const key of [keys].flat()) {
+        const element = commands.rPop!(key) as string | null;
+        if (element !== null) return { key, element };
+      }
+      return null;
+    },
+
+    blMove: (
+      source: string,
+      destination: string,
+      from: "LEFT" | "RIGHT",
+      to: "LEFT" | "RIGHT"
+    ) => commands.lMove!(source, destination, from, to),
+
+    lRange(key: string, start: number, stop: number) {
+      const list = read(key, "list") ?? [];
+      const [from, to] = range(list.length, start, stop);
+      return list.slice(from, to + 1);
+    },
+
+    lLen: (key: string) => read(key, "list")?.length ?? 0,
+
+    lTrim(key: string, start: number, stop: number) {
+      const list = read(key, "list");
+      if (!list) return "OK";
+      const [from, to] = range(list.length, start, stop);
+      list.splice(0, list.length, ...list.slice(from, to + 1));
+      prune(key, list.length);
+      return "OK";
+    },
+
+    lRem(key: string, count: number, element: string) {
+      const list = read(key, "list");
+      if (!list) return 0;
+      const limit = count === 0 ? Infinity : Math.abs(count);
+      const indexes = list
+        .map((value, i) => (value === element ? i : -1))
+        .filter((i) => i !== -1);
+      const removed = (count < 0 ? indexes.reverse() : indexes).slice(0, limit);
+      for (const i of removed.sort((a, b) => b - a)) list.splice(i, 1);
+      prune(key, list.length);
+      return removed.length;
+    },
+
+    sAdd(key: string, members: string | string[]) {
+      const set = write(key, "set", () => new Set<string>());
+      const before = set.size;
+      for (const member of [members].flat()) set.add(member);
+      return set.size - before;
+    },
+
+    sRem(key: string, members: string | string[]) {
+      const set = read(key, "set");
+      if (!set) return 0;
+      const count = [members].flat().filter((m) => set.delete(m)).length;
+      prune(key, set.size);
+      return count;
+    },
+
+    sMembers: (key: string) => [...(read(key, "set") ?? [])],
+
+    sIsMember: (key: string, member: string) =>
+      read(key, "set")?.has(member) ? 1 : 0,
+
+    sCard: (key: string) => read(key, "set")?.size ?? 0,
+
+    sPop(key: string, count?: number) {
+      const set = read(key, "set");
+      const popped: string[] = [];
+      while (set && set.size > 0 && popped.length < (count ?? 1)) {
+        const members = [...set];
+        const member = members[Math.floor(Math.random() * members.length)]!;
+        set.delete(member);
+        popped.push(member);
+      }
+      if (set) prune(key, set.size);
+      return count === undefined ? popped[0] ?? null : popped;
+    },
+
+    zAdd(
+      key: string,
+      members:
+        | { score: number; value: string }
+        | { score: number; value: string }[],
+      options?: { condition?: "NX" | "XX"; comparison?: "GT" | "LT"; CH?: true }
+    ) {
+      const zset = write(key, "zset", () => new Map<string, number>());
+      let changed = 0;
+      for (const { score, value } of [members].flat()) {
+        const current = zset.get(value);
+        if (options?.condition === (current === undefined ? "XX" : "NX")) {
+          continue;
+        }
+        const next = Number(score);
+        if (
+          current !== undefined &&
+          ((options?.comparison === "GT" && next <= current) ||
+            (options?.comparison === "LT" && next >= current))
+        ) {
+          continue;
+        }
+        if (current === undefined || (options?.CH && current !== next)) {
+          changed++;
+        }
+        zset.set(value, next);
+      }
+      prune(key, zset.size);
+      notify();
+      return changed;
+    },
+
+    zIncrBy(key: string, increment: number, member: string) {
+      const zset = write(key, "zset", () => new Map<string, number>());
+      const score = (zset.get(member) ?? 0) + Number(increment);
+      zset.set(member, score);
+      notify();
+      return score;
+    },
+
+    zRem(key: string, members: string | string[]) {
+      const zset = read(key, "zset");
+      if (!zset) return 0;
+      const count = [members].flat().filter((m) => zset.delete(m)).length;
+      prune(key, zset.size);
+      return count;
+    },
+
+    zRange: (
+      key: string,
+      min: number | string,
+      max: number | string,
+      options?: ZRangeOptions
+    ) => zRangeEntries(key, min, max, options).map(([member]) => member),
+
+    zRangeWithScores: (
+      key: string,
+      min: number | string,
+      max: number | string,
+      options?: ZRangeOptions
+    ) =>
+      zRangeEntries(key, min, max, options).map(([value, score]) => ({
+        value,
+        score,
+      })),
+
+    zCount(key: string, min: string, max: string) {
+      const inRange = scoreRange(min, max);
+      return sortedEntries(key).filter(([, score]) => inRange(score)).length;
+    },
+
+    zCard: (key: string) => read(key, "zset")?.size ?? 0,
+
+    zRank(key: string, member: string) {
+      const rank = sortedMembers(key).indexOf(member);
+      return rank === -1 ? null : rank;
+    },
+
+    zRevRank(key: string, member: string) {
+      const rank = sortedMembers(key).reverse().indexOf(member);
+      return rank === -1 ? null : rank;
+    },
+
+    zScore: (key: string, member: string) =>
+      read(key, "zset")?.get(member) ?? null,
+
+    zmScore: (key: string, members: string | string[]) =>
+      [members].flat().map((m) => read(key, "zset")?.get(m) ?? null),
+
+    zPopMin: (key: string) => popScored(key, 1, false)[0] ?? null,
+
+    zPopMax: (key: string) => popScored(key, 1, true)[0] ?? null,
+
+    zPopMinCount: (key: string, count: number) => popScored(key, count, false),
+
+    zPopMaxCount: (key: string, count: number) => popScored(key, count, true),
+
+    bzPopMin(key: string) {
+      const popped = popScored(key, 1, false)[0];
+      return popped ? { key, ...popped } : null;
+    },
+
+    bzPopMax(key: string) {
+      const popped = popScored(key, 1, true)[0];
+      return popped ? { key, ...popped } : null;
+    },
+
+    zRemRangeByRank(key: string, start: number, stop: number) {
+      const zset = read(key, "zset");
+      if (!zset) return 0;
+      const members = sortedMembers(key);
+      const [from, to] = range(members.length, start, stop);
+      const removed = members.slice(from, to + 1);
+      removed.forEach((member) => zset.delete(member));
+      prune(key, zset.size);
+      return removed.length;
+    },
+
+    xAdd(
+      key: string,
+      id: string,
+      message: Record<string, string>,
+      options?: {
+        TRIM?: {
+          strategy: string;
+          threshold: number;
+          limit?: number;
+        };
+      }
+    ) {
+      const value = write(key, "stream", createStream);
+      const [lastMs, lastSeq] = parseId(value.lastId, 0);
+      let entryId = id;
+      if (id === "*") {
+        const now = Math.max(clock.now(), lastMs);
+        entryId = `${now}-${now === lastMs ? lastSeq + 1 : 0}`;
+      } else if (compareIds(id, value.lastId) <= 0) {
+        throw new Error(
+          "ERR The ID specified in XADD is equal or smaller than the target stream top item"
+        );
+      }
+      value.entries.push({ id: entryId, message: { ...message } });
+      value.lastId = entryId;
+      if (options?.TRIM) {
+        const { strategy, threshold, limit } = options.TRIM;
+        trimStream(value, strategy, threshold, limit);
+      }
+      notify();
+      return entryId;
+    },
+
+    xRange: (
+      key: string,
+      start: string,
+      end: string,
+      options?: { COUNT?: number }
+    ) => streamEntries(key, start, end, options?.COUNT),
+
+    xRevRange: (
+      key: string,
+      end: string,
+      start: string,
+      options?: { COUNT?: number }
+    ) => {
+      const entries = streamEntries(key, start, end).reverse();
+      return options?.COUNT === undefined
+        ? entries
+        : entries.slice(0, options.COUNT);
+    },
+
+    xRead: (
+      streams: { key: string; id: string } | { key: string; id: string }[],
+      options?: { COUNT?: number }
+    ) =>
+      readStreams(resolveIds(streams), ({ key, id }) =>
+        streamEntries(key, `(${id}`, "+", options?.COUNT)
+      ),
+
+    xReadGroup(
+      groupName: string,
+      consumer: string,
+      streams: { key: string; id: string } | { key: string; id: string }[],
+      options?: { COUNT?: number; NOACK?: boolean }
+    ) {
+      return readStreams(streams, ({ key, id }) => {
+        const found = group(key, groupName);
+        if (id !== ">") {
+          // Re-read the consumer's own pending entries
+          return streamEntries(key, `(${id}`, "+").filter(
+            (entry) => found.pending.get(entry.id)?.consumer === consumer
+          );
+        }
+        const entries = streamEntries(
+          key,
+          `(${found.lastId}`,
+          "+",
+          options?.COUNT
+        );
+        for (const entry of entries) {
+          found.lastId = entry.id;
+          if (!options?.NOACK) {
+            found.pending.set(entry.id, {
+              consumer,
+              deliveredAt: clock.now(),
+              deliveries: 1,
+            });
+          }
+        }
+        return entries;
+      });
+    },
+
+    xLen: (key: string) => stream(key)?.entries.length ?? 0,
+
+    xTrim(
+      key: string,
+      strategy: string,
+      threshold: number | string,
+      options?: { LIMIT?: number }
+    ) {
+      const value = stream(key);
+      return value ? trimStream(value, strategy, threshold, options?.LIMIT) : 0;
+    },
+
+    xDel(key: string, ids: string | string[]) {
+      const value = stream(key);
+      if (!value) return 0;
+      const remove = new Set([ids].flat());
+      const before = value.entries.length;
+      value.entries = value.entries.filter((entry) => !remove.has(entry.id));
+      return before - value.entries.length;
+    },
+
+    xGroupCreate(
+      key: string,
+      name: string,
+      id: string,
+      options?: { MKSTREAM?: boolean }
+    ) {
+      if (!stream(key) && !options?.MKSTREAM) {
+        throw new Error(
+          "ERR The XGROUP subcommand requires the key to exist. Note that for CREATE you may want to use the MKSTREAM option to create an empty stream automatically."
+        );
+      }
+      const value = write(key, "stream", createStream);
+      if (value.groups.has(name)) {
+        throw new Error("BUSYGROUP Consumer Group name already exists");
+      }
+      value.groups.set(name, {
+        lastId: id === "$" ? value.lastId : id,
+        pending: new Map(),
+      });
+      return "OK";
+    },
+
+    xAck(key: string, groupName: string, ids: string | string[]) {
+      const found = stream(key)?.groups.get(groupName);
+      if (!found) return 0;
+      return [ids].flat().filter((id) => found.pending.delete(id)).length;
+    },
+
+    xPending(key: string, groupName: string) {
+      const found = group(key, groupName);
+      const ids = [...found.pending.keys()].sort(compareIds);
+      const consumers = new Map<string, number>();
+      for (const { consumer } of found.pending.values()) {
+        consumers.set(consumer, (consumers.get(consumer) ?? 0) + 1);
+      }
+      return {
+        pending: ids.length,
+        firstId: ids[0] ?? null,
+        lastId: ids[ids.length - 1] ?? null,
+        consumers:
+          consumers.size > 0
+            ? [...consumers].map(([name, deliveriesCounter]) => ({
+                name,
+                deliveriesCounter,
+              }))
+            : null,
+      };
+    },
+
+    xAutoClaim(
+      key: string,
+      groupName: string,
+      consumer: string,
+      minIdleTime: number,
+      start: string,
+      options?: { COUNT?: number }
+    ) {
+      const found = group(key, groupName);
+      const entries = new Map(
+        (stream(key)?.entries ?? []).map((entry) => [entry.id, entry])
+      );
+      const candidates = [...found.pending.keys()]
+        .filter((id) => afterStart(id, start))
+        .sort(compareIds);
+      const count = options?.COUNT ?? 100;
+      const messages: StreamEntryValue[] = [];
+      const deletedMessages: string[] = [];
+      // Where the next call should continue, or 0-0 once all are scanned
+      let nextId = "0-0";
+      for (const id of candidates) {
+        if (messages.length + deletedMessages.length === count) {
+          nextId = id;
+          break;
+        }
+        const pending = found.pending.get(id)!;
+        if (clock.now() - pending.deliveredAt < minIdleTime) continue;
+        const entry = entries.get(id);
+        if (!entry) {
+          found.pending.delete(id);
+          deletedMessages.push(id);
+          continue;
+        }
+        found.pending.set(id, {
+          consumer,
+          deliveredAt: clock.now(),
+          deliveries: pending.deliveries + 1,
+        });
+        messages.push(entry);
+      }
+      return { nextId, messages, deletedMessages };
+    },
+
+    publish(channel: string, message: string) {
+      // Like Redis, count each channel or pattern a connection subscribed
+      // to once, however many listeners it has
+      const receivers = new Map<object, Set<string>>();
+      for (const subscription of subscriptions) {
+        const matches = subscription.pattern
+          ? subscription.pattern.test(channel)
+          : subscription.target === channel;
+        if (!matches) continue;
+        const targets = receivers.get(subscription.connection) ?? new Set();
+        receivers.set(
+          subscription.connection,
+          targets.add(subscription.target)
+        );
+        queueMicrotask(() => subscription.listener(message, channel));
+      }
+      return [...receivers.values()].reduce(
+        (count, targets) => count + targets.size,
+        0
+      );
+    },
+
+    scriptLoad(source: string) {
+      const sha = createHash("sha1").update(source).digest("hex");
+      loadedScripts.set(sha, source);
+      return sha;
+    },
+
+    evalSha(sha: string, options: { keys?: string[]; arguments?: string[] }) {
+      const source = loadedScripts.get(sha);
+      if (source === undefined) {
+        throw new Error("NOSCRIPT No matching script. Please use EVAL.");
+      }
+      return commands.eval!(source, options);
+    },
+
+    eval(source: string, options: { keys?: string[]; arguments?: string[] }) {
+      const script = scripts[source];
+      if (!script) {
+        throw new Error(
+          "ERR The memory driver has no implementation of this script"
+        );
+      }
+      commands.scriptLoad!(source);
+      return script(
+        (method, ...args) => call({ method, args }),
+        options.keys ?? [],
+        options.arguments ?? []
+      );
+    },
+  };
+
+  // The indexes of up to `count` occurrences of an element in a list,
+  // like LPOS: a negative RANK searches from the end
+  function listPositions(
+    key: string,
+    element: string,
+    count: number,
+    options: { RANK?: number; MAXLEN?: number } = {}
+  ) {
+    const list = read(key, "list") ?? [];
+    const rank = options.RANK ?? 1;
+    if (rank === 0) throw new Error("ERR RANK can't be zero");
+    const indexes = list.map((_, i) => i);
+    if (rank < 0) indexes.reverse();
+    const found = indexes
+      .slice(0, options.MAXLEN || undefined)
+      .filter((i) => list[i] === element)
+      .slice(Math.abs(rank) - 1);
+    return count === 0 ? found : found.slice(0, count);
+  }
+
+  // Members of a sorted set with their scores, by score, then
+  // lexicographically
+  function sortedEntries(key: string): [string, number][] {
+    return [...(read(key, "zset") ?? [])].sort(([a, aScore], [b, bScore]) =>
+      aScore !== bScore ? aScore - bScore : a < b ? -1 : a > b ? 1 : 0
+    );
+  }
+
+  function sortedMembers(key: string) {
+    return sortedEntries(key).map(([member]) => member);
+  }
+
+  // Members of a sorted set in a range of ranks, scores or members, like
+  // ZRANGE; with REV, the range runs from max down to min
+  function zRangeEntries(
+    key: string,
+    min: number | string,
+    max: number | string,
+    options: ZRangeOptions = {}
+  ) {
+    const entries = sortedEntries(key);
+    if (options.REV) entries.reverse();
+    let selected: [string, number][];
+    if (options.BY === "SCORE") {
+      const inRange = options.REV
+        ? scoreRange(String(max), String(min))
+        : scoreRange(String(min), String(max));
+      selected = entries.filter(([, score]) => inRange(score));
+    } else if (options.BY === "LEX") {
+      const inRange = options.REV
+        ? lexRange(String(max), String(min))
+        : lexRange(String(min), String(max));
+      selected = entries.filter(([member]) => inRange(member));
+    } else {
+      const [from, to] = range(entries.length, Number(min), Number(max));
+      selected = entries.slice(from, to + 1);
+    }
+    if (!options.LIMIT) return selected;
+    const { offset, count } = options.LIMIT;
+    return selected.slice(offset, count < 0 ? undefined : offset + count);
+  }
+
+  // Remove and return the lowest or highest scored members
+  function popScored(key: string, count: number, highest: boolean) {
+    const zset = read(key, "zset");
+    if (!zset) return [];
+    const entries = sortedEntries(key);
+    if (highest) entries.reverse();
+    const popped = entries.slice(0, count);
+    popped.forEach(([member]) => zset.delete(member));
+    prune(key, zset.size);
+    return popped.map(([value, score]) => ({ value, score }));
+  }
+
+  const call = (cmd: RedisCommand): unknown => {
+    const handler = commands[cmd.method];
+    if (!handler) {
+      // Raw commands are named by their first argument
+      const name =
+        cmd.method === "sendCommand"
+          ? (cmd.args[0] as string[])[0]
+          : cmd.method;
+      throw new Error(`ERR unknown command '${name}'`);
+    }
+    return handler(...cmd.args);
+  };
+
+  // Wait for a write to a blocked read's keys, or until the clock passes
+  // its timeout
+  const blocking = async (cmd: RedisCommand, block: number) => {
+    const resolved: RedisCommand =
+      cmd.method === "xRead"
+        ? {
+            method: cmd.method,
+            args: [resolveIds(cmd.args[0] as any), ...cmd.args.slice(1)],
+          }
+        : cmd;
+    const deadline = block > 0 ? clock.now() + block : Infinity;
+    for (;;) {
+      const reply = call(resolved);
+      if (reply !== null || clock.now() >= deadline) return reply;
+      await new Promise<void>((resolve) => waiters.add(resolve));
+    }
+  };
+
+  const connect = (): RedisDriver => {
+    const connection = {};
+
+    const unsubscribe = (target: string, listener: RedisMessageListener) => {
+      for (const subscription of subscriptions) {
+        if (
+          subscription.connection === connection &&
+          subscription.target === target &&
+          subscription.listener === listener
+        ) {
+          subscriptions.delete(subscription);
+        }
+      }
+    };
+
+    return {
+      async connect() {},
+      async quit() {
+        for (const subscription of subscriptions) {
+          if (subscription.connection === connection) {
+            subscriptions.delete(subscription);
+          }
+        }
+      },
+      async send(cmd) {
+        const options = cmd.args[cmd.args.length - 1] as
+          | { BLOCK?: number }
+          | undefined;
+        if (
+          (cmd.method === "xRead" || cmd.method === "xReadGroup") &&
+          options?.BLOCK !== undefined
+        ) {
+          return blocking(cmd, options.BLOCK);
+        }
+        // Blocking pops take their timeout in seconds after the keys
+        if (BLOCKING_TIMEOUTS[cmd.method] !== undefined) {
+          const timeout = cmd.args[BLOCKING_TIMEOUTS[cmd.method]!];
+          return blocking(cmd, Number(timeout) * 1000);
+        }
+        return call(cmd);
+      },
+      async batch(commands) {
+        // Commands run one after another without yielding, so the batch
+        // is atomic; like EXEC, failed commands do not stop the others
+        return commands.map((cmd) => {
+          try {
+            return call(cmd);
+          } catch (err) {
+            return err;
+          }
+        });
+      },
+      async duplicate() {
+        return connect();
+      },
+      async subscribe(channel, listener) {
+        subscriptions.add({ connection, target: channel, listener });
+      },
+      async unsubscribe(channel, listener) {
+        unsubscribe(channel, listener);
+      },
+      async psubscribe(pattern, listener) {
+        subscriptions.add({
+          connection,
+          target: pattern,
+          pattern: globToRegExp(pattern),
+          listener,
+        });
+      },
+      async punsubscribe(pattern, listener) {
+        unsubscribe(pattern, listener);
+      },
+    };
+  };
+
+  return connect();
+}
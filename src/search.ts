@@ -0,0 +1,251 @@
+/**
+ * How RediSearch indexes a field: `text` for full-text search, `tag` for
+ * exact values and `numeric` for ranges of numbers.
+ */
+export type RedisSearchFieldType = "text" | "tag" | "numeric";
+
+/**
+ * Conditions on an indexed number field.
+ * @template Q The query a condition adds to.
+ */
+export interface RedisNumberCondition<Q> {
+  eq(value: number): Q;
+  gt(value: number): Q;
+  gte(value: number): Q;
+  lt(value: number): Q;
+  lte(value: number): Q;
+  /**
+   * Between `min` and `max`, inclusive. Either can be infinite.
+   */
+  between(min: number, max: number): Q;
+}
+
+/**
+ * Conditions on an indexed string field.
+ * @template T The field type.
+ * @template Q The query a condition adds to.
+ */
+export interface RedisStringCondition<T, Q> {
+  /**
+   * Equal to `value`: the exact value of a tag field, or the exact phrase
+   * of a full-text field.
+   */
+  eq(value: T): Q;
+  /**
+   * Containing every word of `text`. Full-text fields only.
+   */
+  match(text: string): Q;
+}
+
+/**
+ * The conditions on an indexed field, by its type.
+ * @template TValues The types of the indexed fields.
+ * @template F The field.
+ */
+export type RedisSearchCondition<
+  TValues,
+  F extends keyof TValues
+> = NonNullable<TValues[F]> extends number
+  ? RedisNumberCondition<RedisSearchQuery<TValues>>
+  : RedisStringCondition<NonNullable<TValues[F]>, RedisSearchQuery<TValues>>;
+
+/**
+ * A search query. Conditions added with `and` must all hold.
+ * @template TValues The types of the indexed fields.
+ */
+export interface RedisSearchQuery<TValues> {
+  and<F extends keyof TValues & string>(
+    field: F
+  ): RedisSearchCondition<TValues, F>;
+  /**
+   * The query in the RediSearch query syntax.
+   */
+  toString(): string;
+}
+
+/**
+ * Starts a search query.
+ * @template TValues The types of the indexed fields.
+ */
+export interface RedisSearchBuilder<TValues> {
+  where<F extends keyof TValues & string>(
+    field: F
+  ): RedisSearchCondition<TValues, F>;
+  /**
+   * A query that matches every entry.
+   */
+  all(): RedisSearchQuery<TValues>;
+}
+
+/**
+ * Options for a search.
+ * @template TValues The types of the indexed fields.
+ */
+export interface RedisSearchOptions<TValues> {
+  /**
+   * The number of results to skip. Defaults to 0.
+   */
+  offset?: number;
+  /**
+   * The maximum number of results. Defaults to 10.
+   */
+  limit?: number;
+  /**
+   * The indexed field to order the results by.
+   */
+  sortBy?: keyof TValues & string;
+  /**
+   * The order of `sortBy`. Defaults to `"asc"`.
+   */
+  order?: "asc" | "desc";
+}
+
+/**
+ * The entries found by a search.
+ * @template E The entry type.
+ */
+export interface RedisSearchResult<E> {
+  /**
+   * The number of matching entries, including those beyond the limit.
+   */
+  readonly total: number;
+  readonly entries: E[];
+}
+
+/**
+ * A document in a search reply, with its fields as stored.
+ */
+export interface RedisSearchDocument {
+  readonly key: string;
+  readonly fields: Record<string, string>;
+}
+
+/**
+ * Escape the punctuation of a value so RediSearch reads it as one term.
+ * @param value The value.
+ * @param spaces Whether to escape whitespace too.
+ */
+function escapeSearch(value: string, spaces: boolean): string {
+  return value.replace(
+    spaces ? /[^\p{L}\p{N}_]/gu : /[^\p{L}\p{N}_\s]/gu,
+    "\\$&"
+  );
+}
+
+/**
+ * Format a number as a bound of a numeric range, where infinities are
+ * written as `-inf` and `+inf`.
+ * @param value The bound.
+ * @param exclusive Whether the bound itself is excluded.
+ */
+function rangeBound(value: number, exclusive = false): string {
+  if (Number.isNaN(value)) {
+    throw new TypeError("Search range bounds must be numbers");
+  }
+  const bound =
+    value === Infinity ? "+inf" : value === -Infinity ? "-inf" : String(value);
+  return exclusive ? `(${bound}` : bound;
+}
+
+/**
+ * Create a search query builder over indexed fields. Each condition is
+ * checked against the type the field is indexed with.
+ * @param name The indexed entry, for error messages.
+ * @param fields How each field is indexed.
+ */
+export function searchBuilder(
+  name: string,
+  fields: Record<string, RedisSearchFieldType>
+): RedisSearchBuilder<any> {
+  const query = (clauses: string[]): RedisSearchQuery<any> => ({
+    and: (field) => condition(clauses, field),
+    toString: () => clauses.join(" ") || "*",
+  });
+
+  const condition = (clauses: string[], field: string): any => {
+    const type = fields[field];
+    if (!type) {
+      throw new TypeError(`Field "${field}" of "${name}" is not indexed`);
+    }
+    const add = (clause: string) => query([...clauses, `@${field}:${clause}`]);
+    const expect = (expected: RedisSearchFieldType) => {
+      if (type !== expected) {
+        throw new TypeError(
+          `Field "${field}" of "${name}" is indexed as ${type}, not ${expected}`
+        );
+      }
+    };
+    const range = (min: string, max: string) => {
+      expect("numeric");
+      return add(`[${min} ${max}]`);
+    };
+    return {
+      eq: (value: unknown) => {
+        if (type === "numeric") {
+          return range(
+            rangeBound(value as number),
+            rangeBound(value as number)
+          );
+        }
+        return type === "tag"
+          ? add(`{${escapeSearch(String(value), true)}}`)
+          : add(`"${String(value).replace(/["\\]/g, "\\$&")}"`);
+      },
+      gt: (value: number) => range(rangeBound(value, true), "+inf"),
+      gte: (value: number) => range(rangeBound(value), "+inf"),
+      lt: (value: number) => range("-inf", rangeBound(value, true)),
+      lte: (value: number) => range("-inf", rangeBound(value)),
+      between: (min: number, max: number) =>
+        range(rangeBound(min), rangeBound(max)),
+      match: (text: string) => {
+        expect("text");
+        return add(`(${escapeSearch(text, false)})`);
+      },
+    };
+  };
+
+  return {
+    where: (field) => condition([], field),
+    all: () => query([]),
+  };
+}
+
+/**
+ * Read an FT.SEARCH reply: `[total, key, [field, value, ...], ...]` over
+ * RESP2, or a map with `total_results` and `results` over RESP3.
+ * @param reply The reply.
+ */
+export function parseSearchReply(reply: unknown): {
+  total: number;
+  documents: RedisSearchDocument[];
+} {
+  if (Array.isArray(reply)) {
+    const [total, ...rest] = reply;
+    const documents: RedisSearchDocument[] = [];
+    for (let i = 0; i < rest.length; i += 2) {
+      const flat = (rest[i + 1] ?? []) as unknown[];
+      const fields: Record<string, string> = {};
+      for (let j = 0; j < flat.length; j += 2) {
+        fields[String(flat[j])] = String(flat[j + 1]);
+      }
+      documents.push({ key: String(rest[i]), fields });
+    }
+    return { total: Number(total), documents };
+  }
+  const map = reply as {
+    total_results: number;
+    results: { id: string; extra_attributes?: Record<string, unknown> }[];
+  };
+  return {
+    total: Number(map.total_results),
+    documents: map.results.map((result) => ({
+      key: String(result.id),
+      fields: Object.fromEntries(
+        Object.entries(result.extra_attributes ?? {}).map(([field, value]) => [
+          field,
+          String(value),
+        ])
+      ),
+    })),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Attribute values accepted on spans.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by the client.
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by the client. Tracers from
+ * `@opentelemetry/api` satisfy this interface.
+ */
+export interface TracerLike {
+  startActiveSpan<F extends (span: SpanLike) => unknown>(
+    name: string,
+    options: {
+      kind?: number;
+      attributes?: Record<string, SpanAttributeValue>;
+    },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * `SpanKind.CLIENT` from `@opentelemetry/api`.
+ */
+const SPAN_KIND_CLIENT = 2;
+
+/**
+ * `SpanStatusCode.ERROR` from `@opentelemetry/api`.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Span attribute names used by the client.
+ */
+export const SpanAttributes = {
+  DB_SYSTEM: "db.system",
+  DB_OPERATION: "db.operation",
+  SCHEMA_KEY: "db.redis.schema_key",
+  KEY_PATTERN: "db.redis.key_pattern",
+} as const;
+
+/**
+ * Run a function inside an active client span. Spans started while the
+ * function runs become its children, so operations queued in a transaction
+ * or pipeline are grouped under the span that sends them.
+ * @param tracer The tracer, or undefined to run without tracing.
+ * @param name The span name, e.g. `"userSettings.hset"`.
+ * @param attributes Attributes set on the span.
+ * @param fn The traced function.
+ */
+export async function withSpan<R>(
+  tracer: TracerLike | undefined,
+  name: string,
+  attributes: Record<string, SpanAttributeValue | undefined>,
+  fn: () => Promise<R>
+): Promise<R> {
+  if (!tracer) return fn();
+  const defined: Record<string, SpanAttributeValue> = {
+    [SpanAttributes.DB_SYSTEM]: "redis",
+  };
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) defined[key] = value;
+  }
+  return tracer.startActiveSpan(
+    name,
+    { kind: SPAN_KIND_CLIENT, attributes: defined },
+    async (span) => {
+      try {
+        return await fn();
+      } catch (err) {
+        span.recordException(err instanceof Error ? err : String(err));
+        span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      } finally {
+        span.end();
+      }
+    }
+  );
+}